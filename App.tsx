@@ -1,41 +1,184 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { Header } from './components/Header';
 import { Footer } from './components/Footer';
 import { LanguageSelector } from './components/LanguageSelector';
 import { Spinner } from './components/Spinner';
 import { Alert } from './components/Alert';
-import { translateText, convertTextToMarkdown, extractTextFromImageData } from './services/geminiService';
+import { PageExtractionReport } from './components/PageExtractionReport';
+import { MarkdownEditor } from './components/MarkdownEditor';
+import { TranslationOutput } from './components/TranslationOutput';
+import { SpeechPlaybackControls } from './components/SpeechPlaybackControls';
+import { AudioExportPanel } from './components/AudioExportPanel';
+import { HandoutExportPanel } from './components/HandoutExportPanel';
+import { SharePanel } from './components/SharePanel';
+import { GlossaryEditor } from './components/GlossaryEditor';
+import { AiProviderSettingsPanel } from './components/AiProviderSettingsPanel';
+import { BriefingHistoryPanel } from './components/BriefingHistoryPanel';
+import { TranslationMemoryReview } from './components/TranslationMemoryReview';
+import { BackTranslationReportView } from './components/BackTranslationReportView';
+import { AttendancePanel } from './components/AttendancePanel';
+import { QuizPanel } from './components/QuizPanel';
+import { QuizMode } from './components/QuizMode';
+import { HazardChecklistCard } from './components/HazardChecklistCard';
+import { convertTextToMarkdown, extractTextFromImageData } from './services/aiService';
+import { translateIntoLanguages, retranslateSections, retranslateStructureMismatches } from './services/translationService';
+import { sortTranslations, translationKey, translationStyleOf } from './services/translationStyles';
+import { checkTerminology, TerminologyReport } from './services/terminologyCheckService';
+import { validateMarkdownStructure, StructureReport } from './services/markdownStructureService';
+import { findGlossaryMatches } from './services/glossaryService';
+import { verifyByBackTranslation, BackTranslationReport } from './services/backTranslationService';
+import { processPdfPages, mergePageResults, assemblePageText } from './services/pdfIngestionService';
 import { useTTS } from './hooks/useTTS';
-import { TargetLanguage } from './types';
-import { supportedLanguages, KOREAN_CONSTRUCTION_TERMS } from './constants';
-import { PlayIcon, DocumentTextIcon, LanguageIcon, InformationCircleIcon, StopIcon, DocumentArrowUpIcon } from './components/Icons';
+import { markdownToSpeechSegments } from './services/speechSegments';
+import { exportTranslationAudio, AudioExportFormat } from './services/audioExportService';
+import { getGcpTtsConfig, isGcpTtsConfigured } from './services/gcpTtsService';
+import { downloadBlob, downloadTextFile } from './services/fileDownload';
+import { buildBilingualHandoutHtml, printHandout, HandoutDetails } from './services/handoutService';
+import { pictogramsByLine } from './services/pictogramService';
+import { AttendanceSheetDetails, AttendanceSignOff, briefedTextFor, buildAttendanceCsv, buildAttendanceSheetHtml, createAttendanceEntry } from './services/attendanceService';
+import { createQuiz, translateQuiz } from './services/quizService';
+import { createHazardChecklist, translateHazardChecklist } from './services/hazardChecklistService';
+import {
+  createBriefingId,
+  briefingTitle,
+  briefingContentKey,
+  storableTranslations,
+  loadCurrentBriefingId,
+  saveCurrentBriefingId,
+  BriefingContent,
+} from './services/briefingHistoryService';
+import { useEditHistory } from './hooks/useEditHistory';
+import { useGlossary } from './hooks/useGlossary';
+import { useBriefingHistory } from './hooks/useBriefingHistory';
+import { useTranslationMemory } from './hooks/useTranslationMemory';
+import { useAiProviderSettings } from './hooks/useAiProviderSettings';
+import { TargetLanguage, PdfPageExtraction, PageProgress, LanguageTranslation, BriefingRecord, BriefingSourceFile, AttendanceEntry, BriefingQuiz, QuizAttempt, QuizTranslation, HazardChecklist, HazardChecklistTranslation, TranslationStyle } from './types';
+import { supportedLanguages, HISTORY_AUTOSAVE_DELAY_MS, TRANSLATION_STYLES } from './constants';
+import { DocumentTextIcon, LanguageIcon, InformationCircleIcon, DocumentArrowUpIcon, XCircleIcon } from './components/Icons';
 
 import * as pdfjsLib from 'pdfjs-dist/build/pdf.mjs';
-import { marked } from 'marked';
-import DOMPurify from 'dompurify';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 
 const App: React.FC = () => {
-  const [inputText, setInputText] = useState<string>('');
-  const [targetLanguage, setTargetLanguage] = useState<TargetLanguage>(supportedLanguages[0]);
-  const [translatedText, setTranslatedText] = useState<string>('');
+  const {
+    value: inputText,
+    setValue: editInputText,
+    reset: resetInputText,
+    undo: undoInputEdit,
+    redo: redoInputEdit,
+    canUndo: canUndoInputEdit,
+    canRedo: canRedoInputEdit,
+  } = useEditHistory('');
+  const [extractedText, setExtractedText] = useState<string>(''); // Text the document was first extracted as, for "revert"
+  const [targetLanguages, setTargetLanguages] = useState<TargetLanguage[]>([supportedLanguages[0]]);
+  const [translations, setTranslations] = useState<LanguageTranslation[]>([]); // One entry per language and style translated
+  const [translationStyle, setTranslationStyle] = useState<TranslationStyle>('standard'); // Style of the next run
+  const [activeTranslationKey, setActiveTranslationKey] = useState<string | null>(null); // translationKey of the output tab being shown
   const [isLoading, setIsLoading] = useState<boolean>(false); // For translation loading
   const [error, setError] = useState<string | null>(null); // General/Translation errors
   
   const [isExtractingText, setIsExtractingText] = useState<boolean>(false); // Covers PDF page OCR & image OCR
   const [isFormattingToMarkdown, setIsFormattingToMarkdown] = useState<boolean>(false);
   const [fileProcessingError, setFileProcessingError] = useState<string | null>(null); 
+  const [pdfPages, setPdfPages] = useState<PdfPageExtraction[]>([]); // Per-page method, text and failures
+  const [pageProgress, setPageProgress] = useState<PageProgress | null>(null);
+
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [currentBriefingId, setCurrentBriefingId] = useState<string | null>(null); // History entry the editor is saved to
+  const [sourceFile, setSourceFile] = useState<BriefingSourceFile | null>(null); // Metadata of the uploaded file
+  const [attendance, setAttendance] = useState<AttendanceEntry[]>([]); // Workers who signed off this briefing
+  const [quiz, setQuiz] = useState<BriefingQuiz | null>(null); // Comprehension quiz about this briefing
+  const [quizAttempts, setQuizAttempts] = useState<QuizAttempt[]>([]);
+  const [isPreparingQuiz, setIsPreparingQuiz] = useState<boolean>(false); // The quiz is being written or translated
+  const [isQuizModeOpen, setIsQuizModeOpen] = useState<boolean>(false);
+  const [hazardChecklist, setHazardChecklist] = useState<HazardChecklist | null>(null); // Hazards extracted from the document
+  const [isPreparingHazards, setIsPreparingHazards] = useState<boolean>(false); // The checklist is being extracted or translated
 
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null); // Still needed for PDF page rendering
+  const pdfDocRef = useRef<PDFDocumentProxy | null>(null);
+  const jobControllerRef = useRef<AbortController | null>(null); // The extraction/formatting/translation job in flight
+  const savedContentKeyRef = useRef<string>(''); // Content last written to (or read from) the history
+  const hasRestoredBriefingRef = useRef<boolean>(false);
+
+  // Replaces the editor content with a new document's extracted text. Not an
+  // undoable edit: it starts a new history and becomes the "revert to OCR result" target.
+  const loadInputText = useCallback((text: string) => {
+    resetInputText(text);
+    setExtractedText(text);
+  }, [resetInputText]);
+
+  // Replaces the editor content with the same document read again (failed pages
+  // retried). An undoable edit, and the revert target stays the first extraction.
+  const reloadInputText = useCallback((text: string) => {
+    editInputText(text, { coalesce: false });
+  }, [editInputText]);
 
-  const { speak, cancel, isSpeaking, isSynthesizing, ttsError, isSupported: isTtsSupported } = useTTS();
+  const {
+    play,
+    cancel,
+    pause: pauseSpeech,
+    resume: resumeSpeech,
+    next: nextSpeechSegment,
+    previous: previousSpeechSegment,
+    repeat: repeatSpeechSegment,
+    isSpeaking,
+    isPaused: isSpeechPaused,
+    isSynthesizing,
+    currentSegment: currentSpeechSegment,
+    currentSegmentIndex: currentSpeechSegmentIndex,
+    segmentCount: speechSegmentCount,
+    rate: speechRate,
+    pitch: speechPitch,
+    setRate: setSpeechRate,
+    setPitch: setSpeechPitch,
+    ttsError,
+    isSupported: isTtsSupported,
+  } = useTTS();
   const [currentTtsError, setCurrentTtsError] = useState<string | null>(null);
+  const [speakingTranslationKey, setSpeakingTranslationKey] = useState<string | null>(null);
+  const [fixingTranslationKey, setFixingTranslationKey] = useState<string | null>(null); // Translation whose glossary violations are being re-translated
+  const [repairingTranslationKey, setRepairingTranslationKey] = useState<string | null>(null); // Translation whose structure mismatches are being re-translated
+  const [exportingTranslationKey, setExportingTranslationKey] = useState<string | null>(null); // Translation whose audio file is being made
+  const [audioExportProgress, setAudioExportProgress] = useState<PageProgress | null>(null);
+  const [backTranslationReports, setBackTranslationReports] = useState<Record<string, BackTranslationReport>>({});
+  const [verifyingTranslationKey, setVerifyingTranslationKey] = useState<string | null>(null); // Translation being back-translated
+
+  const {
+    terms: glossaryTerms,
+    addTerm: addGlossaryTerm,
+    updateTerm: updateGlossaryTerm,
+    removeTerm: removeGlossaryTerm,
+    importTerms: importGlossaryTerms,
+    resetToDefault: resetGlossary,
+  } = useGlossary();
+
+  const { settings: aiProviderSettings, providerLabel: aiProviderLabel, updateSettings: updateAiProviderSettings } = useAiProviderSettings();
+
+  const {
+    entries: memoryEntries,
+    rememberTranslation,
+    approveSegment,
+    revokeSegment,
+    clearUnapprovedMemory,
+  } = useTranslationMemory();
+
+  const {
+    briefings,
+    isSupported: isHistorySupported,
+    isLoaded: isHistoryLoaded,
+    historyError,
+    retentionDays: historyRetentionDays,
+    setRetentionDays: setHistoryRetentionDays,
+    save: saveHistoryBriefing,
+    remove: removeHistoryBriefing,
+  } = useBriefingHistory();
 
   useEffect(() => {
     pdfjsLib.GlobalWorkerOptions.workerSrc = 'https://cdnjs.cloudflare.com/ajax/libs/pdf.js/4.4.168/pdf.worker.min.mjs';
     
-    setInputText(
+    loadInputText(
 `# 작업 전 안전점검 사항
 
 1.  **개인 보호구** 착용 상태 확인 (안전모, 안전화, 안전벨트)
@@ -43,7 +186,81 @@ const App: React.FC = () => {
 3.  작업 구역 내 위험 요소 사전 제거 (낙하물, 전선 등)
 4.  비상 대피로 확보 여부 확인`
     );
-  }, []);
+  }, [loadInputText]);
+
+  const briefingContent = useMemo((): BriefingContent => ({
+    sourceFile: sourceFile || undefined,
+    extractedText,
+    markdown: inputText,
+    targetLanguageCodes: targetLanguages.map(language => language.code),
+    translations: storableTranslations(translations),
+    attendance,
+    quiz: quiz || undefined,
+    quizAttempts,
+    hazardChecklist: hazardChecklist || undefined,
+  }), [sourceFile, extractedText, inputText, targetLanguages, translations, attendance, quiz, quizAttempts, hazardChecklist]);
+
+  // Puts a saved briefing into the editor and output, dropping whatever was open.
+  const applyBriefing = useCallback((record: BriefingRecord) => {
+    resetInputText(record.markdown);
+    setExtractedText(record.extractedText);
+    setSourceFile(record.sourceFile || null);
+    const languages = supportedLanguages.filter(language => record.targetLanguageCodes.includes(language.code));
+    setTargetLanguages(languages.length > 0 ? languages : [supportedLanguages[0]]);
+    setTranslations(record.translations);
+    setAttendance(record.attendance || []);
+    setQuiz(record.quiz || null);
+    setQuizAttempts(record.quizAttempts || []);
+    setHazardChecklist(record.hazardChecklist || null);
+    setActiveTranslationKey(record.translations[0] ? translationKey(record.translations[0]) : null);
+    setBackTranslationReports({});
+    setCurrentBriefingId(record.id);
+    savedContentKeyRef.current = briefingContentKey(record);
+  }, [resetInputText]);
+
+  // Reopen the briefing that was open when the app was last closed, instead of the example.
+  useEffect(() => {
+    if (!isHistoryLoaded || hasRestoredBriefingRef.current) return;
+    hasRestoredBriefingRef.current = true;
+    const lastId = loadCurrentBriefingId();
+    const record = lastId ? briefings.find(briefing => briefing.id === lastId) : undefined;
+    if (record) applyBriefing(record);
+  }, [isHistoryLoaded, briefings, applyBriefing]);
+
+  useEffect(() => {
+    if (hasRestoredBriefingRef.current) saveCurrentBriefingId(currentBriefingId);
+  }, [currentBriefingId]);
+
+  // Autosave to the history once the editor and translations settle. Nothing is
+  // saved while a job runs, and the untouched example never becomes an entry.
+  useEffect(() => {
+    if (!isHistoryLoaded || isLoading || isExtractingText || isFormattingToMarkdown) return;
+    const contentKey = briefingContentKey(briefingContent);
+    if (contentKey === savedContentKeyRef.current) return;
+    const isUntouched = !briefingContent.sourceFile
+      && briefingContent.translations.length === 0
+      && !briefingContent.attendance?.length
+      && !briefingContent.quiz
+      && !briefingContent.quizAttempts?.length
+      && !briefingContent.hazardChecklist
+      && briefingContent.markdown === briefingContent.extractedText;
+    if (!currentBriefingId && (isUntouched || !briefingContent.markdown.trim())) return;
+
+    const timer = setTimeout(() => {
+      const id = currentBriefingId || createBriefingId();
+      const now = Date.now();
+      savedContentKeyRef.current = contentKey;
+      saveHistoryBriefing({
+        ...briefingContent,
+        id,
+        title: briefingTitle(briefingContent.markdown),
+        createdAt: briefings.find(briefing => briefing.id === id)?.createdAt ?? now,
+        updatedAt: now,
+      });
+      if (!currentBriefingId) setCurrentBriefingId(id);
+    }, HISTORY_AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [briefingContent, currentBriefingId, briefings, isHistoryLoaded, isLoading, isExtractingText, isFormattingToMarkdown, saveHistoryBriefing]);
 
   useEffect(() => {
     if (ttsError) {
@@ -51,16 +268,195 @@ const App: React.FC = () => {
     }
   }, [ttsError]);
 
+  // Starts a new cancellable job, aborting any previous one so its late results are dropped.
+  const startJob = (): AbortSignal => {
+    jobControllerRef.current?.abort();
+    const controller = new AbortController();
+    jobControllerRef.current = controller;
+    setNotice(null);
+    return controller.signal;
+  };
+
+  const handleCancelJob = () => {
+    jobControllerRef.current?.abort();
+    jobControllerRef.current = null;
+    setIsExtractingText(false);
+    setIsFormattingToMarkdown(false);
+    setIsLoading(false);
+    setFixingTranslationKey(null);
+    setVerifyingTranslationKey(null);
+    setRepairingTranslationKey(null);
+    setExportingTranslationKey(null);
+    setAudioExportProgress(null);
+    setIsPreparingQuiz(false);
+    setIsPreparingHazards(false);
+    setPageProgress(null);
+    setTranslations(prev => prev.filter(translation => translation.status !== 'translating'));
+    setQuiz(prev => prev && { ...prev, translations: prev.translations.filter(translation => translation.status !== 'translating') });
+    setHazardChecklist(prev => prev && { ...prev, translations: prev.translations.filter(translation => translation.status !== 'translating') });
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+    setNotice('작업이 취소되었습니다. (Cancelled)');
+  };
+
+  // Clears the per-document state (PDF pages, messages, playback) before another briefing is shown.
+  const clearWorkspace = () => {
+    setPdfPages([]);
+    setPageProgress(null);
+    pdfDocRef.current?.destroy();
+    pdfDocRef.current = null;
+    setError(null);
+    setFileProcessingError(null);
+    setNotice(null);
+    if (isTtsSupported) cancel();
+  };
+
+  const handleOpenBriefing = (record: BriefingRecord) => {
+    clearWorkspace();
+    applyBriefing(record);
+    setNotice(`'${record.title}' 브리핑을 열었습니다. (Opened from history)`);
+  };
+
+  // Copies a past briefing's document as today's starting point. Translations,
+  // sign-offs and the quiz are left out since the copy is usually edited and
+  // translated again, and briefed to a new crew. The hazard checklist comes
+  // from the document, so it is kept without its translations.
+  const handleDuplicateBriefing = (record: BriefingRecord) => {
+    const now = Date.now();
+    const copy: BriefingRecord = {
+      ...record,
+      id: createBriefingId(),
+      createdAt: now,
+      updatedAt: now,
+      translations: [],
+      attendance: [],
+      quiz: undefined,
+      quizAttempts: [],
+      hazardChecklist: record.hazardChecklist && { ...record.hazardChecklist, translations: [] },
+    };
+    clearWorkspace();
+    applyBriefing(copy);
+    saveHistoryBriefing(copy);
+    setNotice(`'${record.title}' 브리핑을 복제했습니다. 내용을 수정한 뒤 번역하세요. (Duplicated from history)`);
+  };
+
+  const handleDeleteBriefing = (id: string) => {
+    removeHistoryBriefing(id);
+    if (id === currentBriefingId) {
+      // Keep what is on screen, but only save it again once it changes.
+      setCurrentBriefingId(null);
+      savedContentKeyRef.current = briefingContentKey(briefingContent);
+    }
+  };
+
+  const handleNewBriefing = () => {
+    clearWorkspace();
+    loadInputText('');
+    setSourceFile(null);
+    setTranslations([]);
+    setAttendance([]);
+    setQuiz(null);
+    setQuizAttempts([]);
+    setHazardChecklist(null);
+    setActiveTranslationKey(null);
+    setBackTranslationReports({});
+    setCurrentBriefingId(null);
+  };
+
+  // Runs the given pages through the ingestion pipeline and merges them into the
+  // existing per-page results (used both for the first pass and for retries).
+  const ingestPdfPages = async (pdf: PDFDocumentProxy, pageNumbers: number[], previous: PdfPageExtraction[], signal: AbortSignal) => {
+    const results = await processPdfPages(pdf, pageNumbers, { onProgress: setPageProgress, signal });
+    const merged = mergePageResults(previous, results);
+    setPdfPages(merged);
+    setPageProgress(null);
+    return merged;
+  };
+
+  // Puts the extracted page text into the input, formatting OCR output to Markdown,
+  // and reports any pages that are still missing. A retry of the same document
+  // replaces the text in one undoable step, without showing the raw text first.
+  const loadPdfPagesIntoInput = async (pages: PdfPageExtraction[], signal: AbortSignal, isRetry = false) => {
+    const load = isRetry ? reloadInputText : loadInputText;
+    const failedPages = pages.filter(page => page.status === 'failed');
+    const rawPdfText = assemblePageText(pages);
+    const failureWarning = failedPages.length > 0
+      ? `${failedPages.length} of ${pages.length} pages could not be extracted (p. ${failedPages.map(page => page.pageNumber).join(', ')}). The document below is incomplete.`
+      : null;
+    setFileProcessingError(failureWarning);
+
+    if (rawPdfText && pages.every(page => page.method === 'text-layer')) {
+      // Markdown was already rebuilt from the text layer, no AI formatting pass needed.
+      load(rawPdfText);
+      setIsExtractingText(false);
+    } else if (rawPdfText) {
+      if (!isRetry) load(rawPdfText); // Show raw text first
+      setIsExtractingText(false); // Raw text extraction from PDF is done
+      setIsFormattingToMarkdown(true);
+      try {
+        const markdownText = await convertTextToMarkdown(rawPdfText, signal);
+        if (!signal.aborted) load(markdownText);
+      } catch (mdErr: any) {
+        if (signal.aborted) return;
+        if (isRetry) load(rawPdfText); // A first load already shows it
+        console.error('Error converting PDF OCR text to Markdown:', mdErr);
+        setFileProcessingError(`Markdown Conversion Error (PDF): ${mdErr.message || 'Could not format extracted text.'}. Raw text loaded.${failureWarning ? ' ' + failureWarning : ''}`);
+      } finally {
+        if (!signal.aborted) setIsFormattingToMarkdown(false);
+      }
+    } else {
+      load('');
+      setFileProcessingError(failureWarning || "No text content could be extracted from the PDF (text layer or OCR).");
+      setIsExtractingText(false);
+    }
+  };
+
+  const handleRetryFailedPages = async () => {
+    const pdf = pdfDocRef.current;
+    const failedPageNumbers = pdfPages.filter(page => page.status === 'failed').map(page => page.pageNumber);
+    if (!pdf || failedPageNumbers.length === 0) return;
+    // The document is reassembled from its pages, so edits made since extraction would be replaced.
+    if (inputText !== extractedText && !window.confirm('다시 읽은 페이지를 넣으면 문서를 페이지에서 다시 조합하므로, 편집한 내용이 바뀝니다. 바뀐 뒤에도 실행 취소로 편집한 내용을 되돌릴 수 있습니다. 계속할까요?')) return;
+
+    const signal = startJob();
+    setIsExtractingText(true);
+    setFileProcessingError(null);
+    if (isTtsSupported) cancel();
+
+    try {
+      const merged = await ingestPdfPages(pdf, failedPageNumbers, pdfPages, signal);
+      await loadPdfPagesIntoInput(merged, signal, true);
+    } catch (err: any) {
+      if (signal.aborted) return;
+      console.error('Error retrying PDF pages:', err);
+      setFileProcessingError(`PDF Processing/OCR Error: ${err.message || 'Could not retry failed pages.'}`);
+      setIsExtractingText(false);
+      setIsFormattingToMarkdown(false);
+      setPageProgress(null);
+    }
+  };
+
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    const signal = startJob();
     setIsExtractingText(true);
     setIsFormattingToMarkdown(false);
     setFileProcessingError(null);
     setError(null); 
-    setInputText(''); 
-    setTranslatedText(''); 
+    loadInputText(''); 
+    setTranslations([]); 
+    setAttendance([]);
+    setQuiz(null);
+    setQuizAttempts([]);
+    setHazardChecklist(null);
+    setPdfPages([]);
+    setSourceFile({ name: file.name, type: file.type, size: file.size });
+    setCurrentBriefingId(null); // A new upload starts a new history entry
+    pdfDocRef.current?.destroy();
+    pdfDocRef.current = null;
     if (isTtsSupported) cancel();
 
     const validImageTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/jpg'];
@@ -70,69 +466,19 @@ const App: React.FC = () => {
         const arrayBuffer = await file.arrayBuffer();
         const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
         const pdf = await loadingTask.promise;
-        
-        let fullRawText = '';
-        const canvas = canvasRef.current || document.createElement('canvas');
-        if (!canvasRef.current) { /* canvas is used locally if ref is null, not stored back to ref */ }
-
-        for (let i = 1; i <= pdf.numPages; i++) {
-          const page = await pdf.getPage(i);
-          const viewport = page.getViewport({ scale: 1.5 });
-          
-          canvas.height = viewport.height;
-          canvas.width = viewport.width;
-          const context = canvas.getContext('2d');
-          if (!context) {
-              throw new Error("Could not get canvas context for PDF page rendering.");
-          }
-
-          const renderContext = {
-            canvasContext: context,
-            viewport: viewport,
-          };
-          await page.render(renderContext).promise;
-          
-          const imageDataUrl = canvas.toDataURL('image/jpeg', 0.85); // OCR from JPEG
-          const base64ImageData = imageDataUrl.split(',')[1];
-
-          if (base64ImageData) {
-            try {
-              const textFromPage = await extractTextFromImageData(base64ImageData, 'image/jpeg');
-              fullRawText += textFromPage + '\n\n';
-            } catch (ocrErr: any) {
-              console.warn(`OCR failed for PDF page ${i}:`, ocrErr);
-              // Continue processing other pages, maybe accumulate errors or show one prominent one.
-            }
-          }
-          page.cleanup();
-        }
-        
-        const rawPdfText = fullRawText.trim();
-        
-        if (rawPdfText) {
-          setInputText(rawPdfText); // Show raw text first
-          setIsExtractingText(false); // Raw text extraction from PDF is done
-          setIsFormattingToMarkdown(true);
-          try {
-            const markdownText = await convertTextToMarkdown(rawPdfText);
-            setInputText(markdownText);
-          } catch (mdErr: any) {
-            console.error('Error converting PDF OCR text to Markdown:', mdErr);
-            setFileProcessingError(`Markdown Conversion Error (PDF): ${mdErr.message || 'Could not format extracted text.'}. Raw text loaded.`);
-            // inputText is already set to rawPdfText
-          } finally {
-            setIsFormattingToMarkdown(false);
-          }
-        } else {
-           setFileProcessingError("No text content could be extracted from the PDF (OCR).");
-           setIsExtractingText(false);
-        }
+        pdfDocRef.current = pdf; // Kept so failed pages can be retried without re-uploading
+        setSourceFile(prev => prev && { ...prev, pageCount: pdf.numPages });
 
+        const pageNumbers = Array.from({ length: pdf.numPages }, (_, index) => index + 1);
+        const pages = await ingestPdfPages(pdf, pageNumbers, [], signal);
+        await loadPdfPagesIntoInput(pages, signal);
       } catch (err: any) {
+        if (signal.aborted) return;
         console.error('Error processing PDF:', err);
         setFileProcessingError(`PDF Processing/OCR Error: ${err.message || 'Could not process PDF.'}`);
         setIsExtractingText(false);
         setIsFormattingToMarkdown(false);
+        setPageProgress(null);
       } finally {
         if (fileInputRef.current) {
           fileInputRef.current.value = ''; 
@@ -156,34 +502,38 @@ const App: React.FC = () => {
 
             let rawTextFromImage = '';
             try {
-                rawTextFromImage = await extractTextFromImageData(base64ImageData, mimeType);
+                rawTextFromImage = await extractTextFromImageData(base64ImageData, mimeType, signal);
             } catch (ocrErr: any) {
+                if (signal.aborted) return;
                 console.error(`OCR failed for image ${file.name}:`, ocrErr);
                 setFileProcessingError(`Image OCR Error: ${ocrErr.message || 'Could not extract text from image.'}`);
                 setIsExtractingText(false); // Stop extraction spinner
                 if (fileInputRef.current) fileInputRef.current.value = '';
                 return; // Exit if OCR fails
             }
+            if (signal.aborted) return;
             
-            setInputText(rawTextFromImage); // Show raw text
+            loadInputText(rawTextFromImage); // Show raw text
             setIsExtractingText(false); // Text extraction (OCR) from image is done
 
             if (rawTextFromImage.trim()) {
                 setIsFormattingToMarkdown(true);
                 try {
-                    const markdownText = await convertTextToMarkdown(rawTextFromImage);
-                    setInputText(markdownText);
+                    const markdownText = await convertTextToMarkdown(rawTextFromImage, signal);
+                    if (!signal.aborted) loadInputText(markdownText);
                 } catch (mdErr: any) {
+                    if (signal.aborted) return;
                     console.error('Error converting image OCR text to Markdown:', mdErr);
                     setFileProcessingError(`Markdown Conversion Error (Image): ${mdErr.message || 'Could not format extracted text.'}. Raw text loaded.`);
                     // inputText is already rawTextFromImage
                 } finally {
-                    setIsFormattingToMarkdown(false);
+                    if (!signal.aborted) setIsFormattingToMarkdown(false);
                 }
             } else {
                  setFileProcessingError("No text content could be extracted from the image (OCR).");
             }
         } catch (err: any) {
+            if (signal.aborted) return;
             console.error('Error processing image file:', err);
             if (!fileProcessingError) { // Don't overwrite a more specific OCR error
                  setFileProcessingError(`Image Processing Error: ${err.message || 'Could not process image file.'}`);
@@ -209,80 +559,382 @@ const App: React.FC = () => {
       setError('Please upload a file or ensure there is content to translate.');
       return;
     }
+    if (targetLanguages.length === 0) {
+      setError('Please select at least one target language.');
+      return;
+    }
+    const signal = startJob();
     setError(null);
     setCurrentTtsError(null);
     setIsLoading(true);
-    setTranslatedText('');
+    // A run replaces the translations of its style; the other styles stay next to them.
+    const started = targetLanguages.map((language): LanguageTranslation => ({
+      language,
+      status: 'translating',
+      ...(translationStyle === 'standard' ? {} : { style: translationStyle }),
+      text: '',
+      sourceText: inputText,
+    }));
+    setTranslations(prev => sortTranslations([...prev.filter(t => translationStyleOf(t) !== translationStyle), ...started]));
+    setBackTranslationReports(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => !started.some(t => translationKey(t) === key))));
+    setActiveTranslationKey(translationKey(started[0]));
     if (isTtsSupported) cancel(); 
 
-    const lawTermsString = Object.entries(KOREAN_CONSTRUCTION_TERMS)
-        .map(([ko, en]) => `* ${ko}: ${en}`)
-        .join('\n');
-    
-    const baseSystemInstruction = `Reference for some Korean construction/safety terms (use if relevant):
-${lawTermsString}`;
-
     try {
-      const result = await translateText(inputText, targetLanguage.code, baseSystemInstruction);
-      setTranslatedText(result); 
+      await translateIntoLanguages(inputText, targetLanguages, {
+        glossary: glossaryTerms,
+        memory: memoryEntries,
+        style: translationStyle,
+        signal,
+        onUpdate: (update) => {
+          if (signal.aborted) return;
+          setTranslations(prev => prev.map(t => translationKey(t) === translationKey(update) ? update : t));
+          if (update.status === 'done') rememberTranslation(update);
+        },
+      });
     } catch (err) {
+      if (signal.aborted) return;
       console.error('Translation error:', err);
       setError(err instanceof Error ? err.message : 'An unknown error occurred during translation.');
     } finally {
-      setIsLoading(false);
+      if (!signal.aborted) setIsLoading(false);
+    }
+  }, [inputText, targetLanguages, translationStyle, glossaryTerms, memoryEntries, rememberTranslation, cancel, isTtsSupported]);
+
+  const handleFixTerminology = async (translation: LanguageTranslation) => {
+    const report = terminologyReports[translationKey(translation)];
+    if (!report || report.violations.length === 0) return;
+
+    const signal = startJob();
+    setError(null);
+    setIsLoading(true);
+    setFixingTranslationKey(translationKey(translation));
+    if (isTtsSupported) cancel();
+
+    try {
+      const text = await retranslateSections(translation, report.violations, { glossary: glossaryTerms, signal });
+      setTranslations(prev => prev.map(t => translationKey(t) === translationKey(translation) ? { ...t, text } : t));
+      rememberTranslation({ ...translation, text });
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Terminology re-translation error:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while re-translating sections.');
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setFixingTranslationKey(null);
+      }
+    }
+  };
+
+  const handleRepairStructure = async (translation: LanguageTranslation) => {
+    const signal = startJob();
+    setError(null);
+    setIsLoading(true);
+    setRepairingTranslationKey(translationKey(translation));
+    if (isTtsSupported) cancel();
+
+    try {
+      const text = await retranslateStructureMismatches(translation, { glossary: glossaryTerms, signal });
+      setTranslations(prev => prev.map(t => translationKey(t) === translationKey(translation) ? { ...t, text } : t));
+      rememberTranslation({ ...translation, text });
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Structure re-translation error:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while re-translating sections.');
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setRepairingTranslationKey(null);
+      }
+    }
+  };
+
+  const handleExportAudio = async (translation: LanguageTranslation, format: AudioExportFormat, includeOriginal: boolean) => {
+    const signal = startJob();
+    setError(null);
+    setIsLoading(true);
+    setExportingTranslationKey(translationKey(translation));
+    setAudioExportProgress(null);
+
+    try {
+      const audio = await exportTranslationAudio(translation, {
+        format,
+        includeOriginal,
+        signal,
+        onProgress: (progress) => {
+          if (!signal.aborted) setAudioExportProgress(progress);
+        },
+      });
+      downloadBlob(`tbm-${translationKey(translation)}${includeOriginal ? '-with-korean' : ''}.${format}`, audio);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Audio export error:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while creating the audio file.');
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setExportingTranslationKey(null);
+        setAudioExportProgress(null);
+      }
+    }
+  };
+
+  const handleDownloadHandout = (translation: LanguageTranslation, details: HandoutDetails) => {
+    const html = buildBilingualHandoutHtml(translation, details, glossaryTerms);
+    downloadTextFile(`tbm-handout-${translationKey(translation)}-${details.date}.html`, html, 'text/html');
+  };
+
+  const handlePrintHandout = (translation: LanguageTranslation, details: HandoutDetails) => {
+    try {
+      printHandout(buildBilingualHandoutHtml(translation, details, glossaryTerms));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the print view.');
+    }
+  };
+
+  // Ties the signature to the text the worker was briefed with; throws when their language and style have none.
+  const handleSignAttendance = async (signOff: AttendanceSignOff) => {
+    const briefedText = briefedTextFor(signOff.languageCode, signOff.style, inputText, translations);
+    if (briefedText === null) {
+      throw new Error('이 언어와 형식으로 완료된 번역이 없습니다. (No finished translation in this language and style.)');
+    }
+    const entry = await createAttendanceEntry(signOff, briefedText);
+    setAttendance(prev => [...prev, entry]);
+  };
+
+  const handleExportAttendanceCsv = (details: AttendanceSheetDetails) => {
+    downloadTextFile(`tbm-attendance-${details.date}.csv`, buildAttendanceCsv(attendance, details), 'text/csv');
+  };
+
+  const handlePrintAttendance = (details: AttendanceSheetDetails) => {
+    try {
+      printHandout(buildAttendanceSheetHtml(attendance, details));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not open the print view.');
+    }
+  };
+
+  // Translates the quiz into `languages`, replacing their earlier quiz translations as results arrive.
+  const runQuizTranslation = async (current: BriefingQuiz, languages: TargetLanguage[], signal: AbortSignal) => {
+    const upsert = (translation: QuizTranslation) => setQuiz(prev => prev && prev.createdAt === current.createdAt
+      ? { ...prev, translations: [...prev.translations.filter(t => t.language.code !== translation.language.code), translation] }
+      : prev);
+    await translateQuiz(current, languages, { glossary: glossaryTerms, signal, onUpdate: upsert });
+  };
+
+  // Writes a new quiz from the editor's Korean text, then translates it into the selected languages.
+  const handleGenerateQuiz = async (questionCount: number) => {
+    const signal = startJob();
+    setError(null);
+    setIsLoading(true);
+    setIsPreparingQuiz(true);
+
+    try {
+      const created = await createQuiz(inputText, questionCount, signal);
+      setQuiz(created);
+      await runQuizTranslation(created, targetLanguages, signal);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Quiz generation error:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while making the quiz.');
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setIsPreparingQuiz(false);
+      }
     }
-  }, [inputText, targetLanguage, cancel, isTtsSupported]);
+  };
 
-  const handleSpeakOrStop = () => {
+  const handleTranslateQuiz = async (languages: TargetLanguage[]) => {
+    if (!quiz) return;
+    const signal = startJob();
+    setError(null);
+    setIsLoading(true);
+    setIsPreparingQuiz(true);
+
+    try {
+      await runQuizTranslation(quiz, languages, signal);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Quiz translation error:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while translating the quiz.');
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setIsPreparingQuiz(false);
+      }
+    }
+  };
+
+  // Translates the checklist into `languages`, replacing their earlier translations as results arrive.
+  const runHazardTranslation = async (current: HazardChecklist, languages: TargetLanguage[], signal: AbortSignal) => {
+    const upsert = (translation: HazardChecklistTranslation) => setHazardChecklist(prev => prev && prev.createdAt === current.createdAt
+      ? { ...prev, translations: [...prev.translations.filter(t => t.language.code !== translation.language.code), translation] }
+      : prev);
+    await translateHazardChecklist(current, languages, { glossary: glossaryTerms, signal, onUpdate: upsert });
+  };
+
+  // Extracts the hazard checklist from the editor's Korean text, then translates it into the selected languages.
+  const handleExtractHazards = async () => {
+    const signal = startJob();
+    setError(null);
+    setIsLoading(true);
+    setIsPreparingHazards(true);
+
+    try {
+      const created = await createHazardChecklist(inputText, signal);
+      setHazardChecklist(created);
+      await runHazardTranslation(created, targetLanguages, signal);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Hazard extraction error:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while extracting the hazards.');
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setIsPreparingHazards(false);
+      }
+    }
+  };
+
+  const handleTranslateHazards = async (languages: TargetLanguage[]) => {
+    if (!hazardChecklist) return;
+    const signal = startJob();
+    setError(null);
+    setIsLoading(true);
+    setIsPreparingHazards(true);
+
+    try {
+      await runHazardTranslation(hazardChecklist, languages, signal);
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Hazard checklist translation error:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred while translating the checklist.');
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setIsPreparingHazards(false);
+      }
+    }
+  };
+
+  const handleStartQuizMode = () => {
+    if (isTtsSupported) cancel(); // The quiz mode reads its own questions aloud
+    setSpeakingTranslationKey(null);
+    setIsQuizModeOpen(true);
+  };
+
+  const handleVerifyBackTranslation = async (translation: LanguageTranslation) => {
+    const signal = startJob();
+    setError(null);
+    setIsLoading(true);
+    setVerifyingTranslationKey(translationKey(translation));
+
+    try {
+      const report = await verifyByBackTranslation(translation, signal);
+      setBackTranslationReports(prev => ({ ...prev, [translationKey(translation)]: report }));
+    } catch (err) {
+      if (signal.aborted) return;
+      console.error('Back-translation error:', err);
+      setError(err instanceof Error ? err.message : 'An unknown error occurred during back-translation.');
+    } finally {
+      if (!signal.aborted) {
+        setIsLoading(false);
+        setVerifyingTranslationKey(null);
+      }
+    }
+  };
+
+  const handleCloseBackTranslation = (key: string) => {
+    setBackTranslationReports(prev => {
+      const { [key]: _closed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const handleSpeakOrStop = (translation: LanguageTranslation) => {
     if (!isTtsSupported) {
       setCurrentTtsError("Text-to-Speech is not supported by this browser.");
       return;
     }
     setCurrentTtsError(null);
-    if (isSpeaking || isSynthesizing) {
+    if ((isSpeaking || isSynthesizing || isSpeechPaused) && speakingTranslationKey === translationKey(translation)) {
       cancel();
-    } else {
-      if (translatedText && targetLanguage) {
-        const tempDiv = document.createElement('div');
-        tempDiv.innerHTML = DOMPurify.sanitize(marked.parse(translatedText) as string, { USE_PROFILES: { html: true } });
-        const textToSpeak = tempDiv.textContent || tempDiv.innerText || "";
-        
-        if (textToSpeak.trim()) {
-            speak(textToSpeak.trim(), targetLanguage.code);
-        } else {
-            setCurrentTtsError("No text content available to speak.");
-        }
+      setSpeakingTranslationKey(null);
+    } else if (translation.text) {
+      // Starting another language's playback stops whatever is playing now (play() cancels first).
+      const segments = markdownToSpeechSegments(translation.text);
+      if (segments.length > 0) {
+          setSpeakingTranslationKey(translationKey(translation));
+          play(segments, translation.language.code);
+      } else {
+          setCurrentTtsError("No text content available to speak.");
       }
     }
   };
   
   const showOverallSpinner = isExtractingText || isFormattingToMarkdown;
-  const uploadButtonText = isExtractingText ? 'Extracting Text (OCR)...' : isFormattingToMarkdown ? 'Formatting...' : '파일 업로드 (PDF/이미지)';
-
-  let ttsButtonIcon;
-  let ttsButtonText;
-  if (isSynthesizing) {
-    ttsButtonIcon = <Spinner size="sm" />;
-    ttsButtonText = "Synthesizing...";
-  } else if (isSpeaking) {
-    ttsButtonIcon = <StopIcon className="w-5 h-5 mr-2" />;
-    ttsButtonText = "멈추기";
-  } else {
-    ttsButtonIcon = <PlayIcon className="w-5 h-5 mr-2" />;
-    ttsButtonText = "번역 듣기";
-  }
-  if (!isTtsSupported) {
-    ttsButtonText = "TTS Not Supported";
-  }
+  const uploadButtonText = isExtractingText && pageProgress
+    ? `Extracting page ${Math.min(pageProgress.completed + 1, pageProgress.total)} of ${pageProgress.total}...`
+    : isExtractingText ? 'Extracting Text...' : isFormattingToMarkdown ? 'Formatting...' : '파일 업로드 (PDF/이미지)';
+
+  const finishedCount = translations.filter(t => t.status !== 'translating').length;
+  const terminologyReports = useMemo(() => {
+    const reports: Record<string, TerminologyReport> = {};
+    translations
+      .filter(t => t.status === 'done')
+      // A key-points summary leaves terms out by design, so it is not checked against the glossary.
+      .filter(t => translationStyleOf(t) !== 'key-points')
+      .forEach(t => { reports[translationKey(t)] = checkTerminology(t.sourceText, t.text, t.language, glossaryTerms); });
+    return reports;
+  }, [translations, glossaryTerms]);
+  const structureReports = useMemo(() => {
+    const reports: Record<string, StructureReport> = {};
+    translations
+      .filter(t => t.status === 'done' && translationStyleOf(t) === 'standard') // The other styles reshape the text on purpose
+      .forEach(t => { reports[translationKey(t)] = validateMarkdownStructure(t.sourceText, t.text); });
+    return reports;
+  }, [translations]);
+  // A report only applies to the exact text it verified; re-translating makes it stale.
+  const activeTranslation = translations.find(t => translationKey(t) === activeTranslationKey);
+  const activeBackTranslationReport = activeTranslation && backTranslationReports[translationKey(activeTranslation)]?.translatedText === activeTranslation.text
+    ? backTranslationReports[translationKey(activeTranslation)]
+    : null;
+  const activeSectionPictograms = useMemo(
+    () => activeTranslation?.status === 'done'
+      ? pictogramsByLine(activeTranslation.sourceText, activeTranslation.text, glossaryTerms)
+      : null,
+    [activeTranslation, glossaryTerms]
+  );
+  const isAudioExportAvailable = useMemo(() => isGcpTtsConfigured(getGcpTtsConfig()), []);
+  const matchedGlossaryIds = useMemo(
+    () => new Set(findGlossaryMatches(inputText, glossaryTerms).map(term => term.id)),
+    [inputText, glossaryTerms]
+  );
 
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-br from-slate-900 via-slate-800 to-gray-900 text-slate-100">
       <Header />
-      <canvas ref={canvasRef} style={{ display: 'none' }}></canvas>
       <main className="flex-grow container mx-auto px-4 py-8 space-y-8">
         {error && <Alert message={error} type="error" onClose={() => setError(null)} />}
         {fileProcessingError && <Alert message={fileProcessingError} type="warning" onClose={() => setFileProcessingError(null)} />}
+        {notice && <Alert message={notice} type="info" onClose={() => setNotice(null)} />}
         {currentTtsError && <Alert message={`TTS Info: ${currentTtsError}`} type={currentTtsError.startsWith("Speech error:") || currentTtsError.includes("not supported") ? "error" : "info"} onClose={() => setCurrentTtsError(null)} />}
+
+        <BriefingHistoryPanel
+          briefings={briefings}
+          currentBriefingId={currentBriefingId}
+          isSupported={isHistorySupported}
+          historyError={historyError}
+          retentionDays={historyRetentionDays}
+          disabled={showOverallSpinner || isLoading}
+          onOpen={handleOpenBriefing}
+          onDuplicate={handleDuplicateBriefing}
+          onDelete={handleDeleteBriefing}
+          onNew={handleNewBriefing}
+          onRetentionDaysChange={setHistoryRetentionDays}
+        />
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
           {/* Input Section */}
@@ -292,26 +944,30 @@ ${lawTermsString}`;
               TBM Docs Input (Korean)
             </h2>
             
-            {showOverallSpinner && inputText === '' && (
+            {showOverallSpinner && inputText === '' ? (
                <div className="flex-grow flex justify-center items-center h-[45rem]">
                  <Spinner />
                </div>
+            ) : (
+              <MarkdownEditor
+                value={inputText}
+                onChange={editInputText}
+                onUndo={undoInputEdit}
+                onRedo={redoInputEdit}
+                canUndo={canUndoInputEdit}
+                canRedo={canRedoInputEdit}
+                onRevert={() => editInputText(extractedText, { coalesce: false })}
+                canRevert={inputText !== extractedText}
+                readOnly={showOverallSpinner}
+              />
             )}
-            {!showOverallSpinner && !inputText && (
-              <div className="flex-grow flex justify-center items-center h-[45rem] p-3 bg-slate-700/50 border border-slate-600 rounded-md text-slate-400 italic">
-                Upload a PDF or Image (JPG, PNG, WEBP) to see its Markdown content here, or use the example.
-              </div>
-            )}
-            {/* Display input text if available, even during formatting, or when not spinning */}
-            {inputText && (!showOverallSpinner || (showOverallSpinner && inputText !== '')) && (
-              <div
-                className="flex-grow w-full h-[45rem] p-3 bg-slate-700/50 border border-slate-600 rounded-md text-slate-200 overflow-y-auto rendered-markdown"
-                aria-live="polite"
-                aria-label="TBM Material Input (Rendered Markdown)"
-                dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(inputText) as string) }}
-              >
-              </div>
-            )}
+
+            <PageExtractionReport
+              pages={pdfPages}
+              progress={pageProgress}
+              onRetryFailed={handleRetryFailedPages}
+              isBusy={showOverallSpinner || isLoading}
+            />
 
             <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 pt-4">
               <input
@@ -335,23 +991,47 @@ ${lawTermsString}`;
               
               <div className="flex-grow sm:flex-grow-0 order-2 sm:order-none">
                 <LanguageSelector
-                  selectedLanguage={targetLanguage}
-                  onSelectLanguage={(lang) => {
-                    setTargetLanguage(lang);
-                    if (isTtsSupported) cancel(); 
+                  selectedLanguages={targetLanguages}
+                  onChangeLanguages={(langs) => {
+                    setTargetLanguages(langs);
                     setCurrentTtsError(null);
                   }}
+                  disabled={isLoading}
                 />
               </div>
+
+              <select
+                value={translationStyle}
+                onChange={e => setTranslationStyle(e.target.value as TranslationStyle)}
+                disabled={isLoading}
+                title={TRANSLATION_STYLES.find(option => option.id === translationStyle)?.description}
+                aria-label="Output style"
+                className="w-full sm:w-auto bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 p-2.5 shadow order-2 sm:order-none disabled:cursor-not-allowed disabled:text-slate-400"
+              >
+                {TRANSLATION_STYLES.map(option => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
               
               <button
                 onClick={handleTranslate}
-                disabled={isLoading || showOverallSpinner || !inputText.trim() || (isTtsSupported && (isSynthesizing || isSpeaking))}
+                disabled={isLoading || showOverallSpinner || !inputText.trim() || targetLanguages.length === 0 || (isTtsSupported && (isSynthesizing || isSpeaking))}
                 className="w-full sm:w-auto bg-sky-600 hover:bg-sky-500 disabled:bg-sky-800 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-2.5 px-5 rounded-lg shadow-md transition-colors duration-150 flex items-center justify-center order-3 sm:order-none"
               >
                 {isLoading ? <Spinner size="sm" /> : <LanguageIcon className="w-5 h-5 mr-2" />}
-                번역
+                {targetLanguages.length > 1 ? `번역 (${targetLanguages.length})` : '번역'}
               </button>
+
+              {(showOverallSpinner || isLoading) && (
+                <button
+                  onClick={handleCancelJob}
+                  className="w-full sm:w-auto bg-red-600 hover:bg-red-500 text-white font-semibold py-2.5 px-4 rounded-lg shadow-md transition-colors duration-150 flex items-center justify-center order-4 sm:order-none"
+                  aria-label="Cancel the running extraction, formatting or translation"
+                >
+                  <XCircleIcon className="w-5 h-5 mr-2" />
+                  취소
+                </button>
+              )}
             </div>
           </div>
 
@@ -359,63 +1039,198 @@ ${lawTermsString}`;
           <div className="bg-slate-800 p-6 rounded-xl shadow-2xl space-y-4 ring-1 ring-slate-700 flex flex-col">
             <h2 className="text-2xl font-semibold text-emerald-400 flex items-center">
               <LanguageIcon className="w-7 h-7 mr-2" />
-              Translated Output ({targetLanguage.name})
+              Translated Output
+              {isLoading && translations.length > 1 && (
+                <span className="ml-3 text-sm font-normal text-slate-400">{finishedCount} / {translations.length}</span>
+              )}
             </h2>
-            {isLoading && !translatedText && (
-              <div className="flex-grow flex justify-center items-center h-[45rem]">
-                <Spinner />
-              </div>
+            {inputText.trim() && (
+              <HazardChecklistCard
+                checklist={hazardChecklist}
+                languageCode={activeTranslation?.language.code ?? null}
+                sourceMarkdown={inputText}
+                targetLanguages={targetLanguages}
+                isPreparing={isPreparingHazards}
+                disabled={showOverallSpinner || isLoading}
+                onExtract={handleExtractHazards}
+                onTranslate={handleTranslateHazards}
+              />
             )}
-            {!isLoading && !translatedText && !error && (
-              <div className="flex-grow flex justify-center items-center h-[45rem] text-slate-400 italic">
-                Translated text (Markdown rendered) will appear here.
-              </div>
+            <TranslationOutput
+              translations={translations}
+              activeTranslationKey={activeTranslationKey}
+              onSelectTranslation={setActiveTranslationKey}
+              sourceText={inputText}
+              isTtsSupported={isTtsSupported}
+              isSpeaking={isSpeaking}
+              isSynthesizing={isSynthesizing}
+              isPaused={isSpeechPaused}
+              speakingTranslationKey={speakingTranslationKey}
+              highlightedBlockIndex={currentSpeechSegment ? currentSpeechSegment.blockIndex : null}
+              audioExportControls={activeTranslation && (
+                <AudioExportPanel
+                  languageName={activeTranslation.language.name}
+                  isAvailable={isAudioExportAvailable}
+                  isExporting={exportingTranslationKey === translationKey(activeTranslation)}
+                  progress={audioExportProgress}
+                  disabled={showOverallSpinner || isLoading}
+                  onExport={(format, includeOriginal) => handleExportAudio(activeTranslation, format, includeOriginal)}
+                />
+              )}
+              playbackControls={
+                <SpeechPlaybackControls
+                  isPaused={isSpeechPaused}
+                  isSynthesizing={isSynthesizing}
+                  currentIndex={currentSpeechSegmentIndex}
+                  segmentCount={speechSegmentCount}
+                  rate={speechRate}
+                  pitch={speechPitch}
+                  onPause={pauseSpeech}
+                  onResume={resumeSpeech}
+                  onPrevious={previousSpeechSegment}
+                  onNext={nextSpeechSegment}
+                  onRepeat={repeatSpeechSegment}
+                  onStop={() => {
+                    cancel();
+                    setSpeakingTranslationKey(null);
+                  }}
+                  onRateChange={setSpeechRate}
+                  onPitchChange={setSpeechPitch}
+                />
+              }
+              onSpeakOrStop={handleSpeakOrStop}
+              disableTts={showOverallSpinner}
+              terminologyReport={activeTranslationKey ? terminologyReports[activeTranslationKey] || null : null}
+              onFixTerminology={handleFixTerminology}
+              isFixingTerminology={fixingTranslationKey !== null && fixingTranslationKey === activeTranslationKey}
+              structureReport={activeTranslationKey ? structureReports[activeTranslationKey] || null : null}
+              onRepairStructure={handleRepairStructure}
+              isRepairingStructure={repairingTranslationKey !== null && repairingTranslationKey === activeTranslationKey}
+              sectionPictograms={activeSectionPictograms}
+              onVerifyBackTranslation={handleVerifyBackTranslation}
+              isVerifyingBackTranslation={verifyingTranslationKey !== null && verifyingTranslationKey === activeTranslationKey}
+              isBusy={showOverallSpinner || isLoading}
+            />
+            {activeTranslation?.status === 'done' && (
+              <HandoutExportPanel
+                languageName={activeTranslation.language.name}
+                disabled={!activeTranslation.text.trim()}
+                onDownloadHtml={(details) => handleDownloadHandout(activeTranslation, details)}
+                onPrint={(details) => handlePrintHandout(activeTranslation, details)}
+              />
             )}
-            {translatedText && !isLoading && (
-              <div 
-                className="flex-grow w-full h-[45rem] p-3 bg-slate-700/50 border border-slate-600 rounded-md text-slate-200 overflow-y-auto rendered-markdown"
-                aria-live="polite"
-                aria-label="Translated TBM Material (Rendered Markdown)"
-                dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(translatedText) as string) }}
-              >
-              </div>
+            {activeTranslation?.status === 'done' && translationStyleOf(activeTranslation) === 'standard' && (
+              <TranslationMemoryReview
+                translation={activeTranslation}
+                entries={memoryEntries}
+                disabled={isLoading}
+                onApprove={(sourceText, text) => approveSegment(sourceText, text, activeTranslation.language.code)}
+                onRevoke={(sourceText) => revokeSegment(sourceText, activeTranslation.language.code)}
+                onClearUnapproved={clearUnapprovedMemory}
+              />
             )}
-             {!isLoading && error && !translatedText && (
-              <div className="flex-grow flex justify-center items-center h-[45rem] text-red-400 p-3 bg-slate-700/50 border border-red-500 rounded-md">
-                Translation failed. Please check error messages above.
-              </div>
+            {translations.some(t => t.status === 'done') && (
+              <SharePanel translations={translations} disabled={showOverallSpinner || isLoading} />
             )}
-            <button
-              onClick={handleSpeakOrStop}
-              disabled={!isTtsSupported || isLoading || showOverallSpinner || !translatedText.trim()}
-              className={`w-full text-white font-semibold py-3 px-6 rounded-lg shadow-md transition-colors duration-150 flex items-center justify-center disabled:cursor-not-allowed disabled:text-slate-400 ${
-                (isSpeaking || isSynthesizing)
-                  ? 'bg-red-600 hover:bg-red-500 disabled:bg-red-800' 
-                  : 'bg-emerald-600 hover:bg-emerald-500 disabled:bg-emerald-800'
-              }`}
-              aria-label={isSpeaking ? "멈추기" : (isSynthesizing ? "Synthesizing audio" : "번역 듣기")}
-            >
-              {isTtsSupported ? ttsButtonIcon : <StopIcon className="w-5 h-5 mr-2 text-slate-500" />}
-              {ttsButtonText}
-            </button>
           </div>
         </div>
 
+        {activeTranslation && activeBackTranslationReport && (
+          <BackTranslationReportView
+            report={activeBackTranslationReport}
+            languageName={activeTranslation.language.name}
+            onClose={() => handleCloseBackTranslation(translationKey(activeTranslation))}
+          />
+        )}
+
+        {inputText.trim() && (
+          <AttendancePanel
+            entries={attendance}
+            sourceMarkdown={inputText}
+            translations={translations}
+            defaultLanguageCode={activeTranslation?.language.code ?? null}
+            defaultStyle={activeTranslation ? translationStyleOf(activeTranslation) : 'standard'}
+            briefingTitle={briefingTitle(inputText)}
+            disabled={showOverallSpinner || isLoading}
+            onSign={handleSignAttendance}
+            onRemove={(id) => setAttendance(prev => prev.filter(entry => entry.id !== id))}
+            onExportCsv={handleExportAttendanceCsv}
+            onPrint={handlePrintAttendance}
+          />
+        )}
+
+        {inputText.trim() && (
+          <QuizPanel
+            quiz={quiz}
+            attempts={quizAttempts}
+            sourceMarkdown={inputText}
+            targetLanguages={targetLanguages}
+            isPreparing={isPreparingQuiz}
+            disabled={showOverallSpinner || isLoading}
+            onGenerate={handleGenerateQuiz}
+            onTranslate={handleTranslateQuiz}
+            onStart={handleStartQuizMode}
+            onRemoveAttempt={(id) => setQuizAttempts(prev => prev.filter(attempt => attempt.id !== id))}
+          />
+        )}
+
+        <GlossaryEditor
+          terms={glossaryTerms}
+          matchedTermIds={matchedGlossaryIds}
+          onAddTerm={addGlossaryTerm}
+          onUpdateTerm={updateGlossaryTerm}
+          onRemoveTerm={removeGlossaryTerm}
+          onImportTerms={importGlossaryTerms}
+          onResetToDefault={resetGlossary}
+        />
+
+        <AiProviderSettingsPanel
+          settings={aiProviderSettings}
+          providerLabel={aiProviderLabel}
+          disabled={showOverallSpinner || isLoading}
+          onApply={updateAiProviderSettings}
+        />
+
         <div className="bg-slate-800 p-6 rounded-xl shadow-lg ring-1 ring-slate-700">
           <h3 className="text-xl font-semibold text-amber-400 mb-3 flex items-center">
             <InformationCircleIcon className="w-6 h-6 mr-2" />
             참고 / Note
           </h3>
           <p className="text-slate-300 text-sm mb-3">
-            이 애플리케이션은 업로드된 PDF 또는 이미지 파일(JPG, PNG, WEBP)을 처리합니다. 먼저 스캔된 문서나 이미지의 경우 OCR을 사용하여 원시 텍스트를 추출한 다음, AI 모델을 사용하여 해당 텍스트를 입력 필드용 마크다운 형식으로 변환합니다. 
+            이 애플리케이션은 업로드된 PDF 또는 이미지 파일(JPG, PNG, WEBP)을 처리합니다. PDF에 텍스트 레이어가 포함된 페이지는 해당 텍스트의 위치 정보로 제목, 목록, 표 구조를 재구성하여 바로 사용하고, 스캔된 페이지나 텍스트가 부족한 페이지와 이미지의 경우에만 OCR을 사용하여 원시 텍스트를 추출한 다음, AI 모델을 사용하여 해당 텍스트를 입력 필드용 마크다운 형식으로 변환합니다. 
+            추출된 마크다운은 번역 전에 편집기에서 직접 수정할 수 있으며(실행 취소/다시 실행, OCR 결과로 되돌리기 지원), 번역에는 편집된 내용이 사용됩니다.
+            여러 대상 언어를 선택하면 한 번에 병렬로 번역되며, 각 언어의 결과는 별도의 탭에 표시되고 탭마다 음성으로 들을 수 있습니다.
+            번역 문체는 표준, 쉬운 문장(한 줄에 짧은 지시 하나, 관용구 없음), 핵심 요약(반드시 할 일과 하지 말 일 5가지) 중에서 고를 수 있으며, 같은 원문을 여러 문체로 번역하면 언어별 탭이 나란히 표시되고 기록에도 문체가 함께 저장됩니다. 번역 메모리와 구조 검사는 표준 번역에만 적용됩니다.
+            긴 문서는 제목 단위의 구간으로 나누어 번역되며, 각 구간의 번역이 도착하는 대로 원래 순서대로 출력 창에 표시됩니다. 실패한 구간만 따로 다시 시도합니다.
             번역 프로세스는 또한 이 마크다운 구조를 출력물에 보존하는 것을 목표로 합니다. 
-            음성 변환은 브라우저에 내장된 Web Speech API (SpeechSynthesis)를 사용합니다. 사용 가능한 음성 및 품질은 브라우저 및 운영 체제에 따라 다를 수 있습니다.
+            음성 변환은 브라우저에 내장된 Web Speech API (SpeechSynthesis)를 사용합니다. 사용 가능한 음성 및 품질은 브라우저 및 운영 체제에 따라 다를 수 있으며, 브라우저에 해당 언어 음성이 없으면 설정된 경우 Google Cloud Text-to-Speech를 사용합니다.
+            문서, OCR 결과, 언어별 번역은 이 브라우저의 IndexedDB에 브리핑 단위로 자동 저장되어 새로고침 후에도 마지막 브리핑이 다시 열립니다. '브리핑 기록'에서 지난 브리핑을 검색해 열거나, 복제하여 오늘 브리핑의 시작점으로 쓸 수 있으며, 보관 기간이 지난 브리핑은 앱을 열 때 삭제됩니다.
+            이중 언어 인쇄물은 한국어 원문과 번역을 구간별로 나란히 배치하고 현장명, 일자, 언어를 머리글에 넣어 HTML 파일로 저장하거나 브라우저 인쇄(PDF 저장)로 출력합니다.
+            한국어 원문 구간에 안전모, 안전화, 안전벨트, 비계, 밀폐 공간, 소화기 같은 용어집 용어가 있으면 해당 번역 구간 옆과 인쇄물에 표준 안전 표지(착용 의무, 위험 경고, 소방, 응급·대피)를 함께 표시합니다.
+            '위험요인 체크리스트'는 작업계획서나 위험성 평가표에서 작업, 위험요인, 위험도(상/중/하), 대책, 필요한 보호구를 구조화된 데이터로 추출해 번역 위에 카드로 보여줍니다. 각 항목은 따로 번역되므로 원본 문서의 표 모양과 관계없이 모든 언어에서 같은 형식의 체크리스트가 됩니다.
+            '이해도 퀴즈'는 한국어 원문으로 3~5개의 객관식 문항을 만들어 선택한 언어로 번역합니다. 퀴즈 모드에서는 작업자가 태블릿을 돌려가며 자신의 언어로 문항을 듣고 답하며, 점수는 브리핑에 기록되고 정답은 관리자에게만 한국어로 표시됩니다.
+            '출석 및 서명'에서는 작업자마다 이름, 직종, 언어와 태블릿에 손가락으로 그린 서명을 받습니다. 서명 시각과 함께 그 언어로 들려준 번역문 자체와 SHA-256 해시가 브리핑에 저장되므로, 나중에 번역이 바뀌어도 누가 어떤 버전에 서명했는지 확인할 수 있습니다. 출석부는 CSV나 인쇄용 페이지(서명한 번역문 포함)로 내보낼 수 있습니다.
+            'QR 코드 만들기'는 완료된 모든 언어의 번역을 압축해 링크의 # 뒤에 담습니다. 근로자가 휴대폰으로 QR 코드를 스캔하면 서버나 로그인 없이 자신의 언어를 골라 읽고 들을 수 있습니다. 휴대폰이 태블릿의 앱 주소에 접속할 수 있어야 합니다.
+            '오디오 다운로드'는 Google Cloud Text-to-Speech가 설정된 경우 언어별로 구간 사이에 짧은 쉼이 들어간 MP3/WAV 파일을 만들며, 한국어 원문을 구간마다 함께 넣을 수 있습니다. 같은 문장은 다시 합성하지 않고 저장된 결과를 사용합니다.
+            번역은 문장, 목록 항목, 표 행 단위로 읽히며 현재 읽는 부분이 출력 창에 강조 표시됩니다. 일시정지/계속, 이전/다음 문장, 현재 문장 반복, 속도와 음높이 조절을 사용할 수 있습니다.
+            OCR, 마크다운 변환, 번역에 쓰이는 AI는 'AI 제공자'에서 AI 프록시 서버를 통한 Google Gemini(API 키는 서버에만 보관), 자체 호스팅 OpenAI 호환 서버, 네트워크 없이 동작하는 오프라인 모의(mock) 모드 중에서 고를 수 있습니다.
             원시 텍스트(특히 OCR로 처리된 콘텐츠)로부터의 구조에 대한 AI의 해석 및 후속 마크다운 변환/번역은 경험적이며 달라질 수 있습니다. 
-            법률 및 안전 용어(예: <code>KOREAN_CONSTRUCTION_TERMS</code>)는 번역 정확도를 향상시키기 위해 AI에 제공됩니다.
+            번역된 구간은 언어별 번역 메모리에 저장되어, 같은 한국어 구간(공백, 목록 기호, 강조 차이 무시)은 다음 번역에서 AI 호출 없이 그대로 재사용되고, 비슷한 구간은 AI에 참고 번역으로 제공됩니다. 관리자가 '번역 메모리 검토'에서 승인한 구간 번역은 새 번역으로 덮어쓰이지 않고 항상 우선 사용됩니다.
+            현장 용어집의 법률 및 안전 용어 중 원문에 등장하는 항목만 언어별 대상 용어와 함께 AI에 제공되며, '번역 안 함' 항목(장비 브랜드, 현장명 등)은 그대로 유지하도록 지시됩니다.
+            번역 결과는 원문과 마크다운 구조(제목 수준, 목록 항목 수, 표 크기, 숫자)를 비교하여 다른 구간을 자동으로 한 번 다시 번역하며, 그 후에도 다른 경우 경고를 표시합니다.
+            선택적으로 '역번역으로 검증'을 사용하면 번역 결과를 다시 한국어로 번역하여 원문과 구간별로 나란히 비교하고, 숫자, 단위, 부정/금지 표현, 보호구 항목이 달라진 구간을 표시합니다. 이 비교는 경험적이므로 최종 확인은 사람이 해야 합니다.
           </p>
         </div>
       </main>
       <Footer />
+      {isQuizModeOpen && quiz && (
+        <QuizMode
+          quiz={quiz}
+          workerNames={[...new Set(attendance.map(entry => entry.workerName))]}
+          onComplete={(attempt) => setQuizAttempts(prev => [...prev, attempt])}
+          onClose={() => setIsQuizModeOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { AiProviderSettings, AI_PROVIDER_OPTIONS } from '../services/aiService';
+import { AiProviderId } from '../services/aiProvider';
+import { ChevronDownIcon, GlobeAltIcon } from './Icons';
+
+interface AiProviderSettingsPanelProps {
+  settings: AiProviderSettings;
+  providerLabel: string;
+  disabled: boolean; // A job is running on the current provider
+  onApply: (settings: AiProviderSettings) => void;
+}
+
+const inputClass = "w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-md px-2 py-1.5 focus:ring-sky-500 focus:border-sky-500";
+
+export const AiProviderSettingsPanel: React.FC<AiProviderSettingsPanelProps> = ({ settings, providerLabel, disabled, onApply }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [draft, setDraft] = useState<AiProviderSettings>(settings);
+
+  const isChanged = JSON.stringify(draft) !== JSON.stringify(settings);
+  const isIncomplete = draft.providerId === 'openai-compatible' && (!draft.openAiBaseUrl.trim() || !draft.openAiModel.trim());
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl shadow-lg ring-1 ring-slate-700">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <h3 className="text-xl font-semibold text-sky-400 flex items-center">
+          <GlobeAltIcon className="w-6 h-6 mr-2" />
+          AI 제공자 / AI Provider
+          <span className="ml-3 text-sm font-normal text-slate-400">{providerLabel}</span>
+        </h3>
+        <ChevronDownIcon className={`w-5 h-5 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-3 text-sm text-slate-300">
+          <label className="block space-y-1">
+            <span>OCR, 마크다운 변환, 번역에 사용할 모델</span>
+            <select
+              value={draft.providerId}
+              onChange={(event) => setDraft({ ...draft, providerId: event.target.value as AiProviderId })}
+              className={inputClass}
+            >
+              {AI_PROVIDER_OPTIONS.map(option => (
+                <option key={option.id} value={option.id}>{option.name}</option>
+              ))}
+            </select>
+          </label>
+
+          {draft.providerId === 'openai-compatible' && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <label className="block space-y-1">
+                <span>Base URL</span>
+                <input
+                  type="url"
+                  value={draft.openAiBaseUrl}
+                  onChange={(event) => setDraft({ ...draft, openAiBaseUrl: event.target.value })}
+                  placeholder="http://gpu-server:8000/v1"
+                  className={inputClass}
+                />
+              </label>
+              <label className="block space-y-1">
+                <span>Model</span>
+                <input
+                  value={draft.openAiModel}
+                  onChange={(event) => setDraft({ ...draft, openAiModel: event.target.value })}
+                  placeholder="qwen2.5-vl-7b-instruct"
+                  className={inputClass}
+                />
+              </label>
+              <p className="sm:col-span-2 text-xs text-slate-400">
+                Chat Completions API(/chat/completions)를 제공하는 서버여야 하며, 이미지 OCR에는 비전 모델이 필요합니다. 설정은 이 브라우저에 저장됩니다. API 키가 필요한 서버는 여기 대신 AI 프록시 서버에 설정하세요(AI_PROXY_PROVIDER=openai-compatible, OPENAI_COMPAT_API_KEY).
+              </p>
+            </div>
+          )}
+          {draft.providerId === 'mock' && (
+            <p className="text-xs text-amber-300">
+              네트워크 없이 미리 준비된 응답을 돌려주는 개발/시연용 모드입니다. 준비된 예시가 없는 문장은 실제로 번역되지 않고 언어 표시만 붙습니다.
+            </p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setDraft(settings)}
+              disabled={!isChanged}
+              className="bg-slate-700 hover:bg-slate-600 disabled:text-slate-500 disabled:cursor-not-allowed text-slate-200 py-1.5 px-3 rounded-md transition-colors duration-150"
+            >
+              되돌리기
+            </button>
+            <button
+              onClick={() => onApply(draft)}
+              disabled={disabled || !isChanged || isIncomplete}
+              className="bg-sky-600 hover:bg-sky-700 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-150"
+            >
+              적용
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { AttendanceEntry, LanguageTranslation, TranslationStyle } from '../types';
+import { supportedLanguages, ATTENDANCE_TRADE_SUGGESTIONS, TRANSLATION_STYLES } from '../constants';
+import {
+  AttendanceSheetDetails,
+  AttendanceSignOff,
+  briefedStylesFor,
+  briefedTextFor,
+  currentTextFor,
+  formatSignedAt,
+  isSignedForCurrentText,
+  shortHash,
+  signedLanguageLabel,
+} from '../services/attendanceService';
+import { loadSiteName, saveSiteName, todayIsoDate } from '../services/handoutService';
+import { SignaturePad } from './SignaturePad';
+import { ArrowDownTrayIcon, ChevronDownIcon, DocumentTextIcon, ExclamationTriangleIcon, ShieldCheckIcon, TrashIcon } from './Icons';
+
+interface AttendancePanelProps {
+  entries: AttendanceEntry[];
+  sourceMarkdown: string;
+  translations: LanguageTranslation[];
+  defaultLanguageCode: string | null; // The output tab being shown
+  defaultStyle: TranslationStyle; // ...and its style
+  briefingTitle: string;
+  disabled: boolean; // A job is running
+  onSign: (signOff: AttendanceSignOff) => Promise<void>; // Rejects with a message to show
+  onRemove: (id: string) => void;
+  onExportCsv: (details: AttendanceSheetDetails) => void;
+  onPrint: (details: AttendanceSheetDetails) => void;
+}
+
+const inputClass = "w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-md px-2 py-1.5 placeholder-slate-500 focus:ring-sky-500 focus:border-sky-500";
+const actionButtonClass = "flex-1 flex items-center justify-center bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-150";
+
+export const AttendancePanel: React.FC<AttendancePanelProps> = ({
+  entries,
+  sourceMarkdown,
+  translations,
+  defaultLanguageCode,
+  defaultStyle,
+  briefingTitle,
+  disabled,
+  onSign,
+  onRemove,
+  onExportCsv,
+  onPrint,
+}) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [workerName, setWorkerName] = useState<string>('');
+  const [trade, setTrade] = useState<string>('');
+  const [languageCode, setLanguageCode] = useState<string>(defaultLanguageCode || supportedLanguages[0].code);
+  const [preferredStyle, setPreferredStyle] = useState<TranslationStyle>(defaultStyle);
+  const [signature, setSignature] = useState<string | null>(null);
+  const [hasConfirmed, setHasConfirmed] = useState<boolean>(false);
+  const [signError, setSignError] = useState<string | null>(null);
+  const [isSigning, setIsSigning] = useState<boolean>(false);
+  const [padKey, setPadKey] = useState<number>(0); // Bumped to give the next worker a blank pad
+  const [siteName, setSiteName] = useState<string>(loadSiteName);
+  const [date, setDate] = useState<string>(todayIsoDate);
+
+  // The chosen style when the language has it, otherwise the first one it has.
+  const styles = briefedStylesFor(languageCode, sourceMarkdown, translations);
+  const style = styles.includes(preferredStyle) ? preferredStyle : styles[0] || 'standard';
+  const briefedText = briefedTextFor(languageCode, style, sourceMarkdown, translations);
+  const canSign = !disabled && !isSigning && workerName.trim() !== '' && signature !== null && hasConfirmed && briefedText !== null;
+  const outdatedCount = entries.filter(entry =>
+    !isSignedForCurrentText(entry, currentTextFor(entry, sourceMarkdown, translations))
+  ).length;
+
+  const details = (): AttendanceSheetDetails => {
+    saveSiteName(siteName.trim());
+    return { siteName: siteName.trim(), date, briefingTitle };
+  };
+
+  const handleSign = async () => {
+    if (!canSign || !signature) return;
+    setIsSigning(true);
+    setSignError(null);
+    try {
+      await onSign({ workerName, trade, languageCode, style, signature });
+      // Ready for the next worker; trade and language are often shared by a crew.
+      setWorkerName('');
+      setSignature(null);
+      setHasConfirmed(false);
+      setPadKey(key => key + 1);
+    } catch (err) {
+      setSignError(err instanceof Error ? err.message : '서명을 저장하지 못했습니다.');
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl shadow-lg ring-1 ring-slate-700">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <h3 className="text-xl font-semibold text-sky-400 flex items-center">
+          <ShieldCheckIcon className="w-6 h-6 mr-2" />
+          출석 및 서명 / Attendance
+          <span className="ml-3 text-sm font-normal text-slate-400">{entries.length}명 서명</span>
+        </h3>
+        <ChevronDownIcon className={`w-5 h-5 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm text-slate-300">
+          <div className="space-y-3">
+            <p className="text-xs text-slate-400">
+              작업자가 교육 내용을 자신의 언어로 듣고 이해했는지 확인한 뒤 직접 서명하게 하세요. 서명에는 그 언어와 형식으로 보여준 번역문이 그대로 함께 저장됩니다.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+              <input
+                value={workerName}
+                onChange={e => setWorkerName(e.target.value)}
+                placeholder="이름 (Name)"
+                className={inputClass}
+                aria-label="Worker name"
+              />
+              <input
+                value={trade}
+                onChange={e => setTrade(e.target.value)}
+                placeholder="직종 (Trade)"
+                list="attendance-trade-suggestions"
+                className={inputClass}
+                aria-label="Trade"
+              />
+              <datalist id="attendance-trade-suggestions">
+                {ATTENDANCE_TRADE_SUGGESTIONS.map(suggestion => <option key={suggestion} value={suggestion} />)}
+              </datalist>
+              <select
+                value={languageCode}
+                onChange={e => setLanguageCode(e.target.value)}
+                className={inputClass}
+                aria-label="Worker language"
+              >
+                {supportedLanguages.map(language => (
+                  <option key={language.code} value={language.code}>
+                    {language.name}{briefedStylesFor(language.code, sourceMarkdown, translations).length === 0 ? ' (번역 없음)' : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {styles.length > 1 && (
+              <select
+                value={style}
+                onChange={e => setPreferredStyle(e.target.value as TranslationStyle)}
+                className={inputClass}
+                aria-label="Briefed translation style"
+              >
+                {TRANSLATION_STYLES.filter(option => styles.includes(option.id)).map(option => (
+                  <option key={option.id} value={option.id}>작업자에게 보여준 번역: {option.label}</option>
+                ))}
+              </select>
+            )}
+            {briefedText === null && (
+              <p className="flex items-center text-xs text-amber-300">
+                <ExclamationTriangleIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+                이 언어로 완료된 번역이 없습니다. 먼저 번역하고 작업자에게 들려준 뒤 서명을 받으세요.
+              </p>
+            )}
+            <SignaturePad key={padKey} onChange={setSignature} disabled={disabled || isSigning} />
+            <label className="flex items-start gap-2 text-xs">
+              <input
+                type="checkbox"
+                checked={hasConfirmed}
+                onChange={e => setHasConfirmed(e.target.checked)}
+                className="mt-0.5"
+              />
+              <span>교육 내용을 듣고 이해했습니다. / I heard and understood this briefing.</span>
+            </label>
+            {signError && <p className="text-xs text-red-400">{signError}</p>}
+            <button
+              onClick={handleSign}
+              disabled={!canSign}
+              className="w-full bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-3 rounded-md transition-colors duration-150"
+            >
+              서명 등록
+            </button>
+          </div>
+
+          <div className="space-y-3">
+            {entries.length === 0 ? (
+              <p className="text-xs text-slate-500">아직 서명한 작업자가 없습니다.</p>
+            ) : (
+              <ul className="divide-y divide-slate-700 max-h-96 overflow-y-auto" aria-label="Signed workers">
+                {entries.map((entry, index) => {
+                  const isCurrent = isSignedForCurrentText(entry, currentTextFor(entry, sourceMarkdown, translations));
+                  return (
+                    <li key={entry.id} className="py-2 flex items-center gap-3">
+                      <span className="text-xs text-slate-500 w-5 text-right">{index + 1}</span>
+                      <img src={entry.signature} alt={`${entry.workerName} 서명`} className="h-10 w-24 object-contain bg-white rounded" />
+                      <div className="flex-grow min-w-0 text-xs">
+                        <p className="text-sm text-slate-200 truncate">
+                          {entry.workerName}{entry.trade && <span className="text-slate-400"> · {entry.trade}</span>}
+                        </p>
+                        <p className="text-slate-400">
+                          {signedLanguageLabel(entry)}
+                          {' · '}{formatSignedAt(entry.signedAt)}
+                          {' · '}<code title={`SHA-256 ${entry.briefedTextHash}`}>{shortHash(entry.briefedTextHash)}</code>
+                        </p>
+                        {!isCurrent && (
+                          <p className="text-amber-300">이후 내용이 바뀌었습니다. 이 서명은 이전 버전에 대한 것입니다.</p>
+                        )}
+                      </div>
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`${entry.workerName}님의 서명을 삭제할까요?`)) onRemove(entry.id);
+                        }}
+                        className="p-1 text-slate-400 hover:text-red-400"
+                        aria-label={`Remove ${entry.workerName}'s signature`}
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+            {outdatedCount > 0 && (
+              <p className="flex items-center text-xs text-amber-300">
+                <ExclamationTriangleIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+                {outdatedCount}명은 현재와 다른 버전의 내용에 서명했습니다. 필요하면 바뀐 내용을 다시 교육하고 서명을 받으세요.
+              </p>
+            )}
+
+            <div className="p-3 bg-slate-700/50 border border-slate-600 rounded-md space-y-2 text-xs">
+              <p className="font-semibold text-slate-200">출석부 내보내기</p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={siteName}
+                  onChange={e => setSiteName(e.target.value)}
+                  placeholder="현장명 (Site name)"
+                  className="flex-grow bg-slate-700 border border-slate-600 rounded px-2 py-1.5 text-slate-200 placeholder-slate-500"
+                  aria-label="Site name"
+                />
+                <input
+                  type="date"
+                  value={date}
+                  onChange={e => setDate(e.target.value)}
+                  className="bg-slate-700 border border-slate-600 rounded px-2 py-1.5 text-slate-200"
+                  aria-label="Briefing date"
+                />
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => onExportCsv(details())} disabled={entries.length === 0} className={actionButtonClass}>
+                  <ArrowDownTrayIcon className="w-4 h-4 mr-2" />
+                  CSV 다운로드
+                </button>
+                <button onClick={() => onPrint(details())} disabled={entries.length === 0} className={actionButtonClass}>
+                  <DocumentTextIcon className="w-4 h-4 mr-2" />
+                  인쇄 / PDF 저장
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
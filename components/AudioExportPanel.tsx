@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { AudioExportFormat } from '../services/audioExportService';
+import { PageProgress } from '../types';
+import { Spinner } from './Spinner';
+import { ArrowDownTrayIcon } from './Icons';
+
+interface AudioExportPanelProps {
+  languageName: string;
+  isAvailable: boolean; // Cloud TTS is configured; browser speech cannot be recorded
+  isExporting: boolean;
+  progress: PageProgress | null;
+  disabled: boolean;
+  onExport: (format: AudioExportFormat, includeOriginal: boolean) => void;
+}
+
+export const AudioExportPanel: React.FC<AudioExportPanelProps> = ({
+  languageName,
+  isAvailable,
+  isExporting,
+  progress,
+  disabled,
+  onExport,
+}) => {
+  const [format, setFormat] = useState<AudioExportFormat>('mp3');
+  const [includeOriginal, setIncludeOriginal] = useState<boolean>(false);
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-xs text-slate-300">
+      <div className="flex items-center gap-3">
+        <label className="flex items-center gap-1">
+          <span>형식</span>
+          <select
+            value={format}
+            onChange={e => setFormat(e.target.value as AudioExportFormat)}
+            disabled={!isAvailable || isExporting}
+            className="bg-slate-700 border border-slate-600 rounded px-1.5 py-1 text-slate-200"
+            aria-label="Audio format"
+          >
+            <option value="mp3">MP3</option>
+            <option value="wav">WAV</option>
+          </select>
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={includeOriginal}
+            onChange={e => setIncludeOriginal(e.target.checked)}
+            disabled={!isAvailable || isExporting}
+            className="accent-emerald-500"
+          />
+          <span>한국어 원문 포함</span>
+        </label>
+      </div>
+      <button
+        onClick={() => onExport(format, includeOriginal)}
+        disabled={!isAvailable || disabled || isExporting}
+        title={isAvailable ? undefined : '오디오 파일 만들기에는 Google Cloud Text-to-Speech 설정(GCP_TTS_API_KEY)이 필요합니다.'}
+        className="sm:ml-auto flex items-center justify-center bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-150"
+      >
+        {isExporting
+          ? <span className="mr-2"><Spinner size="sm" color="text-white" /></span>
+          : <ArrowDownTrayIcon className="w-4 h-4 mr-2" />}
+        {isExporting && progress
+          ? `오디오 생성 중... ${progress.completed} / ${progress.total}`
+          : `오디오 다운로드 (${languageName})`}
+      </button>
+    </div>
+  );
+};
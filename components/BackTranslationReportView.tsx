@@ -0,0 +1,96 @@
+import React from 'react';
+import { BackTranslationReport, DriftIssue, DriftKind } from '../services/backTranslationService';
+import { ExclamationTriangleIcon, ShieldCheckIcon, XCircleIcon } from './Icons';
+
+interface BackTranslationReportViewProps {
+  report: BackTranslationReport;
+  languageName: string;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<DriftKind, string> = {
+  number: '숫자',
+  unit: '단위',
+  negation: '부정/금지',
+  ppe: '보호구',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Numbers must not match inside longer numbers ("2" in "12" or "2.5").
+const tokenPattern = (token: string) => /^\d/.test(token) ? `(?<![\\d.])${escapeRegExp(token)}(?![\\d.])` : escapeRegExp(token);
+
+/** Plain text with every flagged token wrapped in a <mark>. */
+const HighlightedText: React.FC<{ text: string; tokens: string[] }> = ({ text, tokens }) => {
+  if (tokens.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${tokens.map(tokenPattern).join('|')})`, 'g');
+  return (
+    <>
+      {text.split(pattern).map((part, index) =>
+        // split() with one capture group puts the matches at odd indexes
+        index % 2 === 1
+          ? <mark key={index} className="bg-amber-500/40 text-amber-100 rounded px-0.5">{part}</mark>
+          : <React.Fragment key={index}>{part}</React.Fragment>
+      )}
+    </>
+  );
+};
+
+const issueTokens = (issues: DriftIssue[]) => [...new Set(issues.flatMap(issue => issue.tokens))].filter(Boolean);
+
+export const BackTranslationReportView: React.FC<BackTranslationReportViewProps> = ({ report, languageName, onClose }) => {
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl shadow-2xl ring-1 ring-slate-700 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h3 className="text-xl font-semibold text-sky-400">역번역 검증 ({languageName} → 한국어)</h3>
+          <p className={`mt-1 flex items-center text-sm ${report.flaggedCount > 0 ? 'text-amber-200' : 'text-emerald-300'}`}>
+            {report.flaggedCount > 0
+              ? <ExclamationTriangleIcon className="w-4 h-4 mr-2 flex-shrink-0" />
+              : <ShieldCheckIcon className="w-4 h-4 mr-2 flex-shrink-0" />}
+            {report.flaggedCount > 0
+              ? `${report.sections.length}개 구간 중 ${report.flaggedCount}개 구간에서 의미 변화 가능성이 있습니다. 표시된 구간을 확인하세요.`
+              : `${report.sections.length}개 구간 모두 숫자, 단위, 부정 표현, 보호구가 원문과 일치합니다.`}
+          </p>
+          {!report.aligned && (
+            <p className="mt-1 text-xs text-slate-400">원문과 번역의 구간 구조가 달라 문서 전체를 하나의 구간으로 비교했습니다.</p>
+          )}
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-200" aria-label="Close back-translation report">
+          <XCircleIcon className="w-6 h-6" />
+        </button>
+      </div>
+
+      <div className="hidden md:grid grid-cols-2 gap-4 text-xs font-semibold text-slate-400 uppercase tracking-wide">
+        <span>원문 (Original)</span>
+        <span>역번역 (Back-translation)</span>
+      </div>
+      <div className="space-y-3 max-h-[45rem] overflow-y-auto">
+        {report.sections.map(section => {
+          const tokens = issueTokens(section.issues);
+          const isFlagged = section.issues.length > 0;
+          return (
+            <div
+              key={section.index}
+              className={`rounded-md p-3 ${isFlagged ? 'ring-2 ring-amber-500 bg-amber-900/20' : 'bg-slate-700/40'}`}
+            >
+              {isFlagged && (
+                <ul className="mb-2 flex flex-wrap gap-1.5 text-xs">
+                  {section.issues.map((issue, index) => (
+                    <li key={index} className="bg-amber-700/60 text-amber-100 rounded px-2 py-0.5">
+                      <strong>{KIND_LABELS[issue.kind]}</strong> · {issue.detail}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm text-slate-200 whitespace-pre-wrap break-words">
+                <div><HighlightedText text={section.original} tokens={tokens} /></div>
+                <div className="md:border-l md:border-slate-600 md:pl-4"><HighlightedText text={section.backTranslated} tokens={tokens} /></div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
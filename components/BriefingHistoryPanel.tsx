@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { BriefingRecord } from '../types';
+import { HISTORY_RETENTION_DAY_OPTIONS } from '../constants';
+import { expiredBriefings, searchBriefings } from '../services/briefingHistoryService';
+import { translationLabel } from '../services/translationStyles';
+import { Alert } from './Alert';
+import { ChevronDownIcon, DocumentTextIcon, PlusIcon, TrashIcon } from './Icons';
+
+interface BriefingHistoryPanelProps {
+  briefings: BriefingRecord[];
+  currentBriefingId: string | null;
+  isSupported: boolean;
+  historyError: string | null;
+  retentionDays: number;
+  disabled: boolean; // A job is running; opening another briefing would cancel it
+  onOpen: (record: BriefingRecord) => void;
+  onDuplicate: (record: BriefingRecord) => void;
+  onDelete: (id: string) => void;
+  onNew: () => void;
+  onRetentionDaysChange: (days: number) => void;
+}
+
+const inputClass = "bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-md px-2 py-1 focus:ring-sky-500 focus:border-sky-500";
+const rowButtonClass = "text-xs bg-slate-700 hover:bg-slate-600 disabled:text-slate-500 disabled:cursor-not-allowed text-slate-200 py-1 px-2 rounded-md transition-colors duration-150";
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('ko-KR', { year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit' });
+
+export const BriefingHistoryPanel: React.FC<BriefingHistoryPanelProps> = ({
+  briefings,
+  currentBriefingId,
+  isSupported,
+  historyError,
+  retentionDays,
+  disabled,
+  onOpen,
+  onDuplicate,
+  onDelete,
+  onNew,
+  onRetentionDaysChange,
+}) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [query, setQuery] = useState<string>('');
+
+  const visibleBriefings = searchBriefings(briefings, query);
+
+  // A shorter period deletes the older briefings as soon as it is chosen.
+  const handleRetentionDaysChange = (days: number) => {
+    const expired = expiredBriefings(briefings, days).length;
+    if (expired > 0 && !window.confirm(`보관 기간을 ${days}일로 줄이면 저장된 브리핑 ${expired}개가 바로 삭제됩니다. 계속할까요?`)) return;
+    onRetentionDaysChange(days);
+  };
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl shadow-lg ring-1 ring-slate-700">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <h3 className="text-xl font-semibold text-sky-400 flex items-center">
+          <DocumentTextIcon className="w-6 h-6 mr-2" />
+          브리핑 기록 / Briefing History
+          <span className="ml-3 text-sm font-normal text-slate-400">{briefings.length} saved</span>
+        </h3>
+        <ChevronDownIcon className={`w-5 h-5 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          {!isSupported && (
+            <Alert message="이 브라우저는 IndexedDB를 지원하지 않아 브리핑 기록을 저장할 수 없습니다." type="warning" />
+          )}
+          {historyError && <Alert message={historyError} type="error" />}
+
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            <input
+              type="search"
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="제목, 파일명, 날짜, 내용 검색..."
+              className={`${inputClass} sm:w-72`}
+              aria-label="Search briefings"
+            />
+            <label className="flex items-center gap-2 text-sm text-slate-400">
+              보관 기간
+              <select
+                value={retentionDays}
+                onChange={(event) => handleRetentionDaysChange(Number(event.target.value))}
+                className={inputClass}
+                aria-label="Retention period"
+              >
+                {HISTORY_RETENTION_DAY_OPTIONS.map(days => (
+                  <option key={days} value={days}>{days === 0 ? '계속 보관' : `${days}일`}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={onNew}
+              disabled={disabled}
+              className="sm:ml-auto flex items-center bg-slate-700 hover:bg-slate-600 disabled:text-slate-500 disabled:cursor-not-allowed text-slate-200 text-sm py-1.5 px-3 rounded-md transition-colors duration-150"
+            >
+              <PlusIcon className="w-4 h-4 mr-1" /> 새 브리핑
+            </button>
+          </div>
+
+          {visibleBriefings.length === 0 ? (
+            <p className="text-sm text-slate-400">
+              {briefings.length === 0 ? '저장된 브리핑이 없습니다. 파일을 업로드하거나 번역하면 자동으로 저장됩니다.' : '검색 결과가 없습니다.'}
+            </p>
+          ) : (
+            <ul className="max-h-[28rem] overflow-y-auto divide-y divide-slate-700 rounded-md ring-1 ring-slate-700">
+              {visibleBriefings.map(record => (
+                <li
+                  key={record.id}
+                  className={`p-3 flex flex-col sm:flex-row sm:items-center gap-2 ${record.id === currentBriefingId ? 'bg-sky-900/30' : ''}`}
+                >
+                  <div className="flex-grow min-w-0">
+                    <p className="text-sm font-semibold text-slate-200 truncate">{record.title}</p>
+                    <p className="text-xs text-slate-400">
+                      {formatTimestamp(record.createdAt)}
+                      {record.updatedAt !== record.createdAt && ` · 수정 ${formatTimestamp(record.updatedAt)}`}
+                      {record.sourceFile && ` · ${record.sourceFile.name}${record.sourceFile.pageCount ? ` (${record.sourceFile.pageCount}p)` : ''}`}
+                    </p>
+                    {record.translations.length > 0 && (
+                      <p className="text-xs text-slate-500 truncate">
+                        {record.translations.map(translationLabel).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-1.5 shrink-0">
+                    <button onClick={() => onOpen(record)} disabled={disabled || record.id === currentBriefingId} className={rowButtonClass}>
+                      열기
+                    </button>
+                    <button onClick={() => onDuplicate(record)} disabled={disabled} className={rowButtonClass} title="Start today's briefing from this one">
+                      복제
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`'${record.title}' 브리핑을 삭제할까요?`)) onDelete(record.id);
+                      }}
+                      className="p-1 rounded-md text-slate-400 hover:text-red-400 hover:bg-slate-700"
+                      aria-label={`Delete ${record.title}`}
+                    >
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
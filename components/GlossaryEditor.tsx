@@ -0,0 +1,219 @@
+import React, { useState, useRef } from 'react';
+import { LawTerm } from '../types';
+import { supportedLanguages } from '../constants';
+import { glossaryToCsv, glossaryFromCsv, glossaryToJson, glossaryFromJson } from '../services/glossaryService';
+import { downloadTextFile } from '../services/fileDownload';
+import { Alert } from './Alert';
+import { BookOpenIcon, ChevronDownIcon, PlusIcon, TrashIcon, ArrowDownTrayIcon, ArrowUpTrayIcon } from './Icons';
+
+interface GlossaryEditorProps {
+  terms: LawTerm[];
+  matchedTermIds: Set<string>; // Entries found in the current source text
+  onAddTerm: () => string;
+  onUpdateTerm: (id: string, changes: Partial<Omit<LawTerm, 'id'>>) => void;
+  onRemoveTerm: (id: string) => void;
+  onImportTerms: (terms: LawTerm[]) => void;
+  onResetToDefault: () => void;
+}
+
+const inputClass = "w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-md px-2 py-1 focus:ring-sky-500 focus:border-sky-500";
+const toolbarButtonClass = "flex items-center bg-slate-700 hover:bg-slate-600 text-slate-200 text-sm py-1.5 px-3 rounded-md transition-colors duration-150";
+
+export const GlossaryEditor: React.FC<GlossaryEditorProps> = ({
+  terms,
+  matchedTermIds,
+  onAddTerm,
+  onUpdateTerm,
+  onRemoveTerm,
+  onImportTerms,
+  onResetToDefault,
+}) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [query, setQuery] = useState<string>('');
+  // The editor shows one target-language column at a time; every language is kept in the data.
+  const [columnLanguageCode, setColumnLanguageCode] = useState<string>(supportedLanguages[0].code);
+  const [importMessage, setImportMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const columnLanguage = supportedLanguages.find(lang => lang.code === columnLanguageCode) || supportedLanguages[0];
+  const normalizedQuery = query.trim().toLowerCase();
+  const visibleTerms = normalizedQuery
+    ? terms.filter(term =>
+        [term.term_ko, term.term_en, term.description || '', ...Object.values(term.targets)]
+          .some(value => value.toLowerCase().includes(normalizedQuery)))
+    : terms;
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const imported = file.name.toLowerCase().endsWith('.json') ? glossaryFromJson(text) : glossaryFromCsv(text);
+      if (imported.length === 0) {
+        throw new Error("No glossary entries were found in the file.");
+      }
+      onImportTerms(imported);
+      setImportMessage({ type: 'success', text: `${imported.length} entries imported from ${file.name}.` });
+    } catch (err: any) {
+      console.error('Glossary import error:', err);
+      setImportMessage({ type: 'error', text: `Glossary import failed: ${err.message || 'Could not read the file.'}` });
+    } finally {
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  const handleTargetChange = (term: LawTerm, value: string) => {
+    const targets = { ...term.targets };
+    if (value.trim()) {
+      targets[columnLanguage.code] = value;
+    } else {
+      delete targets[columnLanguage.code];
+    }
+    onUpdateTerm(term.id, { targets });
+  };
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl shadow-lg ring-1 ring-slate-700">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <h3 className="text-xl font-semibold text-sky-400 flex items-center">
+          <BookOpenIcon className="w-6 h-6 mr-2" />
+          현장 용어집 / Site Glossary
+          <span className="ml-3 text-sm font-normal text-slate-400">
+            {terms.length} terms · {matchedTermIds.size} in current document
+          </span>
+        </h3>
+        <ChevronDownIcon className={`w-5 h-5 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          {importMessage && (
+            <Alert message={importMessage.text} type={importMessage.type} onClose={() => setImportMessage(null)} />
+          )}
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button onClick={onAddTerm} className={toolbarButtonClass}>
+              <PlusIcon className="w-4 h-4 mr-1" /> 용어 추가
+            </button>
+            <input
+              type="file"
+              accept=".csv,.json"
+              className="hidden"
+              ref={importInputRef}
+              onChange={handleImport}
+            />
+            <button onClick={() => importInputRef.current?.click()} className={toolbarButtonClass}>
+              <ArrowUpTrayIcon className="w-4 h-4 mr-1" /> 가져오기 (CSV/JSON)
+            </button>
+            <button onClick={() => downloadTextFile('tbm-glossary.csv', glossaryToCsv(terms), 'text/csv')} className={toolbarButtonClass}>
+              <ArrowDownTrayIcon className="w-4 h-4 mr-1" /> CSV
+            </button>
+            <button onClick={() => downloadTextFile('tbm-glossary.json', glossaryToJson(terms), 'application/json')} className={toolbarButtonClass}>
+              <ArrowDownTrayIcon className="w-4 h-4 mr-1" /> JSON
+            </button>
+            <button
+              onClick={() => {
+                if (window.confirm('용어집을 기본값으로 되돌릴까요? 편집한 내용은 사라집니다.')) onResetToDefault();
+              }}
+              className={`${toolbarButtonClass} ml-auto`}
+            >
+              기본값으로 초기화
+            </button>
+          </div>
+
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="search"
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="용어 검색..."
+              className={`${inputClass} sm:w-64`}
+              aria-label="Search glossary"
+            />
+            <label className="flex items-center gap-2 text-sm text-slate-400">
+              대상 언어 열
+              <select
+                value={columnLanguageCode}
+                onChange={(event) => setColumnLanguageCode(event.target.value)}
+                className={`${inputClass} w-auto`}
+              >
+                {supportedLanguages.filter(lang => lang.code !== 'ko-KR').map(lang => (
+                  <option key={lang.code} value={lang.code}>{lang.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div className="max-h-[28rem] overflow-y-auto rounded-md ring-1 ring-slate-700">
+            <table className="w-full text-sm text-slate-200">
+              <thead className="bg-slate-700 sticky top-0 z-10 text-left text-slate-300">
+                <tr>
+                  <th className="p-2 w-40">한국어</th>
+                  <th className="p-2">English</th>
+                  <th className="p-2">{columnLanguage.name}</th>
+                  <th className="p-2">설명</th>
+                  <th className="p-2 w-20 text-center" title="Keep verbatim: brand, equipment and site names">번역 안 함</th>
+                  <th className="p-2 w-10"><span className="sr-only">Delete</span></th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleTerms.map(term => (
+                  <tr
+                    key={term.id}
+                    className={`border-t border-slate-700 ${matchedTermIds.has(term.id) ? 'bg-sky-900/30' : ''}`}
+                  >
+                    <td className="p-1.5">
+                      <input value={term.term_ko} onChange={(e) => onUpdateTerm(term.id, { term_ko: e.target.value })} className={inputClass} aria-label="Korean term" />
+                    </td>
+                    <td className="p-1.5">
+                      <input value={term.term_en} onChange={(e) => onUpdateTerm(term.id, { term_en: e.target.value })} disabled={term.do_not_translate} className={`${inputClass} disabled:opacity-40`} aria-label="English term" />
+                    </td>
+                    <td className="p-1.5">
+                      <input
+                        value={term.targets[columnLanguage.code] || ''}
+                        onChange={(e) => handleTargetChange(term, e.target.value)}
+                        disabled={term.do_not_translate}
+                        placeholder={term.term_en}
+                        className={`${inputClass} disabled:opacity-40`}
+                        aria-label={`${columnLanguage.name} term`}
+                      />
+                    </td>
+                    <td className="p-1.5">
+                      <input value={term.description || ''} onChange={(e) => onUpdateTerm(term.id, { description: e.target.value || undefined })} className={inputClass} aria-label="Description" />
+                    </td>
+                    <td className="p-1.5 text-center">
+                      <input
+                        type="checkbox"
+                        checked={term.do_not_translate}
+                        onChange={(e) => onUpdateTerm(term.id, { do_not_translate: e.target.checked })}
+                        className="accent-sky-500"
+                        aria-label="Do not translate"
+                      />
+                    </td>
+                    <td className="p-1.5 text-center">
+                      <button onClick={() => onRemoveTerm(term.id)} className="p-1 rounded-md text-slate-400 hover:text-red-400 hover:bg-slate-700" aria-label={`Delete ${term.term_ko}`}>
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+                {visibleTerms.length === 0 && (
+                  <tr>
+                    <td colSpan={6} className="p-4 text-center text-slate-400 italic">No glossary entries match.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-slate-400">
+            원문에 실제로 등장하는 용어(강조 표시)만 각 언어의 번역 지침에 포함됩니다. 용어집은 이 브라우저에 저장됩니다.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
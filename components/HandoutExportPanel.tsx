@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { HandoutDetails, loadSiteName, saveSiteName, todayIsoDate } from '../services/handoutService';
+import { ArrowDownTrayIcon, DocumentTextIcon } from './Icons';
+
+interface HandoutExportPanelProps {
+  languageName: string;
+  disabled: boolean;
+  onDownloadHtml: (details: HandoutDetails) => void;
+  onPrint: (details: HandoutDetails) => void;
+}
+
+export const HandoutExportPanel: React.FC<HandoutExportPanelProps> = ({ languageName, disabled, onDownloadHtml, onPrint }) => {
+  const [siteName, setSiteName] = useState<string>(loadSiteName);
+  const [date, setDate] = useState<string>(todayIsoDate);
+
+  const details = (): HandoutDetails => {
+    saveSiteName(siteName.trim());
+    return { siteName: siteName.trim(), date };
+  };
+
+  return (
+    <div className="p-3 bg-slate-700/50 border border-slate-600 rounded-md space-y-2 text-xs text-slate-300">
+      <p className="font-semibold text-slate-200">이중 언어 인쇄물 (한국어 ↔ {languageName})</p>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={siteName}
+          onChange={e => setSiteName(e.target.value)}
+          placeholder="현장명 (Site name)"
+          className="flex-grow bg-slate-700 border border-slate-600 rounded px-2 py-1.5 text-slate-200 placeholder-slate-500"
+          aria-label="Site name"
+        />
+        <input
+          type="date"
+          value={date}
+          onChange={e => setDate(e.target.value)}
+          className="bg-slate-700 border border-slate-600 rounded px-2 py-1.5 text-slate-200"
+          aria-label="Briefing date"
+        />
+      </div>
+      <div className="flex gap-2">
+        <button
+          onClick={() => onDownloadHtml(details())}
+          disabled={disabled}
+          className="flex-1 flex items-center justify-center bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-150"
+        >
+          <ArrowDownTrayIcon className="w-4 h-4 mr-2" />
+          HTML 다운로드
+        </button>
+        <button
+          onClick={() => onPrint(details())}
+          disabled={disabled}
+          className="flex-1 flex items-center justify-center bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-150"
+        >
+          <DocumentTextIcon className="w-4 h-4 mr-2" />
+          인쇄 / PDF 저장
+        </button>
+      </div>
+    </div>
+  );
+};
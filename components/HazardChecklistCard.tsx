@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { HazardChecklist, RiskLevel, TargetLanguage } from '../types';
+import { assessmentFor } from '../services/hazardChecklistService';
+import { ArrowPathIcon, ExclamationTriangleIcon, LanguageIcon, ShieldCheckIcon } from './Icons';
+import { Spinner } from './Spinner';
+
+interface HazardChecklistCardProps {
+  checklist: HazardChecklist | null;
+  languageCode: string | null; // The output tab being shown; null shows the Korean checklist
+  sourceMarkdown: string;
+  targetLanguages: TargetLanguage[]; // The checklist is translated into the briefing's languages
+  isPreparing: boolean; // The checklist is being extracted or translated
+  disabled: boolean; // Another job is running
+  onExtract: () => void;
+  onTranslate: (languages: TargetLanguage[]) => void;
+}
+
+const RISK_LEVEL_STYLES: Record<RiskLevel, { label: string; className: string }> = {
+  high: { label: '상 · High', className: 'bg-red-600 text-white' },
+  medium: { label: '중 · Medium', className: 'bg-amber-500 text-slate-900' },
+  low: { label: '하 · Low', className: 'bg-emerald-600 text-white' },
+};
+
+const actionButtonClass = "flex items-center justify-center bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed text-white text-xs font-semibold py-1.5 px-3 rounded-md transition-colors duration-150";
+
+/**
+ * The tasks, hazards, risk levels, controls and PPE of the briefing as a
+ * checklist, in the language of the output tab. Ticks are for going through
+ * it with the crew and are not saved.
+ */
+export const HazardChecklistCard: React.FC<HazardChecklistCardProps> = ({
+  checklist,
+  languageCode,
+  sourceMarkdown,
+  targetLanguages,
+  isPreparing,
+  disabled,
+  onExtract,
+  onTranslate,
+}) => {
+  const [checkedControls, setCheckedControls] = useState<Set<string>>(new Set());
+
+  const translatedAssessment = checklist && languageCode ? assessmentFor(checklist, languageCode) : null;
+  const assessment = translatedAssessment || checklist?.assessment || null;
+  const isShowingKorean = !!checklist && !!languageCode && translatedAssessment === null;
+  const isStale = checklist !== null && checklist.sourceText !== sourceMarkdown;
+  const missingLanguages = checklist
+    ? targetLanguages.filter(language =>
+        language.code !== 'ko-KR' && !checklist.translations.some(t => t.language.code === language.code && t.status === 'done'))
+    : [];
+  const failedTranslation = checklist && languageCode
+    ? checklist.translations.find(t => t.language.code === languageCode && t.status === 'error')
+    : undefined;
+
+  const toggleControl = (key: string) => {
+    setCheckedControls(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleExtract = () => {
+    if (checklist && !window.confirm('문서에서 위험요인을 다시 추출할까요? 지금 체크리스트와 번역이 바뀝니다.')) return;
+    setCheckedControls(new Set());
+    onExtract();
+  };
+
+  return (
+    <div className="p-4 bg-slate-700/50 border border-slate-600 rounded-lg space-y-3 text-sm text-slate-300" aria-label="Hazard checklist">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="font-semibold text-slate-100 flex items-center">
+          <ShieldCheckIcon className="w-5 h-5 mr-2 text-emerald-400" />
+          위험요인 체크리스트 / Hazard checklist
+        </h3>
+        <div className="flex gap-2">
+          {checklist && missingLanguages.length > 0 && (
+            <button onClick={() => onTranslate(missingLanguages)} disabled={disabled || isPreparing} className={actionButtonClass}>
+              <LanguageIcon className="w-4 h-4 mr-1" />
+              번역 ({missingLanguages.length})
+            </button>
+          )}
+          <button onClick={handleExtract} disabled={disabled || isPreparing || !sourceMarkdown.trim()} className={actionButtonClass}>
+            {isPreparing ? <span className="mr-1"><Spinner size="sm" color="text-white" /></span> : <ArrowPathIcon className="w-4 h-4 mr-1" />}
+            {checklist ? '다시 추출' : '문서에서 추출'}
+          </button>
+        </div>
+      </div>
+
+      {!checklist && (
+        <p className="text-xs text-slate-400">
+          작업계획서나 위험성 평가표의 작업, 위험요인, 위험도, 대책, 보호구를 표 모양과 관계없이 같은 형식의 체크리스트로 정리합니다.
+        </p>
+      )}
+      {isStale && (
+        <p className="flex items-center text-xs text-amber-300">
+          <ExclamationTriangleIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+          체크리스트를 만든 뒤 문서 내용이 바뀌었습니다. 필요하면 다시 추출하세요.
+        </p>
+      )}
+      {isShowingKorean && (
+        <p className="text-xs text-slate-400">
+          {failedTranslation ? `이 언어로 번역하지 못했습니다: ${failedTranslation.error}` : '이 언어로 번역된 체크리스트가 없어 한국어로 표시합니다.'}
+        </p>
+      )}
+
+      {assessment && (
+        <>
+          {assessment.ppe.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs font-semibold text-slate-400">보호구 / PPE</span>
+              {assessment.ppe.map((item, index) => (
+                <span key={index} className="px-2 py-0.5 rounded-full bg-sky-900/60 text-sky-200 text-xs">{item}</span>
+              ))}
+            </div>
+          )}
+          <div className="space-y-3">
+            {assessment.tasks.map((task, taskIndex) => (
+              <section key={taskIndex}>
+                <h4 className="font-semibold text-slate-100 mb-1">{task.task}</h4>
+                <ul className="space-y-2">
+                  {task.hazards.map((hazard, hazardIndex) => (
+                    <li key={hazardIndex} className="pl-2 border-l-2 border-slate-600">
+                      <p className="flex items-start gap-2">
+                        <span className={`flex-shrink-0 px-1.5 py-0.5 rounded text-[11px] font-semibold ${RISK_LEVEL_STYLES[hazard.riskLevel].className}`}>
+                          {RISK_LEVEL_STYLES[hazard.riskLevel].label}
+                        </span>
+                        <span className="text-slate-200">{hazard.hazard}</span>
+                      </p>
+                      {hazard.controls.length > 0 && (
+                        <ul className="mt-1 space-y-0.5">
+                          {hazard.controls.map((control, controlIndex) => {
+                            const key = `${taskIndex}-${hazardIndex}-${controlIndex}`;
+                            return (
+                              <li key={controlIndex}>
+                                <label className="flex items-start gap-2 text-xs">
+                                  <input
+                                    type="checkbox"
+                                    checked={checkedControls.has(key)}
+                                    onChange={() => toggleControl(key)}
+                                    className="mt-0.5"
+                                  />
+                                  <span className={checkedControls.has(key) ? 'line-through text-slate-500' : ''}>{control}</span>
+                                </label>
+                              </li>
+                            );
+                          })}
+                        </ul>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
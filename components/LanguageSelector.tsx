@@ -1,39 +1,92 @@
-
-import React from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { TargetLanguage } from '../types'; // Corrected import
 import { supportedLanguages } from '../constants';
 import { GlobeAltIcon } from './Icons';
 
 interface LanguageSelectorProps {
-  selectedLanguage: TargetLanguage;
-  onSelectLanguage: (language: TargetLanguage) => void;
+  selectedLanguages: TargetLanguage[];
+  onChangeLanguages: (languages: TargetLanguage[]) => void;
+  disabled?: boolean;
 }
 
-export const LanguageSelector: React.FC<LanguageSelectorProps> = ({ selectedLanguage, onSelectLanguage }) => {
-  const handleChange = (event: React.ChangeEvent<HTMLSelectElement>) => {
-    const langCode = event.target.value;
-    const language = supportedLanguages.find(lang => lang.code === langCode);
-    if (language) {
-      onSelectLanguage(language);
-    }
+export const LanguageSelector: React.FC<LanguageSelectorProps> = ({ selectedLanguages, onChangeLanguages, disabled = false }) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen]);
+
+  const isSelected = (language: TargetLanguage) => selectedLanguages.some(lang => lang.code === language.code);
+
+  const handleToggle = (language: TargetLanguage) => {
+    // Keep the order of supportedLanguages so tabs appear in a stable order.
+    const next = isSelected(language)
+      ? selectedLanguages.filter(lang => lang.code !== language.code)
+      : supportedLanguages.filter(lang => lang.code === language.code || isSelected(lang));
+    onChangeLanguages(next);
   };
 
+  const summary = selectedLanguages.length === 0
+    ? 'Select languages'
+    : selectedLanguages.length <= 2
+      ? selectedLanguages.map(lang => lang.name).join(', ')
+      : `${selectedLanguages.length} languages`;
+
   return (
-    <div className="flex items-center space-x-2 w-full sm:w-auto">
+    <div className="relative flex items-center space-x-2 w-full sm:w-auto" ref={containerRef}>
       <GlobeAltIcon className="w-6 h-6 text-slate-400" />
-      <label htmlFor="language-select" className="sr-only">Target Language</label>
-      <select
+      <button
+        type="button"
         id="language-select"
-        value={selectedLanguage.code}
-        onChange={handleChange}
-        className="bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full p-2.5 shadow"
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        aria-haspopup="listbox"
+        aria-expanded={isOpen}
+        aria-label="Target languages"
+        className="bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg focus:ring-sky-500 focus:border-sky-500 block w-full sm:w-48 p-2.5 shadow text-left truncate disabled:cursor-not-allowed disabled:text-slate-400"
       >
-        {supportedLanguages.map((lang) => (
-          <option key={lang.code} value={lang.code}>
-            {lang.name}
-          </option>
-        ))}
-      </select>
+        {summary}
+      </button>
+      {isOpen && (
+        <div
+          role="listbox"
+          aria-multiselectable="true"
+          className="absolute z-20 bottom-full mb-2 left-8 w-64 max-h-80 overflow-y-auto bg-slate-700 border border-slate-600 rounded-lg shadow-xl p-2"
+        >
+          <div className="flex justify-between px-1 pb-2 mb-1 border-b border-slate-600 text-xs">
+            <button type="button" onClick={() => onChangeLanguages([...supportedLanguages])} className="text-sky-400 hover:underline">
+              모두 선택
+            </button>
+            <button type="button" onClick={() => onChangeLanguages([])} className="text-slate-400 hover:underline">
+              선택 해제
+            </button>
+          </div>
+          {supportedLanguages.map((lang) => (
+            <label
+              key={lang.code}
+              role="option"
+              aria-selected={isSelected(lang)}
+              className="flex items-center px-1 py-1.5 rounded-md text-sm text-slate-200 hover:bg-slate-600 cursor-pointer"
+            >
+              <input
+                type="checkbox"
+                checked={isSelected(lang)}
+                onChange={() => handleToggle(lang)}
+                className="mr-2 accent-sky-500"
+              />
+              {lang.name}
+            </label>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
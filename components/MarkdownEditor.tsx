@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import { ArrowUturnLeftIcon, ArrowUturnRightIcon, ArrowPathIcon } from './Icons';
+
+type ViewMode = 'edit' | 'split' | 'preview';
+
+interface MarkdownEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onRevert: () => void;
+  canRevert: boolean;
+  readOnly?: boolean;
+}
+
+const viewModeLabels: Record<ViewMode, string> = {
+  edit: '편집',
+  split: '분할',
+  preview: '미리보기',
+};
+
+export const MarkdownEditor: React.FC<MarkdownEditorProps> = ({
+  value,
+  onChange,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  onRevert,
+  canRevert,
+  readOnly = false,
+}) => {
+  const [viewMode, setViewMode] = useState<ViewMode>('split');
+
+  // The textarea is controlled, so the browser's own undo stack would fight ours.
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!(event.ctrlKey || event.metaKey)) return;
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      onUndo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      onRedo();
+    }
+  };
+
+  const toolbarButtonClass = "p-1.5 rounded-md text-slate-300 hover:bg-slate-600 disabled:text-slate-600 disabled:hover:bg-transparent disabled:cursor-not-allowed";
+
+  return (
+    <div className="flex-grow flex flex-col h-[45rem] bg-slate-700/50 border border-slate-600 rounded-md overflow-hidden">
+      <div className="flex items-center justify-between gap-2 px-2 py-1.5 border-b border-slate-600 bg-slate-800/60">
+        <div className="flex items-center gap-1" role="tablist" aria-label="Editor view">
+          {(Object.keys(viewModeLabels) as ViewMode[]).map(mode => (
+            <button
+              key={mode}
+              role="tab"
+              aria-selected={viewMode === mode}
+              onClick={() => setViewMode(mode)}
+              className={`px-2.5 py-1 text-xs rounded-md ${viewMode === mode ? 'bg-sky-600 text-white' : 'text-slate-300 hover:bg-slate-600'}`}
+            >
+              {viewModeLabels[mode]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          <button onClick={onUndo} disabled={readOnly || !canUndo} className={toolbarButtonClass} title="실행 취소 (Ctrl+Z)" aria-label="Undo">
+            <ArrowUturnLeftIcon className="w-4 h-4" />
+          </button>
+          <button onClick={onRedo} disabled={readOnly || !canRedo} className={toolbarButtonClass} title="다시 실행 (Ctrl+Shift+Z)" aria-label="Redo">
+            <ArrowUturnRightIcon className="w-4 h-4" />
+          </button>
+          <button
+            onClick={onRevert}
+            disabled={readOnly || !canRevert}
+            className={`${toolbarButtonClass} flex items-center text-xs`}
+            title="추출(OCR) 결과로 되돌리기"
+          >
+            <ArrowPathIcon className="w-4 h-4 mr-1" />
+            OCR 결과로 되돌리기
+          </button>
+        </div>
+      </div>
+
+      <div className={`flex-grow grid min-h-0 ${viewMode === 'split' ? 'grid-rows-2 lg:grid-rows-1 lg:grid-cols-2' : 'grid-cols-1'}`}>
+        {viewMode !== 'preview' && (
+          <textarea
+            value={value}
+            onChange={(event) => onChange(event.target.value)}
+            onKeyDown={handleKeyDown}
+            readOnly={readOnly}
+            spellCheck={false}
+            placeholder="Upload a PDF or Image (JPG, PNG, WEBP), or type or paste the Korean TBM Markdown here."
+            className={`w-full h-full p-3 bg-transparent text-slate-200 font-mono text-sm resize-none focus:outline-none focus:ring-1 focus:ring-sky-500 ${viewMode === 'split' ? 'border-b lg:border-b-0 lg:border-r border-slate-600' : ''}`}
+            aria-label="TBM Material Input (Markdown source)"
+          />
+        )}
+        {viewMode !== 'edit' && (
+          <div
+            className="w-full h-full p-3 text-slate-200 overflow-y-auto rendered-markdown"
+            aria-live="polite"
+            aria-label="TBM Material Input (Rendered Markdown)"
+            dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(value) as string) }}
+          >
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
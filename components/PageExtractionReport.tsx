@@ -0,0 +1,88 @@
+import React from 'react';
+import { PdfPageExtraction, PageProgress } from '../types';
+import { ExclamationTriangleIcon } from './Icons';
+
+interface PageExtractionReportProps {
+  pages: PdfPageExtraction[];
+  progress: PageProgress | null;
+  onRetryFailed: () => void;
+  isBusy: boolean;
+}
+
+const methodLabels: Record<PdfPageExtraction['method'], string> = {
+  'text-layer': '텍스트',
+  'ocr': 'OCR',
+};
+
+export const PageExtractionReport: React.FC<PageExtractionReportProps> = ({ pages, progress, onRetryFailed, isBusy }) => {
+  if (pages.length === 0 && !progress) return null;
+
+  const failedPages = pages.filter(page => page.status === 'failed');
+  const ocrCount = pages.filter(page => page.status === 'done' && page.method === 'ocr').length;
+  const textLayerCount = pages.filter(page => page.status === 'done' && page.method === 'text-layer').length;
+
+  return (
+    <div className="text-xs text-slate-400 space-y-2" aria-label="PDF page extraction report">
+      {progress && (
+        <div aria-live="polite">
+          <p className="mb-1">Processed {progress.completed} of {progress.total} pages</p>
+          <div className="w-full h-1.5 bg-slate-700 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-purple-500 transition-all duration-300"
+              style={{ width: `${progress.total ? (progress.completed / progress.total) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {pages.length > 0 && (
+        <>
+          <p>
+            {pages.length} pages: {textLayerCount} from embedded text, {ocrCount} via OCR
+            {failedPages.length > 0 && <span className="text-red-400">, {failedPages.length} failed</span>}
+          </p>
+          <div className="flex flex-wrap gap-1">
+            {pages.map(page => (
+              <span
+                key={page.pageNumber}
+                title={page.status === 'failed'
+                  ? `Page ${page.pageNumber}: ${page.error} (${page.attempts} attempts)`
+                  : `Page ${page.pageNumber}: ${page.charCount} characters`}
+                className={`px-2 py-0.5 rounded-full ring-1 ${
+                  page.status === 'failed'
+                    ? 'bg-red-900/40 text-red-300 ring-red-700'
+                    : page.method === 'ocr'
+                      ? 'bg-amber-900/40 text-amber-300 ring-amber-700'
+                      : 'bg-emerald-900/40 text-emerald-300 ring-emerald-700'
+                }`}
+              >
+                p.{page.pageNumber} {page.status === 'failed' ? '실패' : methodLabels[page.method]}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+
+      {failedPages.length > 0 && !progress && (
+        <div className="p-3 bg-red-900/30 border border-red-700 rounded-md text-red-200 space-y-2">
+          <p className="flex items-center font-semibold">
+            <ExclamationTriangleIcon className="w-4 h-4 mr-1" />
+            Pages missing from the document
+          </p>
+          <ul className="list-disc ml-5">
+            {failedPages.map(page => (
+              <li key={page.pageNumber}>Page {page.pageNumber}: {page.error}</li>
+            ))}
+          </ul>
+          <button
+            onClick={onRetryFailed}
+            disabled={isBusy}
+            className="bg-red-600 hover:bg-red-500 disabled:bg-red-800 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-150"
+          >
+            실패한 페이지 다시 시도 ({failedPages.length})
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
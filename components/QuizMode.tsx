@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { BriefingQuiz, QuizAttempt } from '../types';
+import { supportedLanguages } from '../constants';
+import { createQuizAttempt, questionsFor } from '../services/quizService';
+import { useTTS } from '../hooks/useTTS';
+import { PlayIcon, StopIcon, XCircleIcon } from './Icons';
+
+interface QuizModeProps {
+  quiz: BriefingQuiz;
+  workerNames: string[]; // Suggested from the attendance list
+  onComplete: (attempt: QuizAttempt) => void;
+  onClose: () => void;
+}
+
+type Stage = 'start' | 'question' | 'result';
+
+const bigButtonClass = "w-full text-left text-lg sm:text-xl font-medium rounded-xl px-5 py-4 ring-2 transition-colors duration-150";
+
+/**
+ * The quiz as workers take it on a shared tablet: each enters a name, picks a
+ * language and answers one question at a time, with every question read aloud
+ * on request. Only the score is shown at the end, so the next worker in line
+ * does not see the answers.
+ */
+export const QuizMode: React.FC<QuizModeProps> = ({ quiz, workerNames, onComplete, onClose }) => {
+  const [stage, setStage] = useState<Stage>('start');
+  const [workerName, setWorkerName] = useState<string>('');
+  const [languageCode, setLanguageCode] = useState<string>('ko-KR'); // Always available: the quiz is written in Korean
+  const [questionIndex, setQuestionIndex] = useState<number>(0);
+  const [answers, setAnswers] = useState<number[]>([]);
+  const [lastAttempt, setLastAttempt] = useState<QuizAttempt | null>(null);
+  const { play, cancel, isSpeaking, isSynthesizing, ttsError, isSupported: isTtsSupported } = useTTS();
+
+  const availableLanguages = supportedLanguages.filter(language => questionsFor(quiz, language.code) !== null);
+  const questions = questionsFor(quiz, languageCode) || [];
+  const current = questions[questionIndex];
+  const selected = answers[questionIndex];
+  const isLastQuestion = questionIndex === questions.length - 1;
+
+  const handleStart = () => {
+    setAnswers([]);
+    setQuestionIndex(0);
+    setStage('question');
+  };
+
+  const handleListen = () => {
+    if (!current) return;
+    if (isSpeaking || isSynthesizing) {
+      cancel();
+      return;
+    }
+    const texts = [current.question, ...current.options.map((option, index) => `${index + 1}. ${option}`)];
+    play(texts.map((text, blockIndex) => ({ text, blockIndex })), languageCode);
+  };
+
+  const handleSelect = (optionIndex: number) => {
+    setAnswers(prev => {
+      const next = [...prev];
+      next[questionIndex] = optionIndex;
+      return next;
+    });
+  };
+
+  const handleNext = () => {
+    cancel();
+    if (!isLastQuestion) {
+      setQuestionIndex(index => index + 1);
+      return;
+    }
+    const attempt = createQuizAttempt(quiz, workerName, languageCode, answers);
+    onComplete(attempt);
+    setLastAttempt(attempt);
+    setStage('result');
+  };
+
+  const handleNextWorker = () => {
+    setWorkerName('');
+    setLastAttempt(null);
+    setStage('start');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900 text-slate-100 overflow-y-auto" role="dialog" aria-modal="true" aria-label="Quiz mode">
+      <div className="max-w-3xl mx-auto p-4 sm:p-8 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-2xl font-bold text-sky-400">이해도 퀴즈 / Quiz</h2>
+          <button
+            onClick={() => {
+              cancel();
+              onClose();
+            }}
+            className="flex items-center text-slate-300 hover:text-white py-2 px-3 rounded-md bg-slate-800 ring-1 ring-slate-700"
+          >
+            <XCircleIcon className="w-5 h-5 mr-1" />
+            닫기 (Close)
+          </button>
+        </div>
+
+        {stage === 'start' && (
+          <div className="bg-slate-800 p-6 rounded-xl ring-1 ring-slate-700 space-y-4">
+            <label className="block space-y-1">
+              <span className="text-slate-300">이름 / Name</span>
+              <input
+                value={workerName}
+                onChange={e => setWorkerName(e.target.value)}
+                list="quiz-worker-names"
+                className="w-full bg-slate-700 border border-slate-600 text-slate-100 text-xl rounded-lg px-4 py-3"
+                aria-label="Worker name"
+              />
+              <datalist id="quiz-worker-names">
+                {workerNames.map(name => <option key={name} value={name} />)}
+              </datalist>
+            </label>
+            <div className="space-y-1">
+              <span className="text-slate-300">언어 / Language</span>
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+                {availableLanguages.map(language => (
+                  <button
+                    key={language.code}
+                    onClick={() => setLanguageCode(language.code)}
+                    className={`rounded-lg px-3 py-3 text-lg ring-2 ${language.code === languageCode ? 'bg-sky-600 ring-sky-400 text-white' : 'bg-slate-700 ring-slate-600 hover:bg-slate-600'}`}
+                    aria-pressed={language.code === languageCode}
+                  >
+                    {language.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <button
+              onClick={handleStart}
+              disabled={!workerName.trim() || questions.length === 0}
+              className="w-full bg-green-600 hover:bg-green-500 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed text-white text-xl font-semibold py-4 rounded-xl"
+            >
+              시작 / Start
+            </button>
+          </div>
+        )}
+
+        {stage === 'question' && current && (
+          <div className="space-y-4">
+            <p className="text-slate-400">{workerName} · {questionIndex + 1} / {questions.length}</p>
+            <div className="bg-slate-800 p-6 rounded-xl ring-1 ring-slate-700 space-y-4">
+              <p className="text-2xl font-semibold leading-snug">{current.question}</p>
+              {isTtsSupported && (
+                <button
+                  onClick={handleListen}
+                  className="flex items-center bg-slate-700 hover:bg-slate-600 text-slate-100 py-2 px-4 rounded-lg"
+                >
+                  {isSpeaking || isSynthesizing ? <StopIcon className="w-5 h-5 mr-2" /> : <PlayIcon className="w-5 h-5 mr-2" />}
+                  {isSpeaking || isSynthesizing ? '멈춤 / Stop' : '듣기 / Listen'}
+                </button>
+              )}
+              {isTtsSupported && ttsError && <p className="text-sm text-amber-300">{ttsError}</p>}
+            </div>
+            <div className="space-y-3" role="radiogroup" aria-label="Answer options">
+              {current.options.map((option, optionIndex) => (
+                <button
+                  key={optionIndex}
+                  onClick={() => handleSelect(optionIndex)}
+                  role="radio"
+                  aria-checked={selected === optionIndex}
+                  className={`${bigButtonClass} ${selected === optionIndex ? 'bg-sky-700 ring-sky-400' : 'bg-slate-800 ring-slate-700 hover:bg-slate-700'}`}
+                >
+                  <span className="mr-3 text-slate-400">{optionIndex + 1}.</span>
+                  {option}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  cancel();
+                  setQuestionIndex(index => index - 1);
+                }}
+                disabled={questionIndex === 0}
+                className="flex-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:cursor-not-allowed text-white text-lg py-4 rounded-xl"
+              >
+                이전 / Back
+              </button>
+              <button
+                onClick={handleNext}
+                disabled={selected === undefined}
+                className="flex-[2] bg-sky-600 hover:bg-sky-500 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed text-white text-lg font-semibold py-4 rounded-xl"
+              >
+                {isLastQuestion ? '제출 / Submit' : '다음 / Next'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {stage === 'result' && lastAttempt && (
+          <div className="bg-slate-800 p-8 rounded-xl ring-1 ring-slate-700 text-center space-y-6">
+            <p className="text-xl text-slate-300">{lastAttempt.workerName}</p>
+            <p className="text-6xl font-bold text-sky-400">{lastAttempt.score} / {lastAttempt.questionCount}</p>
+            <p className="text-slate-400">관리자에게 태블릿을 돌려주세요. / Please hand the tablet back to your supervisor.</p>
+            <button
+              onClick={handleNextWorker}
+              className="w-full bg-green-600 hover:bg-green-500 text-white text-xl font-semibold py-4 rounded-xl"
+            >
+              다음 작업자 / Next worker
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,187 @@
+import React, { useState } from 'react';
+import { BriefingQuiz, QuizAttempt, TargetLanguage } from '../types';
+import { supportedLanguages, QUIZ_DEFAULT_QUESTION_COUNT, QUIZ_MAX_QUESTIONS, QUIZ_MIN_QUESTIONS } from '../constants';
+import { formatSignedAt } from '../services/attendanceService';
+import { ArrowPathIcon, BookOpenIcon, ChevronDownIcon, ExclamationTriangleIcon, PlayIcon, TrashIcon } from './Icons';
+import { Spinner } from './Spinner';
+
+interface QuizPanelProps {
+  quiz: BriefingQuiz | null;
+  attempts: QuizAttempt[];
+  sourceMarkdown: string;
+  targetLanguages: TargetLanguage[]; // The quiz is translated into the briefing's languages
+  isPreparing: boolean; // The quiz is being written or translated
+  disabled: boolean; // Another job is running
+  onGenerate: (questionCount: number) => void;
+  onTranslate: (languages: TargetLanguage[]) => void;
+  onStart: () => void;
+  onRemoveAttempt: (id: string) => void;
+}
+
+const actionButtonClass = "flex items-center justify-center bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-150";
+
+const languageName = (code: string) => supportedLanguages.find(language => language.code === code)?.name || code;
+
+export const QuizPanel: React.FC<QuizPanelProps> = ({
+  quiz,
+  attempts,
+  sourceMarkdown,
+  targetLanguages,
+  isPreparing,
+  disabled,
+  onGenerate,
+  onTranslate,
+  onStart,
+  onRemoveAttempt,
+}) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [questionCount, setQuestionCount] = useState<number>(QUIZ_DEFAULT_QUESTION_COUNT);
+
+  const isStale = quiz !== null && quiz.sourceText !== sourceMarkdown;
+  // Selected languages the quiz still needs: never translated, or failed.
+  const missingLanguages = quiz
+    ? targetLanguages.filter(language =>
+        language.code !== 'ko-KR' && !quiz.translations.some(t => t.language.code === language.code && t.status === 'done'))
+    : [];
+  const averageScore = attempts.length > 0
+    ? Math.round(100 * attempts.reduce((sum, attempt) => sum + attempt.score / attempt.questionCount, 0) / attempts.length)
+    : null;
+
+  const handleGenerate = () => {
+    if (quiz && !window.confirm('지금 퀴즈를 새 문항으로 바꿀까요? 지금까지의 응시 기록은 그대로 남습니다.')) return;
+    onGenerate(questionCount);
+  };
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl shadow-lg ring-1 ring-slate-700">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <h3 className="text-xl font-semibold text-sky-400 flex items-center">
+          <BookOpenIcon className="w-6 h-6 mr-2" />
+          이해도 퀴즈 / Quiz
+          <span className="ml-3 text-sm font-normal text-slate-400">
+            {quiz ? `${quiz.questions.length}문항 · ${attempts.length}명 응시` : '없음'}
+          </span>
+        </h3>
+        <ChevronDownIcon className={`w-5 h-5 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-6 text-sm text-slate-300">
+          <div className="space-y-3">
+            <p className="text-xs text-slate-400">
+              교육 내용(한국어 원문)으로 객관식 문항을 만들고 선택한 언어로 번역합니다. 작업자는 퀴즈 모드에서 자신의 언어로 문항을 듣고 답합니다. 정답은 관리자용으로 한국어로만 표시됩니다.
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="flex items-center gap-2 text-xs">
+                문항 수
+                <select
+                  value={questionCount}
+                  onChange={e => setQuestionCount(Number(e.target.value))}
+                  className="bg-slate-700 border border-slate-600 rounded px-2 py-1.5 text-slate-200"
+                  aria-label="Question count"
+                >
+                  {Array.from({ length: QUIZ_MAX_QUESTIONS - QUIZ_MIN_QUESTIONS + 1 }, (_, i) => QUIZ_MIN_QUESTIONS + i).map(count => (
+                    <option key={count} value={count}>{count}</option>
+                  ))}
+                </select>
+              </label>
+              <button onClick={handleGenerate} disabled={disabled || isPreparing || !sourceMarkdown.trim()} className={actionButtonClass}>
+                {isPreparing ? <span className="mr-2"><Spinner size="sm" color="text-white" /></span> : <ArrowPathIcon className="w-4 h-4 mr-2" />}
+                {quiz ? '퀴즈 다시 만들기' : '퀴즈 만들기'}
+              </button>
+              {quiz && missingLanguages.length > 0 && (
+                <button onClick={() => onTranslate(missingLanguages)} disabled={disabled || isPreparing} className={actionButtonClass}>
+                  번역 ({missingLanguages.map(language => language.name).join(', ')})
+                </button>
+              )}
+            </div>
+            {isStale && (
+              <p className="flex items-center text-xs text-amber-300">
+                <ExclamationTriangleIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+                퀴즈를 만든 뒤 교육 내용이 바뀌었습니다. 필요하면 퀴즈를 다시 만드세요.
+              </p>
+            )}
+            {quiz && (
+              <>
+                <ul className="flex flex-wrap gap-2 text-xs" aria-label="Quiz languages">
+                  <li className="px-2 py-0.5 rounded bg-slate-700">{languageName('ko-KR')}</li>
+                  {quiz.translations.filter(t => t.language.code !== 'ko-KR').map(t => (
+                    <li
+                      key={t.language.code}
+                      title={t.error}
+                      className={`px-2 py-0.5 rounded ${t.status === 'error' ? 'bg-red-900/60 text-red-300' : t.status === 'translating' ? 'bg-slate-700 text-slate-400' : 'bg-slate-700'}`}
+                    >
+                      {t.language.name}{t.status === 'error' ? ' (오류)' : t.status === 'translating' ? ' …' : ''}
+                    </li>
+                  ))}
+                </ul>
+                <button
+                  onClick={onStart}
+                  disabled={disabled || isPreparing}
+                  className="w-full flex items-center justify-center bg-green-600 hover:bg-green-500 disabled:bg-slate-600 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-3 rounded-md transition-colors duration-150"
+                >
+                  <PlayIcon className="w-4 h-4 mr-2" />
+                  퀴즈 모드 시작 (태블릿)
+                </button>
+                <div className="p-3 bg-slate-700/50 border border-slate-600 rounded-md text-xs">
+                  <p className="font-semibold text-slate-200 mb-2">정답 (관리자용)</p>
+                  <ol className="list-decimal pl-5 space-y-2">
+                    {quiz.questions.map((question, index) => (
+                      <li key={index}>
+                        <p className="text-slate-200">{question.question}</p>
+                        <ol className="list-decimal pl-5">
+                          {question.options.map((option, optionIndex) => (
+                            <li key={optionIndex} className={optionIndex === question.answerIndex ? 'text-green-400 font-semibold' : ''}>
+                              {option}{optionIndex === question.answerIndex ? ' ✓' : ''}
+                            </li>
+                          ))}
+                        </ol>
+                        {question.explanation && <p className="text-slate-400">{question.explanation}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            {attempts.length === 0 ? (
+              <p className="text-xs text-slate-500">아직 퀴즈를 푼 작업자가 없습니다.</p>
+            ) : (
+              <>
+                <p className="text-xs text-slate-400">평균 정답률 {averageScore}%</p>
+                <ul className="divide-y divide-slate-700 max-h-96 overflow-y-auto" aria-label="Quiz results">
+                  {attempts.map(attempt => (
+                    <li key={attempt.id} className="py-2 flex items-center gap-3">
+                      <div className="flex-grow min-w-0 text-xs">
+                        <p className="text-sm text-slate-200 truncate">{attempt.workerName}</p>
+                        <p className="text-slate-400">{languageName(attempt.languageCode)} · {formatSignedAt(attempt.completedAt)}</p>
+                      </div>
+                      <span className={`text-sm font-semibold ${attempt.score === attempt.questionCount ? 'text-green-400' : 'text-amber-300'}`}>
+                        {attempt.score} / {attempt.questionCount}
+                      </span>
+                      <button
+                        onClick={() => {
+                          if (window.confirm(`${attempt.workerName}님의 퀴즈 기록을 삭제할까요?`)) onRemoveAttempt(attempt.id);
+                        }}
+                        className="p-1 text-slate-400 hover:text-red-400"
+                        aria-label={`Remove ${attempt.workerName}'s quiz result`}
+                      >
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
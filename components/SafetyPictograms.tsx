@@ -0,0 +1,14 @@
+import React from 'react';
+import { PictogramId } from '../types';
+import { pictogramSvg } from '../services/safetyPictograms';
+
+interface SafetyPictogramProps {
+  id: PictogramId;
+  size?: number;
+  className?: string;
+}
+
+export const SafetyPictogram: React.FC<SafetyPictogramProps> = ({ id, size = 40, className }) => (
+  // The markup is the static sign set of services/safetyPictograms.ts, never user input.
+  <span className={`inline-flex ${className || ''}`} dangerouslySetInnerHTML={{ __html: pictogramSvg(id, size) }} />
+);
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import QRCode from 'qrcode';
+import { LanguageTranslation } from '../types';
+import { createSharedBriefing, encodeSharedBriefing, buildShareUrl, loadShareBaseUrl, saveShareBaseUrl } from '../services/shareService';
+import { loadSiteName, todayIsoDate } from '../services/handoutService';
+import { finishedTranslationPerLanguage } from '../services/translationStyles';
+import { Spinner } from './Spinner';
+import { Alert } from './Alert';
+
+interface SharePanelProps {
+  translations: LanguageTranslation[];
+  disabled: boolean;
+}
+
+const isLocalOnlyUrl = (url: string) => /^https?:\/\/(localhost|127\.|\[::1\])/i.test(url);
+
+export const SharePanel: React.FC<SharePanelProps> = ({ translations, disabled }) => {
+  const [baseUrl, setBaseUrl] = useState<string>(loadShareBaseUrl);
+  const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState<boolean>(false);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<boolean>(false);
+
+  const doneCount = finishedTranslationPerLanguage(translations).length;
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setShareError(null);
+    setQrDataUrl(null);
+    setCopied(false);
+    saveShareBaseUrl(baseUrl.trim());
+    try {
+      const briefing = createSharedBriefing(translations, todayIsoDate(), loadSiteName() || undefined);
+      const url = buildShareUrl(baseUrl.trim(), await encodeSharedBriefing(briefing));
+      setShareUrl(url);
+      try {
+        setQrDataUrl(await QRCode.toDataURL(url, { errorCorrectionLevel: 'L', margin: 2, width: 360 }));
+      } catch (err) {
+        // Too much data for the largest QR code; the link itself still works.
+        console.warn('QR code generation failed:', err);
+        setShareError(`번역 내용이 너무 길어 QR 코드 하나에 담을 수 없습니다 (링크 ${url.length}자). 언어 수를 줄이거나 아래 링크를 메신저로 공유하세요.`);
+      }
+    } catch (err) {
+      console.error('Share link error:', err);
+      setShareError(err instanceof Error ? err.message : 'Could not create the share link.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!shareUrl) return;
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+    } catch {
+      setShareError('클립보드에 복사할 수 없습니다. 링크를 직접 선택해 복사하세요.');
+    }
+  };
+
+  return (
+    <div className="p-3 bg-slate-700/50 border border-slate-600 rounded-md space-y-2 text-xs text-slate-300">
+      <p className="font-semibold text-slate-200">근로자 휴대폰으로 공유 (QR)</p>
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="url"
+          value={baseUrl}
+          onChange={e => setBaseUrl(e.target.value)}
+          className="flex-grow bg-slate-700 border border-slate-600 rounded px-2 py-1.5 text-slate-200"
+          aria-label="Address phones use to open this app"
+        />
+        <button
+          onClick={handleGenerate}
+          disabled={disabled || isGenerating || doneCount === 0 || !baseUrl.trim()}
+          className="flex items-center justify-center bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-150"
+        >
+          {isGenerating && <span className="mr-2"><Spinner size="sm" color="text-white" /></span>}
+          QR 코드 만들기 ({doneCount}개 언어)
+        </button>
+      </div>
+      {isLocalOnlyUrl(baseUrl) && (
+        <p className="text-amber-300">
+          localhost 주소는 휴대폰에서 열 수 없습니다. 같은 네트워크에서 접속 가능한 주소(예: http://192.168.0.10:5173/)를 입력하세요.
+        </p>
+      )}
+      {shareError && <Alert message={shareError} type="warning" onClose={() => setShareError(null)} />}
+      {qrDataUrl && (
+        <div className="flex justify-center">
+          <img src={qrDataUrl} alt="QR code for today's briefing" className="bg-white p-2 rounded-md w-72 h-72" />
+        </div>
+      )}
+      {shareUrl && (
+        <div className="flex gap-2 items-center">
+          <input readOnly value={shareUrl} className="flex-grow bg-slate-800 border border-slate-600 rounded px-2 py-1 text-slate-400" aria-label="Share link" onFocus={e => e.target.select()} />
+          <button onClick={handleCopy} className="bg-slate-600 hover:bg-slate-500 text-white font-semibold py-1 px-2 rounded-md">
+            {copied ? '복사됨' : '링크 복사'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import { SharedBriefing, decodeSharedBriefing } from '../services/shareService';
+import { markdownToSpeechSegments } from '../services/speechSegments';
+import { supportedLanguages } from '../constants';
+import { useTTS } from '../hooks/useTTS';
+import { useSpeechHighlight } from '../hooks/useSpeechHighlight';
+import { SpeechPlaybackControls } from './SpeechPlaybackControls';
+import { Spinner } from './Spinner';
+import { Alert } from './Alert';
+import { PlayIcon } from './Icons';
+
+interface SharedBriefingViewProps {
+  encoded: string; // The fragment payload from the QR code link
+}
+
+const languageName = (code: string) => supportedLanguages.find(l => l.code === code)?.name || code;
+
+/** The shared language that best matches the phone's own language settings. */
+const pickInitialLanguage = (briefing: SharedBriefing): string | null => {
+  const codes = briefing.translations.map(t => t.code);
+  for (const preferred of navigator.languages || [navigator.language]) {
+    const exact = codes.find(code => code.toLowerCase() === preferred.toLowerCase());
+    if (exact) return exact;
+    const base = codes.find(code => code.split('-')[0].toLowerCase() === preferred.split('-')[0].toLowerCase());
+    if (base) return base;
+  }
+  return codes[0] || null;
+};
+
+/**
+ * Read-only, phone-sized view of a briefing opened from the QR code. Everything
+ * it shows comes from the link itself; no AI calls are made here.
+ */
+export const SharedBriefingView: React.FC<SharedBriefingViewProps> = ({ encoded }) => {
+  const [briefing, setBriefing] = useState<SharedBriefing | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [languageCode, setLanguageCode] = useState<string | null>(null);
+  const renderedRef = useRef<HTMLDivElement>(null);
+  const {
+    play,
+    cancel,
+    pause,
+    resume,
+    next,
+    previous,
+    repeat,
+    isSpeaking,
+    isPaused,
+    isSynthesizing,
+    currentSegment,
+    currentSegmentIndex,
+    segmentCount,
+    rate,
+    pitch,
+    setRate,
+    setPitch,
+    ttsError,
+    isSupported,
+  } = useTTS();
+
+  useEffect(() => {
+    let cancelled = false;
+    decodeSharedBriefing(encoded)
+      .then(decoded => {
+        if (cancelled) return;
+        setBriefing(decoded);
+        setLanguageCode(pickInitialLanguage(decoded));
+      })
+      .catch(err => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'The briefing could not be read.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [encoded]);
+
+  const text = briefing?.translations.find(t => t.code === languageCode)?.text || '';
+  const html = useMemo(() => DOMPurify.sanitize(marked.parse(text) as string), [text]);
+  const isPlaying = isSpeaking || isPaused || isSynthesizing;
+
+  useSpeechHighlight(renderedRef, isPlaying && currentSegment ? currentSegment.blockIndex : null, html);
+
+  const handleSelectLanguage = (code: string) => {
+    cancel();
+    setLanguageCode(code);
+  };
+
+  const handlePlay = () => {
+    if (!languageCode) return;
+    const segments = markdownToSpeechSegments(text);
+    if (segments.length > 0) play(segments, languageCode);
+  };
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-slate-900 text-slate-100 p-4">
+        <Alert message={loadError} type="error" />
+      </div>
+    );
+  }
+
+  if (!briefing) {
+    return (
+      <div className="min-h-screen bg-slate-900 flex items-center justify-center">
+        <Spinner size="lg" color="text-sky-400" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100">
+      <header className="sticky top-0 z-10 bg-slate-800/95 border-b border-slate-700 px-4 py-3 space-y-2">
+        <div>
+          <h1 className="text-lg font-bold text-sky-400">TBM 안전 교육 / Safety Briefing</h1>
+          <p className="text-xs text-slate-400">
+            {briefing.siteName ? `${briefing.siteName} · ` : ''}{briefing.date}
+          </p>
+        </div>
+        <select
+          value={languageCode || ''}
+          onChange={e => handleSelectLanguage(e.target.value)}
+          className="w-full bg-slate-700 border border-slate-600 rounded-md px-3 py-2 text-base text-slate-100"
+          aria-label="Language"
+        >
+          {briefing.translations.map(t => (
+            <option key={t.code} value={t.code}>{languageName(t.code)}</option>
+          ))}
+        </select>
+        {isSupported && (
+          isPlaying ? (
+            <SpeechPlaybackControls
+              isPaused={isPaused}
+              isSynthesizing={isSynthesizing}
+              currentIndex={currentSegmentIndex}
+              segmentCount={segmentCount}
+              rate={rate}
+              pitch={pitch}
+              onPause={pause}
+              onResume={resume}
+              onPrevious={previous}
+              onNext={next}
+              onRepeat={repeat}
+              onStop={cancel}
+              onRateChange={setRate}
+              onPitchChange={setPitch}
+            />
+          ) : (
+            <button
+              onClick={handlePlay}
+              disabled={!text.trim()}
+              className="w-full flex items-center justify-center bg-sky-600 hover:bg-sky-700 disabled:bg-slate-600 text-white font-semibold py-2 px-4 rounded-md transition-colors duration-150"
+            >
+              <PlayIcon className="w-5 h-5 mr-2" />
+              듣기 / Listen
+            </button>
+          )
+        )}
+      </header>
+      <main className="px-4 py-4">
+        {ttsError && <div className="mb-3"><Alert message={ttsError} type="warning" /></div>}
+        <div ref={renderedRef} lang={languageCode?.split('-')[0]} className="text-base leading-relaxed">
+          <div className="rendered-markdown" dangerouslySetInnerHTML={{ __html: html }} />
+        </div>
+        <p className="mt-6 text-xs text-slate-500">
+          AI 번역본입니다. 중요한 안전 지시는 관리자에게 확인하십시오. / This is an AI translation; confirm important safety instructions with your supervisor.
+        </p>
+      </main>
+    </div>
+  );
+};
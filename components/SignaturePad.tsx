@@ -0,0 +1,112 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TrashIcon } from './Icons';
+
+interface SignaturePadProps {
+  onChange: (signature: string | null) => void; // PNG data URL after each stroke, null when cleared
+  disabled?: boolean;
+}
+
+const INK_COLOR = '#0f172a';
+const LINE_WIDTH = 2.5;
+
+/**
+ * A canvas for signing with a finger or stylus (or the mouse). Pointer events
+ * cover touch, pen and mouse alike; `touch-action: none` keeps the page from
+ * scrolling while signing.
+ */
+export const SignaturePad: React.FC<SignaturePadProps> = ({ onChange, disabled = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null); // Set while a stroke is drawn
+  const [hasInk, setHasInk] = useState<boolean>(false);
+
+  // Matches the drawing buffer to the displayed size so strokes stay sharp on high-DPI tablets.
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const ratio = window.devicePixelRatio || 1;
+    const { width, height } = canvas.getBoundingClientRect();
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    context.scale(ratio, ratio);
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    context.lineWidth = LINE_WIDTH;
+    context.strokeStyle = INK_COLOR;
+    context.fillStyle = INK_COLOR;
+  }, []);
+
+  const pointOf = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    if (disabled || !context) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const point = pointOf(event);
+    lastPointRef.current = point;
+    // A dot, so a tap still leaves a mark
+    context.beginPath();
+    context.arc(point.x, point.y, LINE_WIDTH / 2, 0, Math.PI * 2);
+    context.fill();
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = event.currentTarget.getContext('2d');
+    const lastPoint = lastPointRef.current;
+    if (!lastPoint || !context) return;
+    const point = pointOf(event);
+    context.beginPath();
+    context.moveTo(lastPoint.x, lastPoint.y);
+    context.lineTo(point.x, point.y);
+    context.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    setHasInk(true);
+    onChange(event.currentTarget.toDataURL('image/png'));
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasInk(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="relative">
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className={`w-full h-36 bg-white rounded-md touch-none ${disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-crosshair'}`}
+          aria-label="Signature pad"
+        />
+        {!hasInk && (
+          <span className="absolute inset-0 flex items-center justify-center text-slate-400 text-sm pointer-events-none">
+            여기에 서명하세요 / Sign here
+          </span>
+        )}
+      </div>
+      <div className="flex justify-end">
+        <button
+          onClick={handleClear}
+          disabled={disabled || !hasInk}
+          className="flex items-center text-slate-300 hover:text-white disabled:text-slate-500 disabled:cursor-not-allowed"
+        >
+          <TrashIcon className="w-4 h-4 mr-1" />
+          지우기
+        </button>
+      </div>
+    </div>
+  );
+};
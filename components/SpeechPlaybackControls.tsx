@@ -0,0 +1,90 @@
+import React from 'react';
+import { Spinner } from './Spinner';
+import { PlayIcon, PauseIcon, StopIcon, BackwardIcon, ForwardIcon, ArrowPathIcon } from './Icons';
+
+interface SpeechPlaybackControlsProps {
+  isPaused: boolean;
+  isSynthesizing: boolean;
+  currentIndex: number | null;
+  segmentCount: number;
+  rate: number;
+  pitch: number;
+  onPause: () => void;
+  onResume: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onRepeat: () => void;
+  onStop: () => void;
+  onRateChange: (rate: number) => void;
+  onPitchChange: (pitch: number) => void;
+}
+
+const controlButtonClass = "p-2 rounded-md bg-slate-700 hover:bg-slate-600 text-slate-200 disabled:text-slate-500 disabled:cursor-not-allowed transition-colors duration-150";
+
+export const SpeechPlaybackControls: React.FC<SpeechPlaybackControlsProps> = ({
+  isPaused,
+  isSynthesizing,
+  currentIndex,
+  segmentCount,
+  rate,
+  pitch,
+  onPause,
+  onResume,
+  onPrevious,
+  onNext,
+  onRepeat,
+  onStop,
+  onRateChange,
+  onPitchChange,
+}) => {
+  const position = currentIndex ?? 0;
+
+  return (
+    <div className="p-3 bg-slate-700/50 border border-slate-600 rounded-md space-y-3" role="group" aria-label="Speech playback controls">
+      <div className="flex items-center justify-center gap-2">
+        <button onClick={onPrevious} disabled={position === 0} className={controlButtonClass} aria-label="이전 문장 (Previous)" title="이전 문장">
+          <BackwardIcon className="w-5 h-5" />
+        </button>
+        {isPaused ? (
+          <button onClick={onResume} className={controlButtonClass} aria-label="계속 (Resume)" title="계속">
+            <PlayIcon className="w-5 h-5" />
+          </button>
+        ) : (
+          <button onClick={onPause} className={controlButtonClass} aria-label="일시정지 (Pause)" title="일시정지">
+            {isSynthesizing ? <Spinner size="sm" color="text-slate-200" /> : <PauseIcon className="w-5 h-5" />}
+          </button>
+        )}
+        <button onClick={onRepeat} className={controlButtonClass} aria-label="현재 문장 반복 (Repeat)" title="현재 문장 반복">
+          <ArrowPathIcon className="w-5 h-5" />
+        </button>
+        <button onClick={onNext} disabled={position >= segmentCount - 1} className={controlButtonClass} aria-label="다음 문장 (Next)" title="다음 문장">
+          <ForwardIcon className="w-5 h-5" />
+        </button>
+        <button onClick={onStop} className={controlButtonClass} aria-label="멈추기 (Stop)" title="멈추기">
+          <StopIcon className="w-5 h-5 text-red-300" />
+        </button>
+        <span className="ml-2 text-xs text-slate-400 tabular-nums">{position + 1} / {segmentCount}</span>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-xs text-slate-300">
+        <label className="flex items-center gap-2">
+          <span className="w-16 flex-shrink-0">속도 {rate.toFixed(1)}×</span>
+          <input
+            type="range" min={0.5} max={1.5} step={0.1} value={rate}
+            onChange={e => onRateChange(Number(e.target.value))}
+            className="flex-grow accent-emerald-500"
+            aria-label="Speaking rate"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-16 flex-shrink-0">음높이 {pitch.toFixed(1)}</span>
+          <input
+            type="range" min={0.5} max={1.5} step={0.1} value={pitch}
+            onChange={e => onPitchChange(Number(e.target.value))}
+            className="flex-grow accent-emerald-500"
+            aria-label="Pitch"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,47 @@
+import React from 'react';
+import { StructureReport } from '../services/markdownStructureService';
+import { Spinner } from './Spinner';
+import { ExclamationTriangleIcon } from './Icons';
+
+interface StructureCheckSummaryProps {
+  report: StructureReport;
+  onRetry: () => void;
+  isRetrying: boolean;
+  disabled: boolean;
+}
+
+export const StructureCheckSummary: React.FC<StructureCheckSummaryProps> = ({ report, onRetry, isRetrying, disabled }) => {
+  if (report.mismatchCount === 0) return null;
+
+  return (
+    <div className="text-xs text-amber-200 bg-amber-900/30 border border-amber-600 rounded-md px-3 py-2 space-y-2">
+      <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+        <p className="flex items-start flex-grow">
+          <ExclamationTriangleIcon className="w-4 h-4 mr-2 flex-shrink-0" />
+          <span>
+            마크다운 구조 불일치 {report.mismatchCount}건 ({report.sections.length}개 구간). 자동 재번역 후에도 원문과 구조가 다릅니다.
+            {!report.aligned && ' 원문과 번역의 제목 수가 달라 문서 전체를 하나의 구간으로 비교했습니다.'}
+          </span>
+        </p>
+        <button
+          onClick={onRetry}
+          disabled={disabled || isRetrying}
+          className="flex-shrink-0 flex items-center justify-center bg-amber-600 hover:bg-amber-500 disabled:bg-amber-800 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-150"
+        >
+          {isRetrying && <span className="mr-2"><Spinner size="sm" color="text-white" /></span>}
+          {report.aligned ? '해당 구간 다시 번역' : '다시 번역'}
+        </button>
+      </div>
+      <ul className="space-y-1 pl-6">
+        {report.sections.map(section => (
+          <li key={section.index}>
+            <strong>{section.title || `구간 ${section.index + 1}`}</strong>
+            <ul className="list-disc pl-4 text-amber-100/90">
+              {section.mismatches.map((mismatch, index) => <li key={index}>{mismatch.detail}</li>)}
+            </ul>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+import React from 'react';
+import { TerminologyReport } from '../services/terminologyCheckService';
+import { Spinner } from './Spinner';
+import { ExclamationTriangleIcon, ShieldCheckIcon } from './Icons';
+
+interface TerminologyCheckSummaryProps {
+  report: TerminologyReport;
+  onFix: () => void;
+  isFixing: boolean;
+  disabled: boolean;
+}
+
+export const TerminologyCheckSummary: React.FC<TerminologyCheckSummaryProps> = ({ report, onFix, isFixing, disabled }) => {
+  if (report.checkedTermCount === 0 && report.uncheckedTerms.length === 0) return null;
+
+  const sectionCount = new Set(report.violations.map(violation => violation.sectionIndex)).size;
+  const uncheckedNote = report.uncheckedTerms.length > 0
+    ? ` ${report.uncheckedTerms.length}개 용어는 이 언어의 용어집 항목이 없어 확인하지 않았습니다.`
+    : '';
+
+  if (report.violations.length === 0) {
+    return (
+      <div className="flex items-center text-xs text-emerald-300 bg-emerald-900/30 border border-emerald-700 rounded-md px-3 py-2">
+        <ShieldCheckIcon className="w-4 h-4 mr-2 flex-shrink-0" />
+        용어 검사 통과: {report.checkedTermCount}개 용어가 용어집과 일치합니다.{uncheckedNote}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center gap-2 text-xs text-amber-200 bg-amber-900/30 border border-amber-600 rounded-md px-3 py-2">
+      <p className="flex items-start flex-grow">
+        <ExclamationTriangleIcon className="w-4 h-4 mr-2 flex-shrink-0" />
+        <span>
+          용어 불일치 {report.violations.length}건 ({sectionCount}개 구간, {report.checkedTermCount}개 용어 확인).
+          {!report.aligned && ' 원문과 번역의 구간 구조가 달라 문서 전체를 하나의 구간으로 검사했습니다.'}
+          {uncheckedNote}
+        </span>
+      </p>
+      <button
+        onClick={onFix}
+        disabled={disabled || isFixing}
+        className="flex-shrink-0 flex items-center justify-center bg-amber-600 hover:bg-amber-500 disabled:bg-amber-800 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-1.5 px-3 rounded-md transition-colors duration-150"
+      >
+        {isFixing && <span className="mr-2"><Spinner size="sm" color="text-white" /></span>}
+        {report.aligned ? '불일치 구간만 다시 번역' : '다시 번역'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import { LanguageTranslation, TranslationMemoryEntry } from '../types';
+import { alignMarkdownSections } from '../services/markdownSections';
+import { findExactMatch } from '../services/translationMemoryService';
+import { ChevronDownIcon, ShieldCheckIcon } from './Icons';
+
+interface TranslationMemoryReviewProps {
+  translation: LanguageTranslation; // A finished translation
+  entries: TranslationMemoryEntry[];
+  disabled: boolean;
+  onApprove: (sourceText: string, text: string) => void;
+  onRevoke: (sourceText: string) => void;
+  onClearUnapproved: () => void;
+}
+
+type SectionStatus = 'approved' | 'differs' | 'unapproved';
+
+const statusLabels: Record<SectionStatus, { text: string; className: string }> = {
+  approved: { text: '승인됨', className: 'bg-emerald-800 text-emerald-100' },
+  differs: { text: '승인된 번역과 다름', className: 'bg-amber-800 text-amber-100' },
+  unapproved: { text: '미승인', className: 'bg-slate-600 text-slate-200' },
+};
+
+const actionButtonClass = "text-xs bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-1 px-2 rounded-md transition-colors duration-150";
+
+/**
+ * Section-by-section review of a translation against the translation memory.
+ * Approving a section makes its translation win over any later machine
+ * translation of the same Korean text.
+ */
+export const TranslationMemoryReview: React.FC<TranslationMemoryReviewProps> = ({
+  translation,
+  entries,
+  disabled,
+  onApprove,
+  onRevoke,
+  onClearUnapproved,
+}) => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const { language } = translation;
+  const { source, translated, aligned } = alignMarkdownSections(translation.sourceText, translation.text);
+
+  const sections = source.map((sourceText, index) => {
+    const entry = findExactMatch(entries, sourceText, language.code);
+    const status: SectionStatus = entry?.approved
+      ? (entry.text === translated[index] ? 'approved' : 'differs')
+      : 'unapproved';
+    return { sourceText, text: translated[index], entry, status };
+  });
+  const approvedCount = sections.filter(section => section.status === 'approved').length;
+  const languageEntryCount = entries.filter(entry => entry.languageCode === language.code).length;
+
+  return (
+    <div className="p-3 bg-slate-700/50 border border-slate-600 rounded-md space-y-2 text-xs text-slate-300">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="w-full flex items-center justify-between text-left"
+        aria-expanded={isOpen}
+      >
+        <span className="font-semibold text-slate-200 flex items-center">
+          <ShieldCheckIcon className="w-4 h-4 mr-1.5" />
+          번역 메모리 검토 ({language.name})
+          <span className="ml-2 font-normal text-slate-400">
+            {aligned ? `${approvedCount} / ${sections.length} 구간 승인됨` : '구간 비교 불가'} · 저장된 {languageEntryCount}개
+          </span>
+        </span>
+        <ChevronDownIcon className={`w-4 h-4 text-slate-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <>
+          {!aligned ? (
+            <p className="text-amber-300">
+              번역의 구간(제목) 구조가 원문과 달라 구간별로 승인할 수 없습니다. 구조 검사 결과를 먼저 확인하세요.
+            </p>
+          ) : (
+            <ul className="max-h-[28rem] overflow-y-auto space-y-2">
+              {sections.map((section, index) => (
+                <li key={index} className="p-2 bg-slate-800 rounded-md ring-1 ring-slate-700 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-1.5 py-0.5 rounded ${statusLabels[section.status].className}`}>
+                      {statusLabels[section.status].text}
+                    </span>
+                    <span className="ml-auto flex gap-1.5">
+                      {section.status !== 'approved' && (
+                        <button onClick={() => onApprove(section.sourceText, section.text)} disabled={disabled} className={actionButtonClass}>
+                          {section.status === 'differs' ? '이 번역으로 승인' : '승인'}
+                        </button>
+                      )}
+                      {section.entry?.approved && (
+                        <button onClick={() => onRevoke(section.sourceText)} disabled={disabled} className={actionButtonClass}>
+                          승인 취소
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <div lang="ko" className="rendered-markdown" dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(section.sourceText) as string) }} />
+                    <div lang={language.code.split('-')[0]} className="rendered-markdown" dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(section.text) as string) }} />
+                  </div>
+                  {section.status === 'differs' && section.entry && (
+                    <div className="p-2 border-l-2 border-emerald-600 bg-slate-900/40">
+                      <p className="mb-1 text-emerald-300">승인된 번역:</p>
+                      <div className="rendered-markdown" dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(section.entry.text) as string) }} />
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex justify-end">
+            <button
+              onClick={() => {
+                if (window.confirm('승인되지 않은 번역 메모리를 모두 지울까요? 승인된 번역은 유지됩니다.')) onClearUnapproved();
+              }}
+              disabled={disabled}
+              className={actionButtonClass}
+            >
+              미승인 메모리 지우기
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
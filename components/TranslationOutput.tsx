@@ -0,0 +1,283 @@
+import React, { useRef } from 'react';
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import { LanguageTranslation } from '../types';
+import { Spinner } from './Spinner';
+import { Alert } from './Alert';
+import { TerminologyCheckSummary } from './TerminologyCheckSummary';
+import { TerminologyReport } from '../services/terminologyCheckService';
+import { StructureCheckSummary } from './StructureCheckSummary';
+import { StructureReport } from '../services/markdownStructureService';
+import { SectionPictograms } from '../services/pictogramService';
+import { translationKey, translationStyleLabel, translationStyleOf } from '../services/translationStyles';
+import { SafetyPictogram } from './SafetyPictograms';
+import { useSpeechHighlight } from '../hooks/useSpeechHighlight';
+import { PlayIcon, StopIcon, ExclamationTriangleIcon, ArrowPathIcon } from './Icons';
+
+interface TranslationOutputProps {
+  translations: LanguageTranslation[];
+  activeTranslationKey: string | null; // translationKey of the tab to show
+  onSelectTranslation: (key: string) => void;
+  sourceText: string; // Current editor content, to flag stale translations
+  isTtsSupported: boolean;
+  isSpeaking: boolean;
+  isSynthesizing: boolean;
+  isPaused: boolean;
+  speakingTranslationKey: string | null;
+  highlightedBlockIndex: number | null; // Rendered block being read aloud in speakingTranslationKey
+  playbackControls: React.ReactNode; // Shown under the TTS button while the active language is being read
+  audioExportControls: React.ReactNode; // Shown under the TTS button for a finished translation
+  onSpeakOrStop: (translation: LanguageTranslation) => void;
+  disableTts: boolean;
+  terminologyReport: TerminologyReport | null; // For the active language
+  onFixTerminology: (translation: LanguageTranslation) => void;
+  isFixingTerminology: boolean;
+  structureReport: StructureReport | null; // For the active language
+  onRepairStructure: (translation: LanguageTranslation) => void;
+  isRepairingStructure: boolean;
+  sectionPictograms: SectionPictograms | null; // Safety signs per section of the active language
+  onVerifyBackTranslation: (translation: LanguageTranslation) => void;
+  isVerifyingBackTranslation: boolean;
+  isBusy: boolean; // Another extraction or translation job is running
+}
+
+export const TranslationOutput: React.FC<TranslationOutputProps> = ({
+  translations,
+  activeTranslationKey,
+  onSelectTranslation,
+  sourceText,
+  isTtsSupported,
+  isSpeaking,
+  isSynthesizing,
+  isPaused,
+  speakingTranslationKey,
+  highlightedBlockIndex,
+  playbackControls,
+  audioExportControls,
+  onSpeakOrStop,
+  disableTts,
+  terminologyReport,
+  onFixTerminology,
+  isFixingTerminology,
+  structureReport,
+  onRepairStructure,
+  isRepairingStructure,
+  sectionPictograms,
+  onVerifyBackTranslation,
+  isVerifyingBackTranslation,
+  isBusy,
+}) => {
+  const renderedRef = useRef<HTMLDivElement>(null);
+  const active = translations.find(t => translationKey(t) === activeTranslationKey) || translations[0];
+  const activeHighlight = active && speakingTranslationKey === translationKey(active) ? highlightedBlockIndex : null;
+
+  useSpeechHighlight(renderedRef, activeHighlight, [active?.text, active?.status, terminologyReport, sectionPictograms]);
+
+  if (translations.length === 0) {
+    return (
+      <div className="flex-grow flex justify-center items-center h-[45rem] text-slate-400 italic">
+        Translated text (Markdown rendered) will appear here.
+      </div>
+    );
+  }
+
+  const isActiveSpeaking = speakingTranslationKey === translationKey(active) && (isSpeaking || isSynthesizing || isPaused);
+  const activeStyle = translationStyleOf(active);
+  const isStale = active.status === 'done' && active.sourceText !== sourceText;
+  const hasViolations = !!terminologyReport && terminologyReport.violations.length > 0;
+  const hasPictograms = !!sectionPictograms && sectionPictograms.lines.some(lines => lines.some(line => line.pictograms.length > 0));
+  const sections = terminologyReport?.sections || sectionPictograms?.sections || [];
+
+  let ttsButtonIcon;
+  let ttsButtonText;
+  if (isActiveSpeaking && isSynthesizing && !isSpeaking) {
+    ttsButtonIcon = <Spinner size="sm" />;
+    ttsButtonText = "Synthesizing...";
+  } else if (isActiveSpeaking) {
+    ttsButtonIcon = <StopIcon className="w-5 h-5 mr-2" />;
+    ttsButtonText = "멈추기";
+  } else {
+    ttsButtonIcon = <PlayIcon className="w-5 h-5 mr-2" />;
+    ttsButtonText = `번역 듣기 (${active.language.name})`;
+  }
+  if (!isTtsSupported) {
+    ttsButtonText = "TTS Not Supported";
+  }
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-1 border-b border-slate-700 pb-2" role="tablist" aria-label="Translated languages">
+        {translations.map(translation => {
+          const key = translationKey(translation);
+          const style = translationStyleOf(translation);
+          const isActive = key === translationKey(active);
+          return (
+            <button
+              key={key}
+              role="tab"
+              aria-selected={isActive}
+              onClick={() => onSelectTranslation(key)}
+              className={`flex items-center px-3 py-1.5 text-sm rounded-md transition-colors duration-150 ${
+                isActive ? 'bg-emerald-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
+              }`}
+            >
+              {translation.status === 'translating' && <span className="mr-1.5"><Spinner size="sm" color="text-slate-200" /></span>}
+              {translation.status === 'error' && <ExclamationTriangleIcon className="w-4 h-4 mr-1.5 text-red-300" />}
+              {translation.language.name}
+              {style !== 'standard' && (
+                <span className={`ml-1.5 px-1.5 rounded text-[11px] ${isActive ? 'bg-emerald-800' : 'bg-slate-600'}`}>{translationStyleLabel(style)}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      {activeStyle !== 'standard' && (
+        <p className="text-xs text-slate-400">
+          문체 / Style: <span className="font-semibold text-slate-200">{translationStyleLabel(activeStyle)}</span>
+          {activeStyle === 'key-points' ? ' — 원문 전체가 아닌 요약입니다. (A summary, not the full text.)' : ' — 원문을 쉬운 문장으로 다시 쓴 번역입니다.'}
+        </p>
+      )}
+
+      {isStale && (
+        <Alert message="원문이 번역 후 수정되었습니다. 최신 내용을 반영하려면 다시 번역하세요. (The source was edited after this translation was produced.)" type="warning" />
+      )}
+
+      {active.status === 'translating' && !active.text && (
+        <div className="flex-grow flex justify-center items-center h-[45rem]">
+          <Spinner />
+        </div>
+      )}
+      {active.status === 'translating' && active.text && (
+        // Streaming: sections appear in order as they are translated.
+        <div
+          className="flex-grow w-full h-[45rem] p-3 bg-slate-700/50 border border-slate-600 rounded-md text-slate-200 overflow-y-auto"
+          aria-busy="true"
+          aria-label={`Translating into ${active.language.name}`}
+        >
+          <div
+            className="rendered-markdown"
+            dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(active.text) as string) }}
+          />
+          <div className="flex items-center mt-3 text-xs text-slate-400">
+            <Spinner size="sm" color="text-slate-400" />
+            <span className="ml-2">
+              번역 중...
+              {active.chunkProgress && active.chunkProgress.total > 1 && ` (${active.chunkProgress.completed} / ${active.chunkProgress.total} 구간 완료)`}
+            </span>
+          </div>
+        </div>
+      )}
+      {active.status === 'error' && (
+        <div className="flex-grow flex justify-center items-center h-[45rem] text-red-400 p-3 bg-slate-700/50 border border-red-500 rounded-md">
+          Translation failed ({active.language.name}): {active.error}
+        </div>
+      )}
+      {active.status === 'done' && terminologyReport && (
+        <TerminologyCheckSummary
+          report={terminologyReport}
+          onFix={() => onFixTerminology(active)}
+          isFixing={isFixingTerminology}
+          disabled={isBusy}
+        />
+      )}
+      {active.status === 'done' && structureReport && (
+        <StructureCheckSummary
+          report={structureReport}
+          onRetry={() => onRepairStructure(active)}
+          isRetrying={isRepairingStructure}
+          disabled={isBusy}
+        />
+      )}
+      {active.status === 'done' && (
+        <div
+          ref={renderedRef}
+          className="flex-grow w-full h-[45rem] p-3 bg-slate-700/50 border border-slate-600 rounded-md text-slate-200 overflow-y-auto"
+          aria-live="polite"
+          aria-label={`Translated TBM Material, ${active.language.name} (Rendered Markdown)`}
+        >
+          {hasViolations || hasPictograms ? (
+            // Render section by section so sections that break the glossary can be flagged in place,
+            // and line by line so safety signs sit next to the line that mentions them.
+            sections.map((section, index) => {
+              const sectionViolations = terminologyReport?.violations.filter(violation => violation.sectionIndex === index) || [];
+              const lines = hasPictograms ? sectionPictograms?.lines[index] : undefined;
+              return (
+                <div
+                  key={index}
+                  className={sectionViolations.length > 0 ? 'my-2 p-2 rounded-md ring-2 ring-amber-500 bg-amber-900/20' : ''}
+                >
+                  {sectionViolations.length > 0 && (
+                    <ul className="mb-2 text-xs text-amber-200 space-y-0.5">
+                      {sectionViolations.map(violation => (
+                        <li key={violation.term.id} className="flex items-start">
+                          <ExclamationTriangleIcon className="w-3.5 h-3.5 mr-1 mt-0.5 flex-shrink-0" />
+                          <span>
+                            <strong>{violation.term.term_ko}</strong> → expected "{violation.expected.join('" / "')}"
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {lines ? (
+                    lines.map((line, lineIndex) => (
+                      <div key={lineIndex} className="flex gap-3">
+                        <div className="flex-shrink-0 w-10 pt-1 flex flex-col items-center gap-1.5" aria-label="Safety signs">
+                          {line.pictograms.map(id => <SafetyPictogram key={id} id={id} />)}
+                        </div>
+                        <div
+                          className="rendered-markdown flex-grow min-w-0"
+                          dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(line.text) as string) }}
+                        />
+                      </div>
+                    ))
+                  ) : (
+                    <div
+                      className="rendered-markdown"
+                      dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(section) as string) }}
+                    />
+                  )}
+                </div>
+              );
+            })
+          ) : (
+            <div
+              className="rendered-markdown"
+              dangerouslySetInnerHTML={{ __html: DOMPurify.sanitize(marked.parse(active.text) as string) }}
+            />
+          )}
+        </div>
+      )}
+
+      {active.status === 'done' && (
+        <button
+          onClick={() => onVerifyBackTranslation(active)}
+          disabled={isBusy || isVerifyingBackTranslation || !active.text.trim()}
+          className="w-full bg-slate-600 hover:bg-slate-500 disabled:bg-slate-700 disabled:text-slate-400 disabled:cursor-not-allowed text-white font-semibold py-2 px-6 rounded-lg shadow-md transition-colors duration-150 flex items-center justify-center"
+          aria-label={`Verify the ${active.language.name} translation by back-translating it into Korean`}
+        >
+          {isVerifyingBackTranslation
+            ? <span className="mr-2"><Spinner size="sm" color="text-white" /></span>
+            : <ArrowPathIcon className="w-5 h-5 mr-2" />}
+          {isVerifyingBackTranslation ? '역번역 중...' : '역번역으로 검증'}
+        </button>
+      )}
+
+      <button
+        onClick={() => onSpeakOrStop(active)}
+        disabled={!isTtsSupported || disableTts || active.status !== 'done' || !active.text.trim()}
+        className={`w-full text-white font-semibold py-3 px-6 rounded-lg shadow-md transition-colors duration-150 flex items-center justify-center disabled:cursor-not-allowed disabled:text-slate-400 ${
+          isActiveSpeaking
+            ? 'bg-red-600 hover:bg-red-500 disabled:bg-red-800'
+            : 'bg-emerald-600 hover:bg-emerald-500 disabled:bg-emerald-800'
+        }`}
+        aria-label={isActiveSpeaking ? (isSynthesizing ? "Synthesizing audio" : "멈추기") : "번역 듣기"}
+      >
+        {isTtsSupported ? ttsButtonIcon : <StopIcon className="w-5 h-5 mr-2 text-slate-500" />}
+        {ttsButtonText}
+      </button>
+      {isActiveSpeaking && playbackControls}
+      {active.status === 'done' && audioExportControls}
+    </>
+  );
+};
@@ -1,7 +1,86 @@
-import { TargetLanguage } from './types';
+import { TargetLanguage, LawTerm, PictogramId, TranslationStyle } from './types';
 
 export const GEMINI_MODEL_NAME = 'gemini-2.5-flash-preview-04-17';
 
+// Local AI proxy (server/): the browser calls its /api routes (services/aiProxyApi.ts) and
+// it holds the Gemini key. Each device (client address) may make this many AI
+// requests per window; a 20-page scanned PDF needs about 25 including translation.
+export const AI_PROXY_DEFAULT_PORT = 8790;
+export const AI_PROXY_RATE_LIMIT_WINDOW_MS = 60_000;
+export const AI_PROXY_RATE_LIMIT_MAX_REQUESTS = 120;
+export const AI_PROXY_MAX_BODY_BYTES = 15 * 1024 * 1024;
+
+// Simulated response time of the offline mock AI provider (services/mockAiProvider.ts)
+// when it is picked in the settings, so progress indicators can be seen in demos.
+export const MOCK_AI_LATENCY_MS = 400;
+
+// PDF ingestion: how many pages are OCR'd at once, and how often a transient
+// Gemini error (rate limit, overload) is retried before the page is reported as failed.
+export const PDF_PAGE_CONCURRENCY = 3;
+export const OCR_MAX_ATTEMPTS = 4;
+export const OCR_RETRY_BASE_DELAY_MS = 1500;
+
+// Multi-language translation runs every language in parallel; each one retries
+// transient errors independently.
+export const TRANSLATION_MAX_ATTEMPTS = 3;
+export const TRANSLATION_RETRY_BASE_DELAY_MS = 2000;
+
+// Comprehension quiz (services/quizService.ts): how many multiple-choice
+// questions are written about a briefing, and the range the supervisor can pick.
+export const QUIZ_DEFAULT_QUESTION_COUNT = 4;
+export const QUIZ_MIN_QUESTIONS = 3;
+export const QUIZ_MAX_QUESTIONS = 5;
+
+// Long documents are translated in chunks of about this many characters, split
+// on section boundaries. Each language translates this many chunks at a time.
+export const TRANSLATION_CHUNK_MAX_CHARS = 3000;
+export const TRANSLATION_CHUNK_CONCURRENCY = 2;
+
+// Sections whose translated Markdown structure (headings, list items, tables,
+// numbers) differs from the source are re-translated this many times.
+export const STRUCTURE_REPAIR_ROUNDS = 1;
+
+// Translation memory (services/translationMemoryService.ts): sections whose
+// normalized Korean matches a remembered one are reused without an API call;
+// similar ones (character-bigram similarity at or above the threshold) are given
+// to the model as references. Beyond the entry limit the oldest unapproved
+// entries are dropped.
+export const TRANSLATION_MEMORY_FUZZY_THRESHOLD = 0.7;
+export const TRANSLATION_MEMORY_MAX_REFERENCES = 3;
+export const TRANSLATION_MEMORY_MAX_ENTRIES = 2000;
+
+// Google Cloud Text-to-Speech, used for languages the browser has no voice for
+// (see services/gcpTtsService.ts). The API accepts at most 5000 bytes of input
+// per request; longer text is split below that.
+export const GCP_TTS_DEFAULT_ENDPOINT = 'https://texttospeech.googleapis.com/v1';
+export const GCP_TTS_MAX_INPUT_BYTES = 4500;
+
+// Audio export (services/audioExportService.ts): silence between sections and
+// after the Korean original when it is included, one sample rate for every
+// voice so clips can be joined, and how many synthesized clips are kept so
+// re-exporting unchanged text does not synthesize it again.
+export const AUDIO_EXPORT_SECTION_PAUSE_MS = 1500;
+export const AUDIO_EXPORT_ORIGINAL_PAUSE_MS = 700;
+export const AUDIO_EXPORT_SAMPLE_RATE_HZ = 24000;
+export const AUDIO_EXPORT_CACHE_LIMIT = 300;
+export const AUDIO_EXPORT_MAX_ATTEMPTS = 3;
+export const AUDIO_EXPORT_RETRY_BASE_DELAY_MS = 2000;
+
+// Briefing history (services/briefingHistoryService.ts): briefings not touched
+// for longer than the chosen number of days are deleted when the app opens.
+// 0 keeps them forever.
+export const HISTORY_RETENTION_DAY_OPTIONS = [7, 30, 90, 365, 0];
+export const HISTORY_DEFAULT_RETENTION_DAYS = 90;
+// How long the editor and translations must stay unchanged before they are saved.
+export const HISTORY_AUTOSAVE_DELAY_MS = 1000;
+
+// Attendance sign-off (services/attendanceService.ts): trades offered as
+// suggestions when a worker is added; any other trade can be typed in.
+export const ATTENDANCE_TRADE_SUGGESTIONS = [
+  '보통인부', '형틀목공', '철근공', '콘크리트공', '비계공', '용접공', '전기공', '배관공',
+  '도장공', '조적공', '미장공', '방수공', '타일공', '신호수', '장비 운전원',
+];
+
 export const supportedLanguages: TargetLanguage[] = [
   { code: 'en-US', name: 'English (US)' },
   { code: 'es-ES', name: 'Spanish (Spain)' },
@@ -20,29 +99,68 @@ export const supportedLanguages: TargetLanguage[] = [
   { code: 'km-KH', name: 'Khmer (Cambodian)' }, // TTS might be limited
 ];
 
-// Simulated "law data" / knowledge base for construction terms
+// Seed for the site glossary (see services/glossaryService.ts). Users can edit,
+// import and export it; the edited copy is kept in localStorage.
 // In a real application, this would come from open.law.go.kr or similar.
-export const KOREAN_CONSTRUCTION_TERMS: { [key: string]: string } = {
-  "안전모": "safety helmet",
-  "안전화": "safety shoes",
-  "안전벨트": "safety harness / safety belt",
-  "작업계획서": "work plan / method statement",
-  "위험성 평가": "risk assessment",
-  "안전수칙": "safety rules / safety regulations",
-  "개인보호구": "Personal Protective Equipment (PPE)",
-  "비계": "scaffolding",
-  "추락 방지망": "fall arrest net / safety net",
-  "안전 난간": "safety railing / guardrail",
-  "작업 발판": "work platform / footing",
-  "밀폐 공간": "confined space",
-  "유해물질": "hazardous substance",
-  "응급처치": "first aid",
-  "소화기": "fire extinguisher",
-  "대피로": "evacuation route / emergency exit",
-  "지게차": "forklift",
-  "크레인": "crane",
-  "TBM": "Toolbox Meeting (TBM)",
-  "작업중지권": "right to stop work (if unsafe)",
-  "안전관리자": "safety manager",
-  "산업안전보건법": "Occupational Safety and Health Act"
+const seedTerm = (term_ko: string, term_en: string, description?: string): LawTerm => ({
+  id: `default-${term_ko}`,
+  term_ko,
+  term_en,
+  targets: {},
+  description,
+  do_not_translate: false,
+});
+
+export const DEFAULT_GLOSSARY: LawTerm[] = [
+  seedTerm("안전모", "safety helmet"),
+  seedTerm("안전화", "safety shoes"),
+  seedTerm("안전벨트", "safety harness / safety belt"),
+  seedTerm("안전대", "safety harness (fall arrest)"),
+  seedTerm("작업계획서", "work plan / method statement"),
+  seedTerm("위험성 평가", "risk assessment"),
+  seedTerm("안전수칙", "safety rules / safety regulations"),
+  seedTerm("개인보호구", "Personal Protective Equipment (PPE)"),
+  seedTerm("비계", "scaffolding"),
+  seedTerm("추락 방지망", "fall arrest net / safety net"),
+  seedTerm("안전 난간", "safety railing / guardrail"),
+  seedTerm("작업 발판", "work platform / footing"),
+  seedTerm("밀폐 공간", "confined space"),
+  seedTerm("유해물질", "hazardous substance"),
+  seedTerm("응급처치", "first aid"),
+  seedTerm("소화기", "fire extinguisher"),
+  seedTerm("대피로", "evacuation route / emergency exit"),
+  seedTerm("지게차", "forklift"),
+  seedTerm("크레인", "crane"),
+  seedTerm("TBM", "Toolbox Meeting (TBM)"),
+  seedTerm("작업중지권", "right to stop work (if unsafe)", "Any worker may stop work when there is an imminent danger."),
+  seedTerm("안전관리자", "safety manager"),
+  seedTerm("산업안전보건법", "Occupational Safety and Health Act"),
+];
+
+// Safety sign shown for a glossary term (matched on its Korean term, spaces
+// ignored). Terms a site adds to its glossary pick up a sign when listed here.
+export const TERM_PICTOGRAMS: Record<string, PictogramId> = {
+  "안전모": 'helmet',
+  "안전화": 'safety-shoes',
+  "안전벨트": 'harness',
+  "안전대": 'harness',
+  "비계": 'fall-hazard',
+  "추락 방지망": 'fall-hazard',
+  "안전 난간": 'fall-hazard',
+  "작업 발판": 'fall-hazard',
+  "밀폐 공간": 'confined-space',
+  "유해물질": 'hazardous-substance',
+  "지게차": 'forklift',
+  "크레인": 'overhead-load',
+  "소화기": 'fire-extinguisher',
+  "응급처치": 'first-aid',
+  "대피로": 'evacuation',
 };
+
+// Output styles offered next to the translate button, in tab order.
+export const TRANSLATION_STYLES: { id: TranslationStyle; label: string; shortLabel: string; description: string }[] = [
+  { id: 'standard', label: '표준 / Standard', shortLabel: '표준', description: '원문의 내용과 구성을 그대로 번역합니다.' },
+  { id: 'easy-read', label: '쉬운 문장 / Easy-read', shortLabel: '쉬운 문장', description: '짧은 명령문으로, 한 줄에 지시 하나씩, 관용구 없이 씁니다.' },
+  { id: 'key-points', label: '핵심 요약 / Key points', shortLabel: '핵심 요약', description: '반드시 할 일과 하지 말 일을 5가지로 요약합니다.' },
+];
+export const KEY_POINTS_COUNT = 5;
@@ -0,0 +1,21 @@
+import { useState, useCallback } from 'react';
+import { AiProviderSettings, loadAiProviderSettings, setAiProviderSettings, getAiProvider } from '../services/aiService';
+
+interface AiProviderSettingsHook {
+  settings: AiProviderSettings;
+  providerLabel: string; // The provider AI calls go to now
+  updateSettings: (settings: AiProviderSettings) => void; // Applies to the next AI call
+}
+
+export const useAiProviderSettings = (): AiProviderSettingsHook => {
+  const [settings, setSettings] = useState<AiProviderSettings>(loadAiProviderSettings);
+  const [providerLabel, setProviderLabel] = useState<string>(() => getAiProvider().label);
+
+  const updateSettings = useCallback((next: AiProviderSettings) => {
+    setAiProviderSettings(next);
+    setSettings(next);
+    setProviderLabel(getAiProvider().label);
+  }, []);
+
+  return { settings, providerLabel, updateSettings };
+};
@@ -0,0 +1,79 @@
+import { useState, useCallback, useEffect } from 'react';
+import { BriefingRecord } from '../types';
+import {
+  isHistorySupported,
+  listBriefings,
+  saveBriefing,
+  deleteBriefing,
+  purgeExpiredBriefings,
+  loadRetentionDays,
+  saveRetentionDays,
+} from '../services/briefingHistoryService';
+
+interface BriefingHistoryHook {
+  briefings: BriefingRecord[]; // Most recently updated first
+  isSupported: boolean;
+  isLoaded: boolean; // The first listing finished (or failed)
+  historyError: string | null;
+  retentionDays: number; // 0 keeps briefings forever
+  setRetentionDays: (days: number) => void; // Purges right away under the new setting
+  save: (record: BriefingRecord) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+export const useBriefingHistory = (): BriefingHistoryHook => {
+  const isSupported = isHistorySupported();
+  const [briefings, setBriefings] = useState<BriefingRecord[]>([]);
+  const [isLoaded, setIsLoaded] = useState<boolean>(!isSupported);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [retentionDays, setRetentionDaysState] = useState<number>(loadRetentionDays);
+
+  useEffect(() => {
+    if (!isSupported) return;
+    let cancelled = false;
+    purgeExpiredBriefings(retentionDays)
+      .then(() => listBriefings())
+      .then(records => {
+        if (!cancelled) setBriefings(records);
+      })
+      .catch(err => {
+        console.error('Could not load the briefing history:', err);
+        if (!cancelled) setHistoryError('브리핑 기록을 불러올 수 없습니다. (Could not load the briefing history.)');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isSupported, retentionDays]);
+
+  const setRetentionDays = useCallback((days: number) => {
+    saveRetentionDays(days);
+    setRetentionDaysState(days);
+  }, []);
+
+  const save = useCallback(async (record: BriefingRecord) => {
+    if (!isSupported) return;
+    try {
+      await saveBriefing(record);
+      setBriefings(prev => [record, ...prev.filter(existing => existing.id !== record.id)]);
+      setHistoryError(null);
+    } catch (err) {
+      console.error('Could not save the briefing:', err);
+      setHistoryError('브리핑을 기록에 저장할 수 없습니다. 브라우저 저장 공간을 확인하세요. (Could not save the briefing.)');
+    }
+  }, [isSupported]);
+
+  const remove = useCallback(async (id: string) => {
+    try {
+      await deleteBriefing(id);
+      setBriefings(prev => prev.filter(record => record.id !== id));
+    } catch (err) {
+      console.error('Could not delete the briefing:', err);
+      setHistoryError('브리핑을 삭제할 수 없습니다. (Could not delete the briefing.)');
+    }
+  }, []);
+
+  return { briefings, isSupported, isLoaded, historyError, retentionDays, setRetentionDays, save, remove };
+};
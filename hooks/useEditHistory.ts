@@ -0,0 +1,80 @@
+import { useState, useCallback, useRef } from 'react';
+
+interface EditHistoryHook {
+  value: string;
+  setValue: (next: string, options?: { coalesce?: boolean }) => void; // Records an undoable edit
+  reset: (next: string) => void; // Replaces the value and clears undo/redo history
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+interface HistoryState {
+  past: string[];
+  present: string;
+  future: string[];
+}
+
+// Keystrokes closer together than this are merged into a single undo step.
+const COALESCE_WINDOW_MS = 1000;
+const MAX_HISTORY_ENTRIES = 200;
+
+export const useEditHistory = (initialValue: string): EditHistoryHook => {
+  const [history, setHistory] = useState<HistoryState>({ past: [], present: initialValue, future: [] });
+  const lastEditAtRef = useRef<number>(0);
+
+  const setValue = useCallback((next: string, options: { coalesce?: boolean } = {}) => {
+    const { coalesce = true } = options;
+    const now = Date.now();
+    const mergeWithPrevious = coalesce && now - lastEditAtRef.current < COALESCE_WINDOW_MS;
+    lastEditAtRef.current = coalesce ? now : 0;
+
+    setHistory(prev => {
+      if (next === prev.present) return prev;
+      const past = mergeWithPrevious && prev.past.length > 0
+        ? prev.past
+        : [...prev.past, prev.present].slice(-MAX_HISTORY_ENTRIES);
+      return { past, present: next, future: [] };
+    });
+  }, []);
+
+  const reset = useCallback((next: string) => {
+    lastEditAtRef.current = 0;
+    setHistory({ past: [], present: next, future: [] });
+  }, []);
+
+  const undo = useCallback(() => {
+    lastEditAtRef.current = 0;
+    setHistory(prev => {
+      if (prev.past.length === 0) return prev;
+      return {
+        past: prev.past.slice(0, -1),
+        present: prev.past[prev.past.length - 1],
+        future: [prev.present, ...prev.future],
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    lastEditAtRef.current = 0;
+    setHistory(prev => {
+      if (prev.future.length === 0) return prev;
+      return {
+        past: [...prev.past, prev.present],
+        present: prev.future[0],
+        future: prev.future.slice(1),
+      };
+    });
+  }, []);
+
+  return {
+    value: history.present,
+    setValue,
+    reset,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+};
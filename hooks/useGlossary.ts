@@ -0,0 +1,46 @@
+import { useState, useCallback, useEffect } from 'react';
+import { LawTerm } from '../types';
+import { DEFAULT_GLOSSARY } from '../constants';
+import { loadGlossary, saveGlossary, mergeGlossary, createTermId } from '../services/glossaryService';
+
+interface GlossaryHook {
+  terms: LawTerm[];
+  addTerm: () => string; // Returns the id of the new, empty entry
+  updateTerm: (id: string, changes: Partial<Omit<LawTerm, 'id'>>) => void;
+  removeTerm: (id: string) => void;
+  importTerms: (imported: LawTerm[]) => void;
+  resetToDefault: () => void;
+}
+
+export const useGlossary = (): GlossaryHook => {
+  const [terms, setTerms] = useState<LawTerm[]>(loadGlossary);
+
+  // Persist every change so the glossary survives reloads.
+  useEffect(() => {
+    saveGlossary(terms);
+  }, [terms]);
+
+  const addTerm = useCallback(() => {
+    const id = createTermId();
+    setTerms(prev => [{ id, term_ko: '', term_en: '', targets: {}, do_not_translate: false }, ...prev]);
+    return id;
+  }, []);
+
+  const updateTerm = useCallback((id: string, changes: Partial<Omit<LawTerm, 'id'>>) => {
+    setTerms(prev => prev.map(term => term.id === id ? { ...term, ...changes } : term));
+  }, []);
+
+  const removeTerm = useCallback((id: string) => {
+    setTerms(prev => prev.filter(term => term.id !== id));
+  }, []);
+
+  const importTerms = useCallback((imported: LawTerm[]) => {
+    setTerms(prev => mergeGlossary(prev, imported));
+  }, []);
+
+  const resetToDefault = useCallback(() => {
+    setTerms(DEFAULT_GLOSSARY);
+  }, []);
+
+  return { terms, addTerm, updateTerm, removeTerm, importTerms, resetToDefault };
+};
@@ -0,0 +1,26 @@
+import { RefObject, useEffect } from 'react';
+import { getSpeechBlocks } from '../services/speechSegments';
+
+/**
+ * Marks the rendered Markdown block being read aloud with `speech-active` and
+ * scrolls it into view. Blocks are found the same way the speech segments were
+ * built (services/speechSegments.ts), so the indexes agree. `renderKey` should
+ * change whenever the rendered content does, so the mark is reapplied.
+ */
+export const useSpeechHighlight = (
+  containerRef: RefObject<HTMLElement | null>,
+  blockIndex: number | null,
+  renderKey: unknown
+): void => {
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    container.querySelectorAll('.speech-active').forEach(element => element.classList.remove('speech-active'));
+    if (blockIndex === null) return;
+    const block = getSpeechBlocks(Array.from(container.querySelectorAll('.rendered-markdown')))[blockIndex];
+    if (block) {
+      block.element.classList.add('speech-active');
+      block.element.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }
+  }, [containerRef, blockIndex, renderKey]);
+};
@@ -1,164 +1,220 @@
 
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
+import { TtsEngine, TtsEngineId, selectTtsEngine } from '../services/ttsEngine';
+import { createWebSpeechTtsEngine } from '../services/webSpeechTtsEngine';
+import { createGcpTtsEngine } from '../services/gcpTtsService';
+import { SpeechSegment } from '../services/speechSegments';
 
 interface TTSHook {
-  speak: (text: string, languageCode: string) => void;
+  play: (segments: SpeechSegment[], languageCode: string) => void; // Starts from the first segment
   cancel: () => void;
-  isSpeaking: boolean;
-  isSynthesizing: boolean; // Represents the phase before speech starts or an error for UI feedback
+  pause: () => void;
+  resume: () => void; // Restarts the paused segment from its beginning
+  next: () => void;
+  previous: () => void;
+  repeat: () => void; // Replays the current segment
+  isSpeaking: boolean; // A playback session is running (not paused)
+  isPaused: boolean;
+  isSynthesizing: boolean; // Represents the phase before speech starts (voice lookup, cloud synthesis)
+  currentSegment: SpeechSegment | null;
+  currentSegmentIndex: number | null;
+  segmentCount: number;
+  rate: number;
+  pitch: number;
+  setRate: (rate: number) => void; // Applies from the next segment
+  setPitch: (pitch: number) => void;
   ttsError: string | null;
   isSupported: boolean;
+  engineId: TtsEngineId | null; // Engine used for the current or last playback
 }
 
-export const useTTS = (): TTSHook => {
+interface PlaybackSession {
+  segments: SpeechSegment[];
+  languageCode: string;
+  engine: TtsEngine | null; // Chosen on first use, then kept for the whole session
+  triedEngines: Set<TtsEngineId>;
+  index: number;
+}
+
+/**
+ * Reads text aloud one segment (sentence, list item, table row) at a time, so
+ * playback can be paused, skipped and repeated per segment and the current
+ * segment highlighted. Each session uses the first engine with a voice for
+ * the language: the browser's Web Speech voices, then Google Cloud TTS when
+ * configured. If an engine fails, the next available one takes over from the
+ * failed segment. `engines` can be overridden for tests.
+ */
+export const useTTS = (
+  engines?: TtsEngine[]
+): TTSHook => {
   const [isSpeaking, setIsSpeaking] = useState<boolean>(false);
+  const [isPaused, setIsPaused] = useState<boolean>(false);
   const [isSynthesizing, setIsSynthesizing] = useState<boolean>(false);
   const [ttsError, setTtsError] = useState<string | null>(null);
-  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
-  const [isSupported, setIsSupported] = useState<boolean>(true);
-  
-  // Using a ref for the utterance to manage it across re-renders and in event handlers
-  const currentUtteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
+  const [engineId, setEngineId] = useState<TtsEngineId | null>(null);
+  const [currentSegmentIndex, setCurrentSegmentIndex] = useState<number | null>(null);
+  const [segmentCount, setSegmentCount] = useState<number>(0);
+  const [rate, setRateState] = useState<number>(1);
+  const [pitch, setPitchState] = useState<number>(1);
+
+  const ttsEngines = useMemo(
+    () => engines || [createWebSpeechTtsEngine(), createGcpTtsEngine()],
+    [engines]
+  );
+  const isSupported = useMemo(() => ttsEngines.some(engine => engine.isAvailable()), [ttsEngines]);
+
+  const sessionRef = useRef<PlaybackSession | null>(null);
+  // The segment run in flight; aborting it stops whichever engine is speaking
+  const runControllerRef = useRef<AbortController | null>(null);
+  // Read when each segment starts, so changes apply without restarting playback
+  const voiceSettingsRef = useRef({ rate: 1, pitch: 1 });
 
   useEffect(() => {
-    if (!('speechSynthesis' in window)) {
-      setTtsError("Web Speech API (Text-to-Speech) is not supported by this browser.");
-      setIsSupported(false);
-      return;
+    if (!isSupported) {
+      setTtsError("Text-to-Speech is not supported by this browser, and no cloud TTS is configured.");
     }
-    setIsSupported(true);
-
-    const loadVoices = () => {
-      const availableVoices = window.speechSynthesis.getVoices();
-      if (availableVoices.length > 0) {
-        setVoices(availableVoices);
-      }
-    };
-
-    loadVoices(); // Initial attempt
-    // Voices list might load asynchronously
-    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => runControllerRef.current?.abort(); // Stop any speech on unmount
+  }, [isSupported]);
 
-    return () => {
-      window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
-      if (window.speechSynthesis.speaking) {
-        window.speechSynthesis.cancel(); // Cancel any speech on unmount
-      }
-    };
+  const stopSession = useCallback(() => {
+    runControllerRef.current?.abort();
+    runControllerRef.current = null;
+    sessionRef.current = null;
+    setIsSpeaking(false);
+    setIsPaused(false);
+    setIsSynthesizing(false);
+    setCurrentSegmentIndex(null);
+    setSegmentCount(0);
   }, []);
 
-  const speak = useCallback((text: string, languageCode: string) => {
-    if (!isSupported || !window.speechSynthesis) {
-      setTtsError("Text-to-Speech is not supported or initialized.");
-      return;
-    }
-
-    // Cancel any ongoing speech first
-    if (window.speechSynthesis.speaking || window.speechSynthesis.pending) {
-      window.speechSynthesis.cancel();
-    }
-    // Ensure states are reset from previous run if cancel() wasn't explicitly called by user
-    setIsSpeaking(false); 
-
+  // Speaks the session's segments from `startIndex` to the end, unless another run replaces this one.
+  const runFrom = useCallback(async (startIndex: number) => {
+    const session = sessionRef.current;
+    if (!session) return;
 
-    setIsSynthesizing(true);
+    runControllerRef.current?.abort();
+    const controller = new AbortController();
+    runControllerRef.current = controller;
+    const { signal } = controller;
+    setIsPaused(false);
     setTtsError(null);
 
-    const utterance = new SpeechSynthesisUtterance(text);
-    currentUtteranceRef.current = utterance; // Store reference
-
-    // Voice selection logic
-    let selectedVoice = null;
-    // Try exact match (e.g., "en-US")
-    const exactLangMatchVoices = voices.filter(voice => voice.lang === languageCode);
-    if (exactLangMatchVoices.length > 0) {
-      selectedVoice = exactLangMatchVoices.find(v => v.default) || exactLangMatchVoices[0];
-    }
-
-    // Try base language match (e.g., "en" for "en-US")
-    if (!selectedVoice) {
-      const baseLanguage = languageCode.split('-')[0];
-      const baseLangMatchVoices = voices.filter(voice => voice.lang.startsWith(baseLanguage));
-      if (baseLangMatchVoices.length > 0) {
-        selectedVoice = baseLangMatchVoices.find(v => v.default) || baseLangMatchVoices[0];
+    for (let index = startIndex; index < session.segments.length; index++) {
+      session.index = index;
+      setCurrentSegmentIndex(index);
+      setIsSynthesizing(true);
+
+      let spoken = false;
+      while (!spoken) {
+        if (!session.engine) session.engine = await selectTtsEngine(ttsEngines, session.languageCode);
+        if (signal.aborted) return;
+        const engine = session.engine;
+        if (!engine) {
+          setTtsError("No text-to-speech engine is available.");
+          stopSession();
+          return;
+        }
+        session.triedEngines.add(engine.id);
+        setEngineId(engine.id);
+
+        try {
+          await engine.speak(session.segments[index].text, session.languageCode, {
+            signal,
+            rate: voiceSettingsRef.current.rate,
+            pitch: voiceSettingsRef.current.pitch,
+            onStart: () => {
+              if (signal.aborted) return;
+              setIsSpeaking(true);
+              setIsSynthesizing(false);
+            },
+          });
+          spoken = true;
+        } catch (err: any) {
+          if (signal.aborted) return;
+          console.error(`${engine.label} failed for ${session.languageCode}:`, err);
+          const fallback = ttsEngines.find(e => e.isAvailable() && !session.triedEngines.has(e.id)) || null;
+          if (!fallback) {
+            setTtsError(err?.message || 'Speech playback failed.');
+            stopSession();
+            return;
+          }
+          console.warn(`Falling back to ${fallback.label} for ${session.languageCode}.`);
+          session.engine = fallback;
+        }
       }
     }
-    
-    // Fallback to any default voice if still no specific match, or first available
-    if (!selectedVoice && voices.length > 0) {
-        selectedVoice = voices.find(v => v.default) || voices[0];
-        console.warn(`No specific voice for ${languageCode}. Using fallback: ${selectedVoice?.name} (${selectedVoice?.lang})`);
-    }
-    
-    if (selectedVoice) {
-      utterance.voice = selectedVoice;
-      utterance.lang = selectedVoice.lang; // Use the voice's actual lang
-    } else {
-      // If no voices are loaded at all, utterance.lang can be set to the desired languageCode,
-      // and the browser will attempt to use a default for that language if available.
-      utterance.lang = languageCode;
-      if (voices.length === 0) {
-          console.warn("No voices loaded. Relying on browser default for language code: " + languageCode);
-      } else {
-          console.warn("Could not find a suitable voice for " + languageCode + ". Using browser default.");
-      }
+
+    if (runControllerRef.current === controller) stopSession();
+  }, [ttsEngines, stopSession]);
+
+  const play = useCallback((segments: SpeechSegment[], languageCode: string) => {
+    if (!isSupported) {
+      setTtsError("Text-to-Speech is not supported or initialized.");
+      return;
     }
-    
-    utterance.onstart = () => {
-      setIsSpeaking(true);
-      setIsSynthesizing(false);
-    };
-
-    utterance.onend = () => {
-      setIsSpeaking(false);
-      setIsSynthesizing(false);
-      if (currentUtteranceRef.current === utterance) { // Check if it's the current utterance
-          currentUtteranceRef.current = null;
-      }
-    };
-
-    utterance.onerror = (event) => {
-      console.error('Speech synthesis error:', event.error, event);
-      setTtsError(`Speech error: ${event.error}`);
-      setIsSpeaking(false);
-      setIsSynthesizing(false);
-      if (currentUtteranceRef.current === utterance) {
-          currentUtteranceRef.current = null;
-      }
-    };
-    
-    // Handle pause and resume if needed, for now, focus on start/end/error
-    utterance.onpause = () => {
-        // The 'pause' event indicates speech is paused.
-        // Properties like currentTime and duration are not available on SpeechSynthesisUtterance.
-        setIsSpeaking(false);
-        // setIsSynthesizing(false); // Should already be false if speaking started
-    };
-    utterance.onresume = () => {
-        setIsSpeaking(true);
-    };
-
-    window.speechSynthesis.speak(utterance);
-
-  }, [voices, isSupported]);
-
-  const cancel = useCallback(() => {
-    if (!isSupported || !window.speechSynthesis) return;
-    
-    window.speechSynthesis.cancel();
-    // The 'onend' or 'onerror' of the utterance should handle state changes.
-    // However, ensure states are reset immediately for responsiveness.
+    stopSession(); // Stop any ongoing speech first
+    if (segments.length === 0) return;
+
+    sessionRef.current = { segments, languageCode, engine: null, triedEngines: new Set(), index: 0 };
+    setSegmentCount(segments.length);
+    setIsSpeaking(true);
+    runFrom(0);
+  }, [isSupported, stopSession, runFrom]);
+
+  const pause = useCallback(() => {
+    if (!sessionRef.current || !runControllerRef.current) return;
+    runControllerRef.current.abort();
+    runControllerRef.current = null;
+    setIsPaused(true);
     setIsSpeaking(false);
     setIsSynthesizing(false);
-    if (currentUtteranceRef.current) {
-        // Manually nullify listeners to prevent them firing after explicit cancel if issues arise
-        // currentUtteranceRef.current.onstart = null;
-        // currentUtteranceRef.current.onend = null;
-        // currentUtteranceRef.current.onerror = null;
-        currentUtteranceRef.current = null;
-    }
+  }, []);
 
-  }, [isSupported]);
+  const jumpTo = useCallback((index: number) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    setIsSpeaking(true);
+    runFrom(Math.max(0, Math.min(index, session.segments.length - 1)));
+  }, [runFrom]);
+
+  const resume = useCallback(() => jumpTo(sessionRef.current?.index ?? 0), [jumpTo]);
+  const repeat = useCallback(() => jumpTo(sessionRef.current?.index ?? 0), [jumpTo]);
+  const next = useCallback(() => jumpTo((sessionRef.current?.index ?? 0) + 1), [jumpTo]);
+  const previous = useCallback(() => jumpTo((sessionRef.current?.index ?? 0) - 1), [jumpTo]);
+
+  const setRate = useCallback((value: number) => {
+    voiceSettingsRef.current.rate = value;
+    setRateState(value);
+  }, []);
+  const setPitch = useCallback((value: number) => {
+    voiceSettingsRef.current.pitch = value;
+    setPitchState(value);
+  }, []);
 
-  return { speak, cancel, isSpeaking, isSynthesizing, ttsError, isSupported };
+  const currentSegment = currentSegmentIndex !== null && sessionRef.current
+    ? sessionRef.current.segments[currentSegmentIndex] || null
+    : null;
+
+  return {
+    play,
+    cancel: stopSession,
+    pause,
+    resume,
+    next,
+    previous,
+    repeat,
+    isSpeaking,
+    isPaused,
+    isSynthesizing,
+    currentSegment,
+    currentSegmentIndex,
+    segmentCount,
+    rate,
+    pitch,
+    setRate,
+    setPitch,
+    ttsError,
+    isSupported,
+    engineId,
+  };
 };
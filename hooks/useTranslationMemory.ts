@@ -0,0 +1,49 @@
+import { useState, useCallback, useEffect } from 'react';
+import { LanguageTranslation, TranslationMemoryEntry } from '../types';
+import {
+  loadTranslationMemory,
+  saveTranslationMemory,
+  rememberSegments,
+  revokeApproval,
+  translationSegmentPairs,
+} from '../services/translationMemoryService';
+import { translationStyleOf } from '../services/translationStyles';
+
+interface TranslationMemoryHook {
+  entries: TranslationMemoryEntry[];
+  rememberTranslation: (translation: LanguageTranslation) => void; // Stores a standard translation's sections, unapproved
+  approveSegment: (sourceText: string, text: string, languageCode: string) => void;
+  revokeSegment: (sourceText: string, languageCode: string) => void;
+  clearUnapprovedMemory: () => void;
+}
+
+export const useTranslationMemory = (): TranslationMemoryHook => {
+  const [entries, setEntries] = useState<TranslationMemoryEntry[]>(loadTranslationMemory);
+
+  // Persist every change so the memory survives reloads.
+  useEffect(() => {
+    saveTranslationMemory(entries);
+  }, [entries]);
+
+  const rememberTranslation = useCallback((translation: LanguageTranslation) => {
+    // The memory is keyed by language alone: easy-read or summarized wording would be reused in standard translations.
+    if (translationStyleOf(translation) !== 'standard') return;
+    const pairs = translationSegmentPairs(translation);
+    if (pairs.length === 0) return;
+    setEntries(prev => rememberSegments(prev, pairs, translation.language.code));
+  }, []);
+
+  const approveSegment = useCallback((sourceText: string, text: string, languageCode: string) => {
+    setEntries(prev => rememberSegments(prev, [{ sourceText, text }], languageCode, true));
+  }, []);
+
+  const revokeSegment = useCallback((sourceText: string, languageCode: string) => {
+    setEntries(prev => revokeApproval(prev, sourceText, languageCode));
+  }, []);
+
+  const clearUnapprovedMemory = useCallback(() => {
+    setEntries(prev => prev.filter(entry => entry.approved));
+  }, []);
+
+  return { entries, rememberTranslation, approveSegment, revokeSegment, clearUnapprovedMemory };
+};
@@ -2,16 +2,21 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { SharedBriefingView } from './components/SharedBriefingView';
+import { readShareFragment } from './services/shareService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Phones that scanned a briefing QR code get the read-only viewer instead of the editor.
+const sharedBriefing = readShareFragment(window.location.hash);
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {sharedBriefing ? <SharedBriefingView encoded={sharedBriefing} /> : <App />}
   </React.StrictMode>
 );
     
@@ -0,0 +1,74 @@
+import {
+  AI_PROXY_DEFAULT_PORT,
+  AI_PROXY_RATE_LIMIT_WINDOW_MS,
+  AI_PROXY_RATE_LIMIT_MAX_REQUESTS,
+  AI_PROXY_MAX_BODY_BYTES,
+  MOCK_AI_LATENCY_MS,
+  GCP_TTS_DEFAULT_ENDPOINT,
+} from '../constants';
+import { AiProvider } from '../services/aiProvider';
+import { createGeminiProvider } from '../services/geminiService';
+import { createMockAiProvider } from '../services/mockAiProvider';
+import { createOpenAiCompatibleProvider } from '../services/openAiCompatibleProvider';
+import { createProxyServer, TtsRelayOptions } from './proxyServer';
+
+// Entry point of the local AI proxy: `npm run server`. Settings come from the
+// environment or .env.local:
+//   GEMINI_API_KEY                 the key, which now stays on this machine
+//   AI_PROXY_PROVIDER=mock         answer from the offline fixtures instead of Gemini
+//   AI_PROXY_PROVIDER=openai-compatible with OPENAI_COMPAT_BASE_URL, OPENAI_COMPAT_MODEL
+//                                  and OPENAI_COMPAT_API_KEY: a Chat Completions server instead
+//   AI_PROXY_PORT, AI_PROXY_HOST   where to listen (default 8790 on 127.0.0.1 only)
+//   AI_PROXY_RATE_LIMIT            requests per device per minute
+//   GCP_TTS_API_KEY, GCP_TTS_ENDPOINT  Cloud Text-to-Speech, relayed under /api/tts
+
+try {
+  process.loadEnvFile('.env.local');
+} catch {
+  // Optional: the environment may already carry the settings
+}
+
+function createProvider(): AiProvider {
+  if (process.env.AI_PROXY_PROVIDER === 'mock') {
+    return createMockAiProvider({ latencyMs: MOCK_AI_LATENCY_MS });
+  }
+  if (process.env.AI_PROXY_PROVIDER === 'openai-compatible') {
+    const baseUrl = process.env.OPENAI_COMPAT_BASE_URL?.trim();
+    const model = process.env.OPENAI_COMPAT_MODEL?.trim();
+    if (!baseUrl || !model) {
+      console.error('AI_PROXY_PROVIDER=openai-compatible needs OPENAI_COMPAT_BASE_URL and OPENAI_COMPAT_MODEL. Put them in .env.local.');
+      process.exit(1);
+    }
+    return createOpenAiCompatibleProvider({ baseUrl, model, apiKey: process.env.OPENAI_COMPAT_API_KEY?.trim() || undefined });
+  }
+  if (!process.env.GEMINI_API_KEY?.trim()) {
+    console.error('GEMINI_API_KEY is not set. Put it in .env.local, or run with AI_PROXY_PROVIDER=mock to use the offline fixtures.');
+    process.exit(1);
+  }
+  return createGeminiProvider();
+}
+
+// Cloud TTS is relayed when it has a key, or an endpoint (a mock, or a proxy that adds the key).
+function ttsRelayOptions(): TtsRelayOptions | undefined {
+  const apiKey = process.env.GCP_TTS_API_KEY?.trim();
+  const endpoint = process.env.GCP_TTS_ENDPOINT?.trim();
+  if (!apiKey && !endpoint) return undefined;
+  return { endpoint: (endpoint || GCP_TTS_DEFAULT_ENDPOINT).replace(/\/+$/, ''), apiKey: apiKey || undefined };
+}
+
+const provider = createProvider();
+const port = Number(process.env.AI_PROXY_PORT) || AI_PROXY_DEFAULT_PORT;
+// Only this machine by default: the Vite server forwards /api to it for the other devices.
+const host = process.env.AI_PROXY_HOST || '127.0.0.1';
+
+createProxyServer({
+  provider,
+  tts: ttsRelayOptions(),
+  rateLimit: {
+    windowMs: AI_PROXY_RATE_LIMIT_WINDOW_MS,
+    maxRequests: Number(process.env.AI_PROXY_RATE_LIMIT) || AI_PROXY_RATE_LIMIT_MAX_REQUESTS,
+  },
+  maxBodyBytes: AI_PROXY_MAX_BODY_BYTES,
+}).listen(port, host, () => {
+  console.log(`AI proxy listening on http://${host}:${port} using ${provider.label}${process.env.GCP_TTS_API_KEY || process.env.GCP_TTS_ENDPOINT ? ', with Cloud TTS' : ''}`);
+});
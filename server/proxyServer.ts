@@ -0,0 +1,247 @@
+import http from 'node:http';
+import { AiProvider } from '../services/aiProvider';
+import { AI_PROXY_ROUTES, AI_PROXY_TTS_BASE, OcrRequest, FormatRequest, TranslateRequest, TranslateStreamLine, QuizRequest, HazardRequest } from '../services/aiProxyApi';
+import { createRateLimiter, RateLimitOptions } from './rateLimiter';
+
+export interface TtsRelayOptions {
+  endpoint: string; // Cloud TTS base URL, e.g. https://texttospeech.googleapis.com/v1, or a local mock
+  apiKey?: string; // Sent upstream as X-Goog-Api-Key
+}
+
+export interface ProxyServerOptions {
+  provider: AiProvider; // Holds the real API key; the browser never sees it
+  tts?: TtsRelayOptions; // Unset when Cloud TTS is not configured
+  rateLimit: RateLimitOptions;
+  maxBodyBytes: number; // Page images are sent base64-encoded, so this bounds the image size
+  log?: (line: string) => void;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const LOOPBACK_PATTERN = /^(127\.|::1$|::ffff:127\.)/;
+
+/**
+ * The device a request comes from. Requests forwarded by a proxy on this
+ * machine (the Vite server's /api forward) carry the device in X-Forwarded-For:
+ * the last hop is the one that proxy appended, the earlier ones are whatever
+ * the client sent. The header of any other peer is ignored.
+ */
+function clientIdOf(req: http.IncomingMessage): string {
+  const peer = req.socket.remoteAddress || 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  if (LOOPBACK_PATTERN.test(peer) && typeof forwarded === 'string') {
+    const lastHop = forwarded.split(',').pop()?.trim();
+    if (lastHop) return lastHop;
+  }
+  return peer;
+}
+
+function readJsonBody(req: http.IncomingMessage, maxBodyBytes: number): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBodyBytes) {
+        reject(new HttpError(413, `Request body exceeds ${maxBodyBytes} bytes.`));
+        // Discard the rest rather than destroying the socket: a destroyed request
+        // resets the connection, and the browser sees a network error, not the 413.
+        req.removeAllListeners('data');
+        req.resume();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      let body: unknown;
+      try {
+        body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+      } catch {
+        reject(new HttpError(400, 'Request body is not valid JSON.'));
+        return;
+      }
+      if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        reject(new HttpError(400, 'Request body must be a JSON object.'));
+        return;
+      }
+      resolve(body as Record<string, unknown>);
+    });
+    req.on('error', reject);
+  });
+}
+
+function requireString(body: Record<string, unknown>, field: string, allowEmpty = false): string {
+  const value = body[field];
+  if (typeof value !== 'string' || (!allowEmpty && !value.trim())) {
+    throw new HttpError(400, `"${field}" must be a ${allowEmpty ? '' : 'non-empty '}string.`);
+  }
+  return value;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * The local AI proxy: OCR, Markdown formatting, translation, quiz and hazard endpoints
+ * backed by `provider`, and a Cloud TTS relay that adds the key, with
+ * per-client rate limiting and one log line per
+ * request (client, route, status, duration and size; never the content).
+ * A client that disconnects mid-request aborts the provider call.
+ */
+export function createProxyServer(options: ProxyServerOptions): http.Server {
+  const { provider, tts, maxBodyBytes, log = console.log } = options;
+  const rateLimiter = createRateLimiter(options.rateLimit);
+
+  return http.createServer(async (req, res) => {
+    const startedAt = Date.now();
+    const clientId = clientIdOf(req);
+    const path = (req.url || '/').split('?')[0];
+    const controller = new AbortController();
+
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort(new Error('The client disconnected.'));
+      const received = Number(req.headers['content-length']) || 0;
+      log(`${new Date(startedAt).toISOString()} ${clientId} ${req.method} ${path} ${res.statusCode} ${Date.now() - startedAt}ms in=${received}B${controller.signal.aborted ? ' (client disconnected)' : ''}`);
+    });
+
+    try {
+      if (req.method === 'GET' && path === AI_PROXY_ROUTES.health) {
+        sendJson(res, 200, { ok: true, provider: provider.label });
+        return;
+      }
+      const isKnownRoute = Object.values(AI_PROXY_ROUTES).some(route => route === path);
+      if (!isKnownRoute) throw new HttpError(404, `No such endpoint: ${path}`);
+      const allowedMethod = path === AI_PROXY_ROUTES.ttsVoices ? 'GET' : 'POST';
+      if (req.method !== allowedMethod) throw new HttpError(405, `${req.method} is not allowed on ${path}.`);
+
+      const decision = rateLimiter.check(clientId);
+      res.setHeader('X-RateLimit-Remaining', String(decision.remaining));
+      if (!decision.allowed) {
+        const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+        res.setHeader('Retry-After', String(retryAfterSeconds));
+        // The status in the message lets the browser's retry logic treat it as transient.
+        throw new HttpError(429, `429 Rate limit exceeded for this device. Try again in ${retryAfterSeconds}s.`);
+      }
+
+      const signal = controller.signal;
+      if (path.startsWith(`${AI_PROXY_TTS_BASE}/`)) {
+        await relayTts(req, res, path, tts, maxBodyBytes, signal);
+        return;
+      }
+      const body = await readJsonBody(req, maxBodyBytes);
+
+      switch (path) {
+        case AI_PROXY_ROUTES.ocr: {
+          const request: OcrRequest = { imageData: requireString(body, 'imageData'), mimeType: requireString(body, 'mimeType') };
+          sendJson(res, 200, { text: await provider.extractTextFromImageData(request.imageData, request.mimeType, signal) });
+          return;
+        }
+        case AI_PROXY_ROUTES.format: {
+          const request: FormatRequest = { rawText: requireString(body, 'rawText', true) };
+          sendJson(res, 200, { text: await provider.convertTextToMarkdown(request.rawText, signal) });
+          return;
+        }
+        case AI_PROXY_ROUTES.translate:
+        case AI_PROXY_ROUTES.translateStream: {
+          const request: TranslateRequest = {
+            text: requireString(body, 'text'),
+            targetLanguageCode: requireString(body, 'targetLanguageCode'),
+            systemInstruction: typeof body.systemInstruction === 'string' ? body.systemInstruction : undefined,
+          };
+          if (path === AI_PROXY_ROUTES.translate) {
+            sendJson(res, 200, { text: await provider.translateText(request.text, request.targetLanguageCode, request.systemInstruction, signal) });
+            return;
+          }
+          await streamTranslation(res, provider, request, signal);
+          return;
+        }
+        case AI_PROXY_ROUTES.quiz: {
+          const questionCount = Number(body.questionCount);
+          if (!Number.isInteger(questionCount) || questionCount < 1 || questionCount > 10) {
+            throw new HttpError(400, '"questionCount" must be an integer from 1 to 10.');
+          }
+          const request: QuizRequest = { sourceText: requireString(body, 'sourceText'), questionCount };
+          sendJson(res, 200, { questions: await provider.generateQuiz(request.sourceText, request.questionCount, signal) });
+          return;
+        }
+        case AI_PROXY_ROUTES.hazards: {
+          const request: HazardRequest = { sourceText: requireString(body, 'sourceText') };
+          sendJson(res, 200, await provider.extractHazards(request.sourceText, signal));
+          return;
+        }
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const status = error instanceof HttpError ? error.status : 502;
+      const message = error instanceof Error ? error.message : 'The AI provider failed.';
+      if (!(error instanceof HttpError)) console.error(`AI provider error on ${path}:`, error);
+      if (res.headersSent) {
+        res.end(); // A stream already started; streamTranslation reports its own errors
+      } else {
+        sendJson(res, status, { error: message });
+      }
+    }
+  });
+}
+
+/**
+ * Forwards a Cloud TTS call to the configured endpoint with the key added, and
+ * passes the answer back as it came. Only the languageCode query parameter is
+ * forwarded, so the browser cannot swap in a key of its own.
+ */
+async function relayTts(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  path: string,
+  tts: TtsRelayOptions | undefined,
+  maxBodyBytes: number,
+  signal: AbortSignal
+): Promise<void> {
+  if (!tts) throw new HttpError(503, 'Cloud TTS is not configured on the AI proxy (set GCP_TTS_API_KEY).');
+  let url = `${tts.endpoint}${path.slice(AI_PROXY_TTS_BASE.length)}`;
+  let body: string | undefined;
+  if (path === AI_PROXY_ROUTES.ttsVoices) {
+    const languageCode = new URL(req.url || '/', 'http://localhost').searchParams.get('languageCode');
+    if (languageCode) url += `?${new URLSearchParams({ languageCode })}`;
+  } else {
+    body = JSON.stringify(await readJsonBody(req, maxBodyBytes));
+  }
+
+  const response = await fetch(url, {
+    method: req.method,
+    headers: { 'Content-Type': 'application/json', ...(tts.apiKey ? { 'X-Goog-Api-Key': tts.apiKey } : {}) },
+    body,
+    signal,
+  });
+  res.writeHead(response.status, {
+    'Content-Type': response.headers.get('content-type') || 'application/json; charset=utf-8',
+    'Cache-Control': 'no-store',
+  });
+  res.end(Buffer.from(await response.arrayBuffer()));
+}
+
+async function streamTranslation(res: http.ServerResponse, provider: AiProvider, request: TranslateRequest, signal: AbortSignal): Promise<void> {
+  const writeLine = (line: TranslateStreamLine) => res.write(`${JSON.stringify(line)}\n`);
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+  try {
+    const text = await provider.translateTextStream(
+      request.text,
+      request.targetLanguageCode,
+      partial => writeLine({ partial }),
+      request.systemInstruction,
+      signal
+    );
+    writeLine({ text });
+  } catch (error) {
+    if (signal.aborted) return;
+    console.error('AI provider error while streaming a translation:', error);
+    writeLine({ error: error instanceof Error ? error.message : 'The AI provider failed.' });
+  }
+  res.end();
+}
@@ -0,0 +1,44 @@
+export interface RateLimitOptions {
+  windowMs: number;
+  maxRequests: number; // Per client per window
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // 0 when allowed
+}
+
+export interface RateLimiter {
+  check: (clientId: string, now?: number) => RateLimitDecision;
+}
+
+/**
+ * Fixed-window request counting per client. Windows of clients that have gone
+ * quiet are dropped once there are many of them, so memory stays bounded.
+ */
+export function createRateLimiter({ windowMs, maxRequests }: RateLimitOptions): RateLimiter {
+  const windows = new Map<string, { startedAt: number; count: number }>();
+
+  const pruneExpired = (now: number) => {
+    windows.forEach((window, clientId) => {
+      if (now - window.startedAt >= windowMs) windows.delete(clientId);
+    });
+  };
+
+  return {
+    check: (clientId, now = Date.now()) => {
+      if (windows.size > 1000) pruneExpired(now);
+      let window = windows.get(clientId);
+      if (!window || now - window.startedAt >= windowMs) {
+        window = { startedAt: now, count: 0 };
+        windows.set(clientId, window);
+      }
+      if (window.count >= maxRequests) {
+        return { allowed: false, remaining: 0, retryAfterMs: window.startedAt + windowMs - now };
+      }
+      window.count++;
+      return { allowed: true, remaining: maxRequests - window.count, retryAfterMs: 0 };
+    },
+  };
+}
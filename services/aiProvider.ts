@@ -0,0 +1,176 @@
+import { HazardAssessment, QuizQuestion, RiskLevel } from '../types';
+
+export type AiProviderId = 'gemini' | 'proxy' | 'openai-compatible' | 'mock';
+
+/**
+ * A model backend for the AI steps of the app: OCR of page images, formatting
+ * OCR text as Markdown, translation, writing comprehension quizzes and reading
+ * hazards out of risk assessments. Every
+ * call rejects with the signal's reason when `signal` is aborted.
+ */
+export interface AiProvider {
+  id: AiProviderId;
+  label: string;
+  extractTextFromImageData: (base64ImageData: string, mimeType: string, signal?: AbortSignal) => Promise<string>;
+  convertTextToMarkdown: (rawText: string, signal?: AbortSignal) => Promise<string>;
+  translateText: (text: string, targetLanguageCode: string, systemInstructionText?: string, signal?: AbortSignal) => Promise<string>;
+  // Same as translateText; `onPartial` receives the translation accumulated so far as it arrives.
+  translateTextStream: (
+    text: string,
+    targetLanguageCode: string,
+    onPartial: (partialText: string) => void,
+    systemInstructionText?: string,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  // Multiple-choice questions in Korean about the Korean Markdown briefing.
+  generateQuiz: (sourceMarkdown: string, questionCount: number, signal?: AbortSignal) => Promise<QuizQuestion[]>;
+  // The tasks, hazards, risk levels, controls and PPE of a Korean work plan or risk assessment.
+  extractHazards: (sourceMarkdown: string, signal?: AbortSignal) => Promise<HazardAssessment>;
+}
+
+// Prompts shared by the providers that call a model, so switching providers
+// does not change what the model is asked to do.
+
+export const OCR_PROMPT = `Perform OCR on this image and extract all text content.
+Preserve line breaks and paragraph structure as accurately as possible from the image.
+If the image contains forms or tables, try to maintain a semblance of that structure in the extracted text.
+The primary goal is to get all readable text.`;
+
+export const MARKDOWN_SYSTEM_INSTRUCTION = "You are an expert text processor specializing in converting unstructured text (potentially from OCR) to clean Markdown.";
+
+export function buildMarkdownPrompt(rawText: string): string {
+  return `Convert the following text content, which may have been extracted via OCR, into well-formatted Markdown.
+Infer structure like headings, paragraphs, lists, and tables if discernible from the text.
+Ensure the output is only Markdown.
+Raw text:
+---
+${rawText}
+---`;
+}
+
+export function buildTranslationPrompt(text: string, targetLanguageCode: string): string {
+  return `Translate the following text (which may be in Markdown format) into ${targetLanguageCode}.
+Preserve the Markdown formatting (headings, lists, bold, italics, tables, etc.) in the translated output.
+Original text:
+---
+${text}
+---`;
+}
+
+export function buildTranslationSystemInstruction(systemInstructionText?: string): string {
+  return `${systemInstructionText || 'You are a helpful translation assistant.'}
+You are translating TBM (Toolbox Meeting) material for construction site safety.
+The input text might be in Markdown format. Your translated output MUST also be in Markdown format, preserving the original structure (headings, lists, paragraphs, tables, emphasis, etc.).
+Ensure the translation is clear, accurate, and uses terminology appropriate for a construction safety context.
+The target audience is foreign workers who may not be native speakers of the target language, so keep the language accessible but precise for safety instructions.`;
+}
+
+/** Removes a code fence the model wrapped its whole answer in. */
+export function stripMarkdownFence(text: string): string {
+  const cleanedText = text.trim();
+  const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
+  const match = cleanedText.match(fenceRegex);
+  return match && match[2] ? match[2].trim() : cleanedText;
+}
+
+/** Hides an opening code fence in streamed text while the closing one has not arrived yet. */
+export function stripOpeningFence(partialText: string): string {
+  return partialText.replace(/^\s*```\w*\s*\n?/, '');
+}
+
+export const QUIZ_SYSTEM_INSTRUCTION = "You are a construction safety trainer who writes short comprehension checks for Toolbox Meetings (TBM).";
+
+export function buildQuizPrompt(sourceMarkdown: string, questionCount: number): string {
+  return `Write ${questionCount} multiple-choice questions in Korean that check whether a worker understood the key hazards and safety measures in the TBM briefing below.
+- Ask only about what the briefing says; each question must have exactly one correct option.
+- Give 3 or 4 short options per question, written so a worker who listened can answer. Vary the position of the correct option.
+- Use plain words; the questions will be translated for foreign workers.
+- "explanation" says in one Korean sentence why the answer is correct, for the supervisor.
+Answer only with JSON: {"questions": [{"question": string, "options": string[], "answerIndex": number, "explanation": string}]}, where answerIndex is the 0-based index of the correct option.
+Briefing:
+---
+${sourceMarkdown}
+---`;
+}
+
+/** Checks and normalizes questions parsed from a model's JSON answer; drops malformed ones. */
+export function parseQuizQuestions(value: unknown): QuizQuestion[] {
+  const list = Array.isArray(value) ? value : (value as { questions?: unknown })?.questions;
+  if (!Array.isArray(list)) throw new Error("Quiz generation failed: The AI did not return a list of questions.");
+  return (list as unknown[]).flatMap((item): QuizQuestion[] => {
+    const { question, options, answerIndex, explanation } = (item ?? {}) as Record<string, unknown>;
+    const optionTexts = Array.isArray(options)
+      ? options.filter((option): option is string => typeof option === 'string' && option.trim() !== '').map(option => option.trim())
+      : [];
+    const index = Number(answerIndex);
+    if (typeof question !== 'string' || !question.trim() || optionTexts.length < 2
+      || !Number.isInteger(index) || index < 0 || index >= optionTexts.length) {
+      return [];
+    }
+    return [{
+      question: question.trim(),
+      options: optionTexts,
+      answerIndex: index,
+      explanation: typeof explanation === 'string' ? explanation.trim() : '',
+    }];
+  });
+}
+
+export function parseQuizJson(text: string): QuizQuestion[] {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripMarkdownFence(text));
+  } catch {
+    throw new Error("Quiz generation failed: The AI did not answer with valid JSON.");
+  }
+  return parseQuizQuestions(value);
+}
+
+export const HAZARD_SYSTEM_INSTRUCTION = "You are a construction safety engineer who reads Korean work plans (작업계획서) and risk assessments (위험성 평가) and records their content as structured data.";
+
+export function buildHazardPrompt(sourceMarkdown: string): string {
+  return `Read the Korean TBM document below and list its work tasks, the hazards of each task, the risk level of each hazard, the control measures for each hazard and the protective equipment (PPE) the work requires.
+- Take everything from the document, whether it is laid out as a table, a list or prose. Do not add hazards or measures the document does not mention.
+- Keep every text in Korean, short, as the document words it.
+- "riskLevel" is "high", "medium" or "low". Use the document's own rating (상/중/하, a risk score or grade) when it has one; otherwise judge from the severity of the hazard.
+- If the document names no separate tasks, use one task named after the work as a whole.
+Answer only with JSON: {"tasks": [{"task": string, "hazards": [{"hazard": string, "riskLevel": "high" | "medium" | "low", "controls": string[]}]}], "ppe": string[]}
+Document:
+---
+${sourceMarkdown}
+---`;
+}
+
+const RISK_LEVELS: RiskLevel[] = ['high', 'medium', 'low'];
+
+const nonEmptyStrings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim()) : [];
+
+/** Checks and normalizes an assessment parsed from a model's JSON answer; drops tasks and hazards without text. */
+export function parseHazardAssessment(value: unknown): HazardAssessment {
+  const body = value as { tasks?: unknown; ppe?: unknown } | null;
+  if (!body || !Array.isArray(body.tasks)) {
+    throw new Error("Hazard extraction failed: The AI did not return a list of tasks.");
+  }
+  const tasks = (body.tasks as unknown[]).flatMap(entry => {
+    const { task, hazards } = (entry ?? {}) as Record<string, unknown>;
+    if (typeof task !== 'string' || !task.trim()) return [];
+    const parsedHazards = (Array.isArray(hazards) ? hazards as unknown[] : []).flatMap(item => {
+      const { hazard, riskLevel, controls } = (item ?? {}) as Record<string, unknown>;
+      if (typeof hazard !== 'string' || !hazard.trim()) return [];
+      return [{ hazard: hazard.trim(), riskLevel: RISK_LEVELS.find(level => level === riskLevel) || 'medium', controls: nonEmptyStrings(controls) }];
+    });
+    return [{ task: task.trim(), hazards: parsedHazards }];
+  });
+  return { tasks, ppe: nonEmptyStrings(body.ppe) };
+}
+
+export function parseHazardJson(text: string): HazardAssessment {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripMarkdownFence(text));
+  } catch {
+    throw new Error("Hazard extraction failed: The AI did not answer with valid JSON.");
+  }
+  return parseHazardAssessment(value);
+}
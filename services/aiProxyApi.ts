@@ -0,0 +1,64 @@
+// The HTTP contract between the browser (services/proxyAiProvider.ts) and the
+// local AI proxy (server/proxyServer.ts). Every endpoint takes and returns
+// JSON; failures come back as { error } with a non-2xx status.
+//
+// The proxy also relays Cloud Text-to-Speech (services/gcpTtsService.ts)
+// under AI_PROXY_TTS_BASE, in the Cloud TTS v1 REST format, adding the key.
+
+import { HazardAssessment, QuizQuestion } from '../types';
+
+export const AI_PROXY_ROUTES = {
+  health: '/api/health',
+  ocr: '/api/ocr',
+  format: '/api/format',
+  translate: '/api/translate',
+  translateStream: '/api/translate/stream',
+  quiz: '/api/quiz',
+  hazards: '/api/hazards',
+  ttsVoices: '/api/tts/voices', // GET, ?languageCode=
+  ttsSynthesize: '/api/tts/text:synthesize',
+} as const;
+
+export const AI_PROXY_TTS_BASE = '/api/tts';
+
+export interface OcrRequest {
+  imageData: string; // Base64, without the data: URL prefix
+  mimeType: string;
+}
+
+export interface FormatRequest {
+  rawText: string;
+}
+
+export interface TranslateRequest {
+  text: string;
+  targetLanguageCode: string;
+  systemInstruction?: string;
+}
+
+export interface QuizRequest {
+  sourceText: string; // The Korean Markdown briefing
+  questionCount: number;
+}
+
+export interface QuizResponse {
+  questions: QuizQuestion[];
+}
+
+export interface HazardRequest {
+  sourceText: string; // The Korean Markdown of the work plan or risk assessment
+}
+
+export type HazardResponse = HazardAssessment;
+
+export interface TextResponse {
+  text: string;
+}
+
+export interface ErrorResponse {
+  error: string;
+}
+
+// /api/translate/stream answers with newline-delimited JSON: any number of
+// { partial } lines (the translation so far), then one { text } or { error } line.
+export type TranslateStreamLine = { partial: string } | TextResponse | ErrorResponse;
@@ -0,0 +1,122 @@
+import { MOCK_AI_LATENCY_MS } from '../constants';
+import { AiProvider, AiProviderId } from './aiProvider';
+import { createProxyAiProvider } from './proxyAiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockAiProvider } from './mockAiProvider';
+
+// The entry point for every AI call in the app. It forwards to the provider
+// chosen in the settings, which can change at runtime; the build-time
+// environment (AI_PROVIDER, OPENAI_COMPAT_BASE_URL, OPENAI_COMPAT_MODEL) only
+// supplies the defaults. API keys are never built in: Gemini, or an
+// OpenAI-compatible server that needs a key, is reached through the local
+// proxy (server/), which holds it.
+
+export interface AiProviderSettings {
+  providerId: AiProviderId;
+  openAiBaseUrl: string;
+  openAiModel: string;
+}
+
+export const AI_PROVIDER_OPTIONS: { id: AiProviderId; name: string }[] = [
+  { id: 'proxy', name: 'AI proxy server (Gemini, or a server configured there)' },
+  { id: 'openai-compatible', name: 'OpenAI-compatible server (self-hosted)' },
+  { id: 'mock', name: 'Offline mock (no network)' },
+];
+
+const SETTINGS_STORAGE_KEY = 'tbm-assistant.ai-provider.v1';
+
+const isProviderId = (value: unknown): value is AiProviderId =>
+  AI_PROVIDER_OPTIONS.some(option => option.id === value);
+
+export function getDefaultAiProviderSettings(): AiProviderSettings {
+  return {
+    providerId: isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : 'proxy',
+    openAiBaseUrl: process.env.OPENAI_COMPAT_BASE_URL || '',
+    openAiModel: process.env.OPENAI_COMPAT_MODEL || '',
+  };
+}
+
+export function loadAiProviderSettings(): AiProviderSettings {
+  const defaults = getDefaultAiProviderSettings();
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return defaults;
+    const parsed = (JSON.parse(stored) ?? {}) as Record<string, unknown>;
+    const settings: AiProviderSettings = {
+      providerId: isProviderId(parsed.providerId) ? parsed.providerId : defaults.providerId,
+      openAiBaseUrl: typeof parsed.openAiBaseUrl === 'string' ? parsed.openAiBaseUrl : defaults.openAiBaseUrl,
+      openAiModel: typeof parsed.openAiModel === 'string' ? parsed.openAiModel : defaults.openAiModel,
+    };
+    // Earlier versions stored an API key here; keys belong to the AI proxy only.
+    if ('openAiApiKey' in parsed) saveAiProviderSettings(settings);
+    return settings;
+  } catch (err) {
+    console.warn('Could not load the AI provider settings, using the defaults:', err);
+    return defaults;
+  }
+}
+
+function saveAiProviderSettings(settings: AiProviderSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error('Could not save the AI provider settings:', err);
+  }
+}
+
+export function createAiProvider(settings: AiProviderSettings): AiProvider {
+  switch (settings.providerId) {
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider({
+        baseUrl: settings.openAiBaseUrl,
+        model: settings.openAiModel,
+      });
+    case 'mock':
+      return createMockAiProvider({ latencyMs: MOCK_AI_LATENCY_MS });
+    default:
+      return createProxyAiProvider();
+  }
+}
+
+let currentSettings: AiProviderSettings | null = null;
+let activeProvider: AiProvider | null = null;
+let overrideProvider: AiProvider | null = null;
+
+export function getAiProvider(): AiProvider {
+  if (overrideProvider) return overrideProvider;
+  if (!activeProvider) {
+    currentSettings = currentSettings || loadAiProviderSettings();
+    activeProvider = createAiProvider(currentSettings);
+  }
+  return activeProvider;
+}
+
+/** Switches provider for every later call, and remembers the choice in this browser. */
+export function setAiProviderSettings(settings: AiProviderSettings): void {
+  currentSettings = settings;
+  activeProvider = null;
+  saveAiProviderSettings(settings);
+}
+
+/** Replaces the configured provider, e.g. with a mock in tests. Pass null to go back. */
+export function overrideAiProvider(provider: AiProvider | null): void {
+  overrideProvider = provider;
+}
+
+export const extractTextFromImageData: AiProvider['extractTextFromImageData'] = (...args) =>
+  getAiProvider().extractTextFromImageData(...args);
+
+export const convertTextToMarkdown: AiProvider['convertTextToMarkdown'] = (...args) =>
+  getAiProvider().convertTextToMarkdown(...args);
+
+export const translateText: AiProvider['translateText'] = (...args) =>
+  getAiProvider().translateText(...args);
+
+export const translateTextStream: AiProvider['translateTextStream'] = (...args) =>
+  getAiProvider().translateTextStream(...args);
+
+export const generateQuiz: AiProvider['generateQuiz'] = (...args) =>
+  getAiProvider().generateQuiz(...args);
+
+export const extractHazards: AiProvider['extractHazards'] = (...args) =>
+  getAiProvider().extractHazards(...args);
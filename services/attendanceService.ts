@@ -0,0 +1,217 @@
+import { AttendanceEntry, LanguageTranslation, TranslationStyle } from '../types';
+import { supportedLanguages, TRANSLATION_STYLES } from '../constants';
+import { FONT_STACK, WEB_FONTS_URL, escapeHtml, renderMarkdown } from './handoutService';
+import { translationLabel, translationStyleOf } from './translationStyles';
+
+// Who attended a TBM and acknowledged it. Each sign-off keeps the exact text
+// the worker was briefed with and its SHA-256, so the sheet can prove which
+// version of the translation they heard even after it was edited.
+
+export interface AttendanceSignOff {
+  workerName: string;
+  trade: string;
+  languageCode: string;
+  style: TranslationStyle; // Which of the language's translations the worker was shown; standard for Korean
+  signature: string; // PNG data URL
+}
+
+export interface AttendanceSheetDetails {
+  siteName: string;
+  date: string; // YYYY-MM-DD
+  briefingTitle: string;
+}
+
+// Workers who chose Korean are briefed with the original, not a translation.
+const SOURCE_LANGUAGE_CODE = 'ko-KR';
+
+const languageName = (code: string) => supportedLanguages.find(language => language.code === code)?.name || code;
+
+/** The language a worker signed in, with the style unless standard: "Vietnamese (쉬운 문장)". */
+export const signedLanguageLabel = (entry: Pick<AttendanceEntry, 'languageCode' | 'style'>) =>
+  translationLabel({ language: { code: entry.languageCode, name: languageName(entry.languageCode) }, style: entry.style });
+
+/** The first characters of a text hash, enough to tell versions apart on paper. */
+export const shortHash = (hash: string) => hash.slice(0, 8);
+
+/**
+ * The text a worker who chose `languageCode` is briefed with: the finished
+ * translation in `style`, or the Korean Markdown for Korean, which only has
+ * the standard style. null when there is none yet.
+ */
+export function briefedTextFor(
+  languageCode: string,
+  style: TranslationStyle,
+  sourceMarkdown: string,
+  translations: LanguageTranslation[]
+): string | null {
+  if (languageCode === SOURCE_LANGUAGE_CODE) return style === 'standard' && sourceMarkdown.trim() ? sourceMarkdown : null;
+  const translation = translations.find(t =>
+    t.language.code === languageCode && translationStyleOf(t) === style && t.status === 'done' && t.text.trim()
+  );
+  return translation ? translation.text : null;
+}
+
+/** The styles a worker who chose `languageCode` can be briefed in, in the style picker's order. */
+export function briefedStylesFor(languageCode: string, sourceMarkdown: string, translations: LanguageTranslation[]): TranslationStyle[] {
+  return TRANSLATION_STYLES
+    .map(option => option.id)
+    .filter(style => briefedTextFor(languageCode, style, sourceMarkdown, translations) !== null);
+}
+
+/** The text `entry`'s language and style show now, to tell whether the signature is still current. */
+export const currentTextFor = (entry: AttendanceEntry, sourceMarkdown: string, translations: LanguageTranslation[]) =>
+  briefedTextFor(entry.languageCode, translationStyleOf(entry), sourceMarkdown, translations);
+
+/** SHA-256 of the UTF-8 text, as lowercase hex. */
+export async function hashText(text: string): Promise<string> {
+  if (!globalThis.crypto?.subtle) {
+    throw new Error('이 연결에서는 서명을 기록할 수 없습니다. HTTPS 또는 localhost 주소로 앱을 여세요. (Signing needs a secure connection: open the app over HTTPS or on localhost.)');
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function createAttendanceId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `attendance-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+export async function createAttendanceEntry(signOff: AttendanceSignOff, briefedText: string, now = Date.now()): Promise<AttendanceEntry> {
+  return {
+    id: createAttendanceId(),
+    workerName: signOff.workerName.trim(),
+    trade: signOff.trade.trim(),
+    languageCode: signOff.languageCode,
+    ...(signOff.style === 'standard' ? {} : { style: signOff.style }),
+    signature: signOff.signature,
+    signedAt: now,
+    briefedText,
+    briefedTextHash: await hashText(briefedText),
+  };
+}
+
+/** Whether the worker signed for the text their language shows now (false once it was edited or re-translated). */
+export function isSignedForCurrentText(entry: AttendanceEntry, currentText: string | null): boolean {
+  return currentText !== null && entry.briefedText === currentText;
+}
+
+/** Local date and time as YYYY-MM-DD HH:mm:ss. */
+export function formatSignedAt(epochMs: number): string {
+  const date = new Date(epochMs);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+}
+
+function escapeCsvField(value: string): string {
+  // A leading =, +, - or @ would make a spreadsheet run the name as a formula.
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function buildAttendanceCsv(entries: AttendanceEntry[], details: AttendanceSheetDetails): string {
+  const header = ['no', 'worker_name', 'trade', 'language_code', 'language', 'translation_style', 'signed_at', 'text_version_sha256', 'site', 'briefing_date', 'briefing_title'];
+  const rows = entries.map((entry, index) => [
+    String(index + 1),
+    entry.workerName,
+    entry.trade,
+    entry.languageCode,
+    languageName(entry.languageCode),
+    translationStyleOf(entry),
+    formatSignedAt(entry.signedAt),
+    entry.briefedTextHash,
+    details.siteName,
+    details.date,
+    details.briefingTitle,
+  ]);
+  // The BOM makes Excel open the file as UTF-8 so Korean and Thai names survive.
+  return '\uFEFF' + [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+const SHEET_STYLES = `
+  @page { size: A4; margin: 14mm 12mm; }
+  * { box-sizing: border-box; }
+  body { font-family: ${FONT_STACK}; color: #111827; margin: 0; padding: 16px; font-size: 10.5pt; line-height: 1.5; }
+  header { border-bottom: 2px solid #111827; padding-bottom: 8px; margin-bottom: 12px; }
+  header h1 { font-size: 16pt; margin: 0 0 6px; }
+  header dl { display: grid; grid-template-columns: auto 1fr auto 1fr; gap: 2px 12px; margin: 0; font-size: 10pt; }
+  header dt { font-weight: 700; }
+  header dd { margin: 0; }
+  table { width: 100%; border-collapse: collapse; }
+  thead th { background: #e5e7eb; text-align: left; padding: 5px 6px; border: 1px solid #9ca3af; font-size: 9.5pt; }
+  thead { display: table-header-group; } /* Repeat the column titles on every printed page */
+  td { vertical-align: middle; padding: 4px 6px; border: 1px solid #9ca3af; overflow-wrap: anywhere; }
+  tr { break-inside: avoid; page-break-inside: avoid; }
+  td img { display: block; height: 40px; max-width: 160px; }
+  code { font-size: 9pt; }
+  section { break-before: page; page-break-before: always; }
+  section h2 { font-size: 12pt; margin: 0 0 2px; }
+  section .hash { font-size: 8.5pt; color: #4b5563; margin: 0 0 8px; overflow-wrap: anywhere; }
+  article { border: 1px solid #9ca3af; padding: 8px 12px; margin-bottom: 16px; }
+  article h1, article h2, article h3 { font-size: 11pt; margin: 0 0 4px; }
+  article p, article ul, article ol { margin: 0 0 6px; }
+  footer { margin-top: 10px; font-size: 8.5pt; color: #6b7280; }
+  @media print { body { padding: 0; } }
+`;
+
+/**
+ * A standalone, print-ready attendance sheet: one row per signature, then
+ * every briefed text version that was signed for, so the printout shows what
+ * each worker acknowledged.
+ */
+export function buildAttendanceSheetHtml(entries: AttendanceEntry[], details: AttendanceSheetDetails): string {
+  const rows = entries.map((entry, index) => `
+      <tr>
+        <td>${index + 1}</td>
+        <td>${escapeHtml(entry.workerName)}</td>
+        <td>${escapeHtml(entry.trade) || '-'}</td>
+        <td>${escapeHtml(signedLanguageLabel(entry))}</td>
+        <td>${escapeHtml(formatSignedAt(entry.signedAt))}</td>
+        <td><img src="${escapeHtml(entry.signature)}" alt="${escapeHtml(entry.workerName)} 서명"></td>
+        <td><code>${escapeHtml(shortHash(entry.briefedTextHash))}</code></td>
+      </tr>`).join('');
+
+  const versions = [...new Map(entries.map(entry => [entry.briefedTextHash, entry])).values()];
+  const versionSections = versions.map(entry => `
+    <article lang="${escapeHtml(entry.languageCode.split('-')[0])}">
+      <h2>${escapeHtml(signedLanguageLabel(entry))} · ${escapeHtml(shortHash(entry.briefedTextHash))}</h2>
+      <p class="hash">SHA-256 ${escapeHtml(entry.briefedTextHash)}</p>
+      ${renderMarkdown(entry.briefedText)}
+    </article>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>TBM 출석부 ${escapeHtml(details.date)}</title>
+<link rel="stylesheet" href="${WEB_FONTS_URL}">
+<style>${SHEET_STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>TBM 출석 및 교육 확인서 / Attendance and Acknowledgement</h1>
+    <dl>
+      <dt>현장 / Site</dt><dd>${escapeHtml(details.siteName) || '-'}</dd>
+      <dt>일자 / Date</dt><dd>${escapeHtml(details.date)}</dd>
+      <dt>교육 / Briefing</dt><dd>${escapeHtml(details.briefingTitle) || '-'}</dd>
+      <dt>인원 / Workers</dt><dd>${entries.length}</dd>
+    </dl>
+  </header>
+  <table>
+    <colgroup><col style="width: 5%"><col style="width: 17%"><col style="width: 14%"><col style="width: 15%"><col style="width: 17%"><col style="width: 20%"><col style="width: 12%"></colgroup>
+    <thead>
+      <tr><th>No</th><th>이름 / Name</th><th>직종 / Trade</th><th>언어 / Language</th><th>서명 시각 / Signed at</th><th>서명 / Signature</th><th>교육 버전 / Version</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <footer>서명자는 아래 버전의 교육 내용을 자신이 선택한 언어로 듣고 이해하였음을 확인합니다. / Each worker confirms they heard and understood the version of the briefing shown below in the language they chose.</footer>
+  <section>
+    <h2>서명한 교육 내용 / Briefed texts</h2>
+    ${versionSections}
+  </section>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,207 @@
+import { LanguageTranslation, PageProgress } from '../types';
+import {
+  GCP_TTS_MAX_INPUT_BYTES,
+  AUDIO_EXPORT_SECTION_PAUSE_MS,
+  AUDIO_EXPORT_ORIGINAL_PAUSE_MS,
+  AUDIO_EXPORT_SAMPLE_RATE_HZ,
+  AUDIO_EXPORT_CACHE_LIMIT,
+  AUDIO_EXPORT_MAX_ATTEMPTS,
+  AUDIO_EXPORT_RETRY_BASE_DELAY_MS,
+} from '../constants';
+import { GcpTtsConfig, getGcpTtsConfig, findGcpVoice, synthesizeGcpSpeech, splitTextForSynthesis, GcpAudioEncoding } from './gcpTtsService';
+import { alignMarkdownSections, splitMarkdownSections } from './markdownSections';
+import { markdownToSpeechSegments } from './speechSegments';
+import { withRetry } from './retry';
+
+// The browser's speech synthesis cannot be recorded, so audio files are always
+// made with Google Cloud Text-to-Speech.
+
+export type AudioExportFormat = 'mp3' | 'wav';
+
+export interface AudioExportOptions {
+  format: AudioExportFormat;
+  includeOriginal: boolean; // Read each Korean section before its translation
+  signal?: AbortSignal;
+  onProgress?: (progress: PageProgress) => void; // Clips synthesized (or found in the cache) so far
+}
+
+interface Clip {
+  text: string;
+  languageCode: string;
+  pauseAfterMs: number;
+}
+
+const ENCODINGS: Record<AudioExportFormat, GcpAudioEncoding> = { mp3: 'MP3', wav: 'LINEAR16' };
+const MIME_TYPES: Record<AudioExportFormat, string> = { mp3: 'audio/mpeg', wav: 'audio/wav' };
+// SSML markup and escaping take some of the per-request byte budget.
+const SSML_OVERHEAD_BYTES = 500;
+
+// Synthesized clips by voice, format, pause and text; oldest dropped first.
+const clipCache = new Map<string, Uint8Array>();
+
+function rememberClip(key: string, audio: Uint8Array): void {
+  clipCache.delete(key);
+  clipCache.set(key, audio);
+  while (clipCache.size > AUDIO_EXPORT_CACHE_LIMIT) {
+    clipCache.delete(clipCache.keys().next().value as string);
+  }
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// A trailing <break> puts the pause inside the clip, which works the same for
+// MP3 and WAV instead of generating silence per format.
+const toSsml = (clip: Clip) =>
+  `<speak>${escapeXml(clip.text)}${clip.pauseAfterMs > 0 ? `<break time="${clip.pauseAfterMs}ms"/>` : ''}</speak>`;
+
+const sectionToSpeechText = (markdown: string) => markdownToSpeechSegments(markdown).map(segment => segment.text).join('\n');
+
+function textToClips(text: string, languageCode: string, pauseAfterMs: number): Clip[] {
+  const pieces = splitTextForSynthesis(text, GCP_TTS_MAX_INPUT_BYTES - SSML_OVERHEAD_BYTES);
+  return pieces.map((piece, index) => ({
+    text: piece,
+    languageCode,
+    pauseAfterMs: index === pieces.length - 1 ? pauseAfterMs : 0,
+  }));
+}
+
+/** The clips of an export in playing order: per section, the Korean original (optionally) then the translation. */
+function buildClips(translation: LanguageTranslation, includeOriginal: boolean): Clip[] {
+  const targetCode = translation.language.code;
+  if (!includeOriginal) {
+    return splitMarkdownSections(translation.text)
+      .flatMap(section => textToClips(sectionToSpeechText(section), targetCode, AUDIO_EXPORT_SECTION_PAUSE_MS));
+  }
+  // Unaligned documents come back as a single section each: all Korean, then all translation.
+  const { source, translated } = alignMarkdownSections(translation.sourceText, translation.text);
+  return source.flatMap((sourceSection, index) => [
+    ...textToClips(sectionToSpeechText(sourceSection), 'ko-KR', AUDIO_EXPORT_ORIGINAL_PAUSE_MS),
+    ...textToClips(sectionToSpeechText(translated[index] || ''), targetCode, AUDIO_EXPORT_SECTION_PAUSE_MS),
+  ]);
+}
+
+function readAscii(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+/** The format fields and PCM data of a WAV file, found by walking its RIFF chunks. */
+function parseWav(bytes: Uint8Array): { channels: number; sampleRate: number; bitsPerSample: number; data: Uint8Array } {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (readAscii(bytes, 0, 4) !== 'RIFF' || readAscii(bytes, 8, 4) !== 'WAVE') {
+    throw new Error('Cloud TTS returned audio that is not a WAV file.');
+  }
+  let format: { channels: number; sampleRate: number; bitsPerSample: number } | null = null;
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const id = readAscii(bytes, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    if (id === 'fmt ') {
+      format = {
+        channels: view.getUint16(offset + 10, true),
+        sampleRate: view.getUint32(offset + 12, true),
+        bitsPerSample: view.getUint16(offset + 22, true),
+      };
+    } else if (id === 'data' && format) {
+      // Some encoders write a placeholder size for streamed data; clamp to what is there.
+      return { ...format, data: bytes.subarray(offset + 8, Math.min(bytes.length, offset + 8 + size)) };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  throw new Error('Cloud TTS returned a WAV file without audio data.');
+}
+
+function joinWav(clips: Uint8Array[]): Uint8Array {
+  const parsed = clips.map(parseWav);
+  const { channels, sampleRate, bitsPerSample } = parsed[0];
+  const dataLength = parsed.reduce((total, clip) => total + clip.data.length, 0);
+  const output = new Uint8Array(44 + dataLength);
+  const view = new DataView(output.buffer);
+  const writeAscii = (offset: number, text: string) => [...text].forEach((char, i) => { output[offset + i] = char.charCodeAt(0); });
+
+  writeAscii(0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * (bitsPerSample / 8), true);
+  view.setUint16(32, channels * (bitsPerSample / 8), true);
+  view.setUint16(34, bitsPerSample, true);
+  writeAscii(36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  let offset = 44;
+  parsed.forEach(clip => {
+    output.set(clip.data, offset);
+    offset += clip.data.length;
+  });
+  return output;
+}
+
+// MP3 frames are self-contained, so clips can simply be appended.
+function joinMp3(clips: Uint8Array[]): Uint8Array {
+  const output = new Uint8Array(clips.reduce((total, clip) => total + clip.length, 0));
+  let offset = 0;
+  clips.forEach(clip => {
+    output.set(clip, offset);
+    offset += clip.length;
+  });
+  return output;
+}
+
+/**
+ * Synthesizes a translation into one audio file, with a pause between
+ * sections. Clips are synthesized one at a time and cached, so exporting the
+ * same text again (or after editing one section) only synthesizes what changed.
+ */
+export async function exportTranslationAudio(
+  translation: LanguageTranslation,
+  options: AudioExportOptions,
+  config: GcpTtsConfig = getGcpTtsConfig()
+): Promise<Blob> {
+  const { format, includeOriginal, signal, onProgress } = options;
+  signal?.throwIfAborted();
+
+  const clips = buildClips(translation, includeOriginal).filter(clip => clip.text.trim());
+  if (clips.length === 0) {
+    throw new Error('There is no text to turn into audio.');
+  }
+
+  const voices = new Map<string, { name: string; languageCode: string }>();
+  for (const languageCode of new Set(clips.map(clip => clip.languageCode))) {
+    const voice = await findGcpVoice(languageCode, config);
+    signal?.throwIfAborted();
+    if (!voice) {
+      throw new Error(`Cloud TTS has no voice for ${languageCode === 'ko-KR' ? 'Korean' : translation.language.name}.`);
+    }
+    voices.set(languageCode, voice);
+  }
+
+  const audio: Uint8Array[] = [];
+  for (const clip of clips) {
+    const voice = voices.get(clip.languageCode)!;
+    const cacheKey = [format, voice.name, clip.pauseAfterMs, clip.text].join('|');
+    let clipAudio = clipCache.get(cacheKey);
+    if (!clipAudio) {
+      const blob = await withRetry(
+        () => synthesizeGcpSpeech(toSsml(clip), voice.languageCode, {
+          voiceName: voice.name,
+          ssml: true,
+          audioEncoding: ENCODINGS[format],
+          sampleRateHertz: AUDIO_EXPORT_SAMPLE_RATE_HZ,
+        }, config, signal),
+        { maxAttempts: AUDIO_EXPORT_MAX_ATTEMPTS, baseDelayMs: AUDIO_EXPORT_RETRY_BASE_DELAY_MS, signal }
+      );
+      clipAudio = new Uint8Array(await blob.arrayBuffer());
+    }
+    rememberClip(cacheKey, clipAudio);
+    audio.push(clipAudio);
+    onProgress?.({ completed: audio.length, total: clips.length });
+  }
+
+  signal?.throwIfAborted();
+  const joined = format === 'wav' ? joinWav(audio) : joinMp3(audio);
+  return new Blob([joined], { type: MIME_TYPES[format] });
+}
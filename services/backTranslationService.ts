@@ -0,0 +1,164 @@
+import { LanguageTranslation } from '../types';
+import { TRANSLATION_MAX_ATTEMPTS, TRANSLATION_RETRY_BASE_DELAY_MS } from '../constants';
+import { translateText } from './aiService';
+import { withRetry } from './retry';
+import { alignMarkdownSections } from './markdownSections';
+import { multisetDifference, stripListMarkers } from './markdownComparison';
+
+export type DriftKind = 'number' | 'unit' | 'negation' | 'ppe';
+
+export interface DriftIssue {
+  kind: DriftKind;
+  detail: string;
+  tokens: string[]; // Text to highlight in the original / back-translation
+}
+
+export interface BackTranslatedSection {
+  index: number;
+  original: string;
+  backTranslated: string;
+  issues: DriftIssue[];
+}
+
+export interface BackTranslationReport {
+  languageCode: string;
+  translatedText: string; // The translation this report verifies; a later re-translation makes it stale
+  aligned: boolean;
+  sections: BackTranslatedSection[];
+  flaggedCount: number;
+}
+
+const BACK_TRANSLATION_INSTRUCTION = `You are producing a literal back-translation into Korean so that a Korean safety supervisor can verify a translation.
+Translate as literally as possible. Do NOT correct, complete or improve the meaning, and do not add anything from your own knowledge.
+Keep every number, unit, negation ("do not", "never", "prohibited") and piece of protective equipment exactly as it is stated in the text.`;
+
+// Unit spellings normalized to one form so "2미터" and "2 m" compare equal.
+const UNIT_ALIASES: Record<string, string> = {
+  '밀리미터': 'mm', 'mm': 'mm',
+  '센티미터': 'cm', 'cm': 'cm',
+  '킬로미터': 'km', 'km': 'km',
+  '미터': 'm', 'm': 'm',
+  '킬로그램': 'kg', 'kg': 'kg',
+  '톤': 't', 't': 't',
+  '퍼센트': '%', '%': '%',
+  '볼트': 'v', 'v': 'v', 'kv': 'kv',
+  '도': '°', '°c': '°', '℃': '°',
+  '시간': 'h', '분': 'min', '초': 's',
+  '층': 'floor', '명': 'people',
+};
+const QUANTITY_PATTERN = /(\d+(?:[.,]\d+)*)\s*(밀리미터|센티미터|킬로미터|미터|킬로그램|톤|퍼센트|볼트|°c|℃|mm|cm|km|kg|kv|m|t|%|v|도|시간|분|초|층|명)?/gi;
+const NEGATION_PATTERN = /금지|하지\s*마|하지\s*말|않|말\s*것|안\s*됩|안\s*된|안\s*돼|불가|엄금|못\s*하/g;
+
+// Groups of Korean names for the same protective equipment.
+const PPE_GROUPS: string[][] = [
+  ['안전모', '헬멧'],
+  ['안전화'],
+  ['안전대', '안전벨트', '하네스'],
+  ['보안경', '고글'],
+  ['귀마개', '청력보호구'],
+  ['방진마스크', '마스크', '호흡보호구'],
+  ['안전장갑', '장갑'],
+  ['안전조끼', '형광조끼'],
+];
+
+interface Quantity {
+  number: string;
+  unit: string;
+}
+
+function extractQuantities(text: string): Quantity[] {
+  return [...stripListMarkers(text).matchAll(QUANTITY_PATTERN)].map(match => ({
+    number: match[1].replace(/,/g, ''),
+    unit: match[2] ? UNIT_ALIASES[match[2].toLowerCase()] || match[2].toLowerCase() : '',
+  }));
+}
+
+function presentPpeGroups(text: string): string[] {
+  const compact = text.replace(/\s+/g, '');
+  return PPE_GROUPS.filter(group => group.some(name => compact.includes(name))).map(group => group[0]);
+}
+
+/**
+ * Compares an original Korean section with its back-translation and reports
+ * the kinds of drift that matter for a safety briefing.
+ */
+export function findMeaningDrift(original: string, backTranslated: string): DriftIssue[] {
+  const issues: DriftIssue[] = [];
+
+  const originalQuantities = extractQuantities(original);
+  const backQuantities = extractQuantities(backTranslated);
+  const originalNumbers = originalQuantities.map(q => q.number);
+  const backNumbers = backQuantities.map(q => q.number);
+  const missingNumbers = multisetDifference(originalNumbers, backNumbers);
+  const addedNumbers = multisetDifference(backNumbers, originalNumbers);
+  if (missingNumbers.length > 0) {
+    issues.push({ kind: 'number', detail: `역번역에 없는 숫자: ${missingNumbers.join(', ')}`, tokens: missingNumbers });
+  }
+  if (addedNumbers.length > 0) {
+    issues.push({ kind: 'number', detail: `원문에 없는 숫자: ${addedNumbers.join(', ')}`, tokens: addedNumbers });
+  }
+
+  // A number that survived with a different unit ("2m" back as "2cm").
+  const unitChanged = originalQuantities.filter(q =>
+    q.unit && backNumbers.includes(q.number) && !backQuantities.some(b => b.number === q.number && b.unit === q.unit)
+  );
+  if (unitChanged.length > 0) {
+    const changes = unitChanged.map(q => {
+      const back = backQuantities.find(b => b.number === q.number);
+      return `${q.number}${q.unit} → ${q.number}${back?.unit || '(단위 없음)'}`;
+    });
+    issues.push({ kind: 'unit', detail: `단위 변경: ${changes.join(', ')}`, tokens: unitChanged.map(q => q.number) });
+  }
+
+  const originalNegations = original.match(NEGATION_PATTERN) || [];
+  const backNegations = backTranslated.match(NEGATION_PATTERN) || [];
+  if (originalNegations.length !== backNegations.length) {
+    issues.push({
+      kind: 'negation',
+      detail: `부정/금지 표현 수 불일치 (원문 ${originalNegations.length}, 역번역 ${backNegations.length})`,
+      tokens: [...new Set([...originalNegations, ...backNegations])],
+    });
+  }
+
+  const originalPpe = presentPpeGroups(original);
+  const backPpe = presentPpeGroups(backTranslated);
+  const missingPpe = originalPpe.filter(item => !backPpe.includes(item));
+  const addedPpe = backPpe.filter(item => !originalPpe.includes(item));
+  if (missingPpe.length > 0) {
+    issues.push({ kind: 'ppe', detail: `역번역에 없는 보호구: ${missingPpe.join(', ')}`, tokens: missingPpe });
+  }
+  if (addedPpe.length > 0) {
+    issues.push({ kind: 'ppe', detail: `원문에 없는 보호구: ${addedPpe.join(', ')}`, tokens: addedPpe });
+  }
+
+  return issues;
+}
+
+/**
+ * Back-translates a finished translation into Korean section by section and
+ * compares each section with the original.
+ */
+export async function verifyByBackTranslation(translation: LanguageTranslation, signal?: AbortSignal): Promise<BackTranslationReport> {
+  const { source, translated, aligned } = alignMarkdownSections(translation.sourceText, translation.text);
+
+  const backTranslated = await Promise.all(translated.map(section =>
+    withRetry(
+      () => translateText(section, 'ko-KR', BACK_TRANSLATION_INSTRUCTION, signal),
+      { maxAttempts: TRANSLATION_MAX_ATTEMPTS, baseDelayMs: TRANSLATION_RETRY_BASE_DELAY_MS, signal }
+    )
+  ));
+  signal?.throwIfAborted();
+
+  const sections = source.map((original, index) => {
+    const back = backTranslated[index] || '';
+    return { index, original, backTranslated: back, issues: findMeaningDrift(original, back) };
+  });
+
+  return {
+    languageCode: translation.language.code,
+    translatedText: translation.text,
+    aligned,
+    sections,
+    flaggedCount: sections.filter(section => section.issues.length > 0).length,
+  };
+}
@@ -0,0 +1,183 @@
+import { BriefingRecord, LanguageTranslation } from '../types';
+import { HISTORY_DEFAULT_RETENTION_DAYS } from '../constants';
+import { translationLabel } from './translationStyles';
+
+// Briefings can hold long documents in many languages, more than localStorage
+// comfortably takes, so they live in IndexedDB. Small settings stay in localStorage.
+
+const DB_NAME = 'tbm-assistant';
+const DB_VERSION = 1;
+const BRIEFING_STORE = 'briefings';
+const UPDATED_AT_INDEX = 'updatedAt';
+const RETENTION_STORAGE_KEY = 'tbm-assistant.history-retention-days.v1';
+const CURRENT_BRIEFING_STORAGE_KEY = 'tbm-assistant.current-briefing.v1';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isHistorySupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(BRIEFING_STORE, { keyPath: 'id' });
+        store.createIndex(UPDATED_AT_INDEX, 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('The history database is open in another tab with an older version.'));
+    });
+    dbPromise.catch(() => {
+      dbPromise = null; // Let the next call try again
+    });
+  }
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise<T | undefined>((resolve, reject) => {
+    const transaction = db.transaction(BRIEFING_STORE, mode);
+    const request = operation(transaction.objectStore(BRIEFING_STORE));
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('The history transaction was aborted.'));
+  });
+}
+
+export function createBriefingId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `briefing-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/** The first heading of the Markdown, or its first non-empty line. */
+export function briefingTitle(markdown: string): string {
+  const lines = markdown.split('\n').map(line => line.trim()).filter(Boolean);
+  const heading = lines.find(line => /^#{1,6}\s/.test(line)) || lines[0] || '';
+  const title = heading.replace(/^#{1,6}\s+/, '').replace(/[*_`]/g, '').trim();
+  return title.length > 80 ? `${title.slice(0, 79)}…` : title || '(제목 없음)';
+}
+
+/** The translations worth keeping: finished languages, without run-time progress. */
+export function storableTranslations(translations: LanguageTranslation[]): LanguageTranslation[] {
+  return translations
+    .filter(translation => translation.status !== 'translating')
+    .map(({ chunkProgress: _progress, ...translation }) => translation);
+}
+
+/** All saved briefings, most recently updated first. */
+export async function listBriefings(): Promise<BriefingRecord[]> {
+  const records = await runTransaction<BriefingRecord[]>('readonly', store => store.getAll());
+  return (records || []).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function saveBriefing(record: BriefingRecord): Promise<void> {
+  await runTransaction('readwrite', store => {
+    store.put(record);
+  });
+}
+
+export async function deleteBriefing(id: string): Promise<void> {
+  await runTransaction('readwrite', store => {
+    store.delete(id);
+  });
+}
+
+/** The briefings `purgeExpiredBriefings` would delete under `retentionDays`. */
+export function expiredBriefings(records: BriefingRecord[], retentionDays: number, now = Date.now()): BriefingRecord[] {
+  if (retentionDays <= 0) return [];
+  return records.filter(record => record.updatedAt < now - retentionDays * DAY_MS);
+}
+
+/**
+ * Deletes briefings not updated within the retention period and returns how
+ * many were removed. A retention of 0 days keeps everything.
+ */
+export async function purgeExpiredBriefings(retentionDays: number, now = Date.now()): Promise<number> {
+  if (retentionDays <= 0) return 0;
+  const cutoff = IDBKeyRange.upperBound(now - retentionDays * DAY_MS, true);
+  let removed = 0;
+  await runTransaction('readwrite', store => {
+    const cursorRequest = store.index(UPDATED_AT_INDEX).openCursor(cutoff);
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      cursor.delete();
+      removed++;
+      cursor.continue();
+    };
+  });
+  return removed;
+}
+
+/** Briefings whose title, file name, date, source text or any translation contains every word of the query. */
+export function searchBriefings(records: BriefingRecord[], query: string): BriefingRecord[] {
+  const words = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return records;
+  return records.filter(record => {
+    const haystack = [
+      record.title,
+      record.sourceFile?.name || '',
+      new Date(record.createdAt).toISOString().slice(0, 10),
+      record.markdown,
+      ...record.translations.map(translation => `${translationLabel(translation)} ${translation.text}`),
+    ].join('\n').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+}
+
+export function loadRetentionDays(): number {
+  try {
+    const stored = Number(localStorage.getItem(RETENTION_STORAGE_KEY));
+    return localStorage.getItem(RETENTION_STORAGE_KEY) !== null && Number.isFinite(stored) && stored >= 0
+      ? stored
+      : HISTORY_DEFAULT_RETENTION_DAYS;
+  } catch {
+    return HISTORY_DEFAULT_RETENTION_DAYS;
+  }
+}
+
+export function saveRetentionDays(days: number): void {
+  try {
+    localStorage.setItem(RETENTION_STORAGE_KEY, String(days));
+  } catch (err) {
+    console.warn('Could not save the history retention setting:', err);
+  }
+}
+
+/** The briefing that was open when the app was last closed, reopened on start. */
+export function loadCurrentBriefingId(): string | null {
+  try {
+    return localStorage.getItem(CURRENT_BRIEFING_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function saveCurrentBriefingId(id: string | null): void {
+  try {
+    if (id) {
+      localStorage.setItem(CURRENT_BRIEFING_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(CURRENT_BRIEFING_STORAGE_KEY);
+    }
+  } catch (err) {
+    console.warn('Could not remember the open briefing:', err);
+  }
+}
+
+export type BriefingContent = Omit<BriefingRecord, 'id' | 'title' | 'createdAt' | 'updatedAt'>;
+
+/** A comparable key for a briefing's content, so unchanged briefings are not saved again. */
+export function briefingContentKey(content: BriefingContent): string {
+  return JSON.stringify([content.markdown, content.extractedText, content.sourceFile || null, content.targetLanguageCodes, content.translations, content.attendance || [], content.quiz || null, content.quizAttempts || [], content.hazardChecklist || null]);
+}
@@ -0,0 +1,18 @@
+/**
+ * Triggers a browser download of `blob` under `filename`.
+ */
+export function downloadBlob(filename: string, blob: Blob): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke on the next tick; some browsers start the download asynchronously.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  downloadBlob(filename, new Blob([content], { type: `${mimeType};charset=utf-8` }));
+}
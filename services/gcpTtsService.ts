@@ -0,0 +1,255 @@
+import { GCP_TTS_MAX_INPUT_BYTES } from '../constants';
+import { AI_PROXY_TTS_BASE } from './aiProxyApi';
+import { TtsEngine, TtsSpeakOptions, matchesLanguage } from './ttsEngine';
+
+// Google Cloud Text-to-Speech over its REST API, reached through the AI proxy
+// (server/), which holds GCP_TTS_API_KEY and forwards to Google or to
+// GCP_TTS_ENDPOINT. The build only learns whether the proxy has it configured.
+
+export interface GcpTtsConfig {
+  endpoint: string; // Base URL serving the Cloud TTS v1 REST format, e.g. /api/tts
+  enabled: boolean;
+}
+
+export interface GcpVoice {
+  name: string;
+  languageCodes: string[];
+  ssmlGender?: string;
+  naturalSampleRateHertz?: number;
+}
+
+export type GcpAudioEncoding = 'MP3' | 'LINEAR16' | 'OGG_OPUS';
+
+export interface GcpSynthesisOptions {
+  voiceName?: string;
+  ssml?: boolean; // The text is SSML (<speak>...</speak>) rather than plain text
+  sampleRateHertz?: number; // Defaults to the voice's natural rate; fix it to concatenate audio from several voices
+  audioEncoding?: GcpAudioEncoding;
+  speakingRate?: number; // 0.25 - 4.0, 1 is normal
+  pitch?: number; // -20.0 - 20.0 semitones, 0 is normal
+}
+
+const AUDIO_MIME_TYPES: Record<GcpAudioEncoding, string> = {
+  MP3: 'audio/mpeg',
+  LINEAR16: 'audio/wav', // LINEAR16 responses include a WAV header
+  OGG_OPUS: 'audio/ogg',
+};
+
+export function getGcpTtsConfig(): GcpTtsConfig {
+  return { endpoint: AI_PROXY_TTS_BASE, enabled: process.env.GCP_TTS_ENABLED === 'true' };
+}
+
+export const isGcpTtsConfigured = (config: GcpTtsConfig): boolean => config.enabled;
+
+function buildUrl(config: GcpTtsConfig, path: string, params: Record<string, string> = {}): string {
+  const queryString = new URLSearchParams(params).toString();
+  return `${config.endpoint}/${path}${queryString ? `?${queryString}` : ''}`;
+}
+
+async function requestJson<T>(url: string, init: RequestInit, signal?: AbortSignal): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal });
+  } catch (err: any) {
+    signal?.throwIfAborted();
+    console.error('Error calling Cloud Text-to-Speech:', err);
+    throw new Error(`Cloud TTS service unreachable: ${err?.message || 'network error'}`);
+  }
+
+  if (!response.ok) {
+    let message = response.statusText;
+    try {
+      const body = await response.json();
+      // Google answers { error: { message } }; the proxy's own errors are { error }
+      message = body?.error?.message || (typeof body?.error === 'string' ? body.error : '') || message;
+    } catch {
+      // Not a JSON error body; keep the status text
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new Error(`Cloud TTS rejected the request (${response.status}). Please check GCP_TTS_API_KEY on the AI proxy server. ${message}`);
+    }
+    throw new Error(`Cloud TTS service error (${response.status}): ${message}`);
+  }
+  return response.json() as Promise<T>;
+}
+
+export async function listGcpVoices(languageCode: string, config: GcpTtsConfig, signal?: AbortSignal): Promise<GcpVoice[]> {
+  const body = await requestJson<{ voices?: GcpVoice[] }>(buildUrl(config, 'voices', { languageCode }), { method: 'GET' }, signal);
+  return body.voices || [];
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Synthesizes one request's worth of text (at most GCP_TTS_MAX_INPUT_BYTES) into an audio Blob. */
+export async function synthesizeGcpSpeech(
+  text: string,
+  languageCode: string,
+  options: GcpSynthesisOptions,
+  config: GcpTtsConfig,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const { voiceName, ssml, sampleRateHertz, audioEncoding = 'MP3', speakingRate, pitch } = options;
+  const body = await requestJson<{ audioContent?: string }>(buildUrl(config, 'text:synthesize'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      input: ssml ? { ssml: text } : { text },
+      voice: { languageCode, ...(voiceName ? { name: voiceName } : {}) },
+      audioConfig: {
+        audioEncoding,
+        ...(speakingRate ? { speakingRate } : {}),
+        ...(pitch ? { pitch } : {}),
+        ...(sampleRateHertz ? { sampleRateHertz } : {}),
+      },
+    }),
+  }, signal);
+
+  if (!body.audioContent) {
+    throw new Error('Cloud TTS returned no audio.');
+  }
+  return new Blob([base64ToBytes(body.audioContent)], { type: AUDIO_MIME_TYPES[audioEncoding] });
+}
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+/**
+ * Splits text into pieces under the API's per-request byte limit, breaking
+ * after sentences or lines where possible. A single over-long sentence is cut
+ * by characters as a last resort.
+ */
+export function splitTextForSynthesis(text: string, maxBytes: number = GCP_TTS_MAX_INPUT_BYTES): string[] {
+  const sentences = text.match(/[^.!?。！？\n]+[.!?。！？]*\s*|\n+/g) || [];
+  const pieces: string[] = [];
+  let current = '';
+
+  const pushCurrent = () => {
+    if (current.trim()) pieces.push(current.trim());
+    current = '';
+  };
+
+  sentences.forEach(sentence => {
+    if (byteLength(current + sentence) <= maxBytes) {
+      current += sentence;
+      return;
+    }
+    pushCurrent();
+    let rest = sentence;
+    while (byteLength(rest) > maxBytes) {
+      let cut = rest.length;
+      while (byteLength(rest.slice(0, cut)) > maxBytes) cut = Math.floor(cut * 0.9);
+      pieces.push(rest.slice(0, cut).trim());
+      rest = rest.slice(cut);
+    }
+    current = rest;
+  });
+  pushCurrent();
+
+  return pieces.filter(Boolean);
+}
+
+function playBlob(blob: Blob, signal?: AbortSignal, onStart?: () => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio(url);
+    const cleanup = () => {
+      signal?.removeEventListener('abort', onAbort);
+      audio.pause();
+      URL.revokeObjectURL(url);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    audio.onplaying = () => onStart?.();
+    audio.onended = () => {
+      cleanup();
+      resolve();
+    };
+    audio.onerror = () => {
+      cleanup();
+      reject(new Error('Cloud TTS audio could not be played.'));
+    };
+    audio.play().catch(err => {
+      cleanup();
+      reject(err);
+    });
+  });
+}
+
+// Voice lists per endpoint and base language ("en"), fetched once.
+const voiceCache = new Map<string, Promise<GcpVoice[]>>();
+
+function voicesFor(languageCode: string, config: GcpTtsConfig): Promise<GcpVoice[]> {
+  const baseLanguage = languageCode.split('-')[0];
+  const cacheKey = `${config.endpoint}|${baseLanguage}`;
+  let voices = voiceCache.get(cacheKey);
+  if (!voices) {
+    voices = listGcpVoices(baseLanguage, config);
+    voices.catch(() => voiceCache.delete(cacheKey)); // Ask again next time after a failure
+    voiceCache.set(cacheKey, voices);
+  }
+  return voices;
+}
+
+/** The voice used for a language: an exact locale match first, then any voice of the base language. */
+export async function findGcpVoice(languageCode: string, config: GcpTtsConfig): Promise<{ name: string; languageCode: string } | null> {
+  const voices = await voicesFor(languageCode, config);
+  for (const exact of [true, false]) {
+    for (const voice of voices) {
+      const code = voice.languageCodes.find(c => matchesLanguage(c, languageCode, exact));
+      if (code) return { name: voice.name, languageCode: code };
+    }
+  }
+  return null;
+}
+
+/** Cloud Text-to-Speech as a TTS engine. */
+export function createGcpTtsEngine(config: GcpTtsConfig = getGcpTtsConfig()): TtsEngine {
+  const findVoice = (languageCode: string) => findGcpVoice(languageCode, config);
+
+  return {
+    id: 'gcp',
+    label: 'Google Cloud Text-to-Speech',
+    isAvailable: () => isGcpTtsConfigured(config),
+
+    hasVoice: async (languageCode: string) => (await findVoice(languageCode)) !== null,
+
+    speak: async (text: string, languageCode: string, options: TtsSpeakOptions = {}) => {
+      const { signal, onStart, rate, pitch } = options;
+      signal?.throwIfAborted();
+      const voice = await findVoice(languageCode);
+      if (!voice) {
+        throw new Error(`Cloud TTS has no voice for ${languageCode}.`);
+      }
+
+      const pieces = splitTextForSynthesis(text);
+      const synthesisOptions: GcpSynthesisOptions = {
+        voiceName: voice.name,
+        speakingRate: rate,
+        pitch: pitch ? 12 * Math.log2(pitch) : undefined, // The API takes semitones
+      };
+      const synthesize = (piece: string) =>
+        synthesizeGcpSpeech(piece, voice.languageCode, synthesisOptions, config, signal);
+
+      // Synthesize the next piece while the current one plays.
+      let next = pieces.length > 0 ? synthesize(pieces[0]) : null;
+      let started = false;
+      for (let i = 0; next; i++) {
+        const blob = await next;
+        next = i + 1 < pieces.length ? synthesize(pieces[i + 1]) : null;
+        next?.catch(() => {}); // Surfaced when awaited on the next iteration
+        await playBlob(blob, signal, () => {
+          if (!started) onStart?.();
+          started = true;
+        });
+      }
+    },
+  };
+}
@@ -1,10 +1,33 @@
 
-import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GoogleGenAI, GenerateContentResponse, Type } from "@google/genai";
 import { GEMINI_MODEL_NAME } from '../constants';
+import { HazardAssessment, QuizQuestion } from '../types';
+import {
+  AiProvider,
+  OCR_PROMPT,
+  MARKDOWN_SYSTEM_INSTRUCTION,
+  buildMarkdownPrompt,
+  buildTranslationPrompt,
+  buildTranslationSystemInstruction,
+  QUIZ_SYSTEM_INSTRUCTION,
+  buildQuizPrompt,
+  parseQuizJson,
+  HAZARD_SYSTEM_INSTRUCTION,
+  buildHazardPrompt,
+  parseHazardJson,
+  stripMarkdownFence,
+  stripOpeningFence,
+} from './aiProvider';
 
-// API key must be obtained from the GEMINI_API_KEY environment variable.
-// The Vite configuration exposes this value at build time.
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+// Runs in the AI proxy (server/), which reads GEMINI_API_KEY from its
+// environment or .env.local; the key is never built into the browser bundle.
+// The client is made on first use, so other providers work without a Gemini key.
+let client: GoogleGenAI | null = null;
+
+function getClient(): GoogleGenAI {
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY });
+  return client;
+}
 
 // Ensure that process.env.GEMINI_API_KEY is a non-empty string before invoking
 // the SDK. The GoogleGenAI library will validate the actual key.
@@ -18,14 +41,12 @@ function ensureApiKeyIsConfigured(): void {
   }
 }
 
-export async function extractTextFromImageData(base64ImageData: string, mimeType: string): Promise<string> {
+async function extractTextFromImageData(base64ImageData: string, mimeType: string, signal?: AbortSignal): Promise<string> {
   ensureApiKeyIsConfigured();
+  signal?.throwIfAborted();
 
   const model = GEMINI_MODEL_NAME;
-  const prompt = `Perform OCR on this image and extract all text content.
-Preserve line breaks and paragraph structure as accurately as possible from the image.
-If the image contains forms or tables, try to maintain a semblance of that structure in the extracted text.
-The primary goal is to get all readable text.`;
+  const prompt = OCR_PROMPT;
 
   const imagePart = {
     inlineData: {
@@ -36,13 +57,14 @@ The primary goal is to get all readable text.`;
   const textPart = { text: prompt };
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
+    const response: GenerateContentResponse = await getClient().models.generateContent({
       model: model,
       contents: { parts: [imagePart, textPart] },
       config: {
         temperature: 0.1, // Low temperature for more deterministic OCR
         topP: 0.9,
         topK: 20,
+        abortSignal: signal,
       }
     });
 
@@ -54,6 +76,7 @@ The primary goal is to get all readable text.`;
       throw new Error("OCR failed: Unexpected response format from AI.");
     }
   } catch (error) {
+    signal?.throwIfAborted(); // Cancelled by the caller, not a service failure
     console.error("Error calling Gemini API for OCR:", error);
     if (error instanceof Error) {
         if (error.message.includes("API key not valid") || error.message.includes("API_KEY_INVALID") || error.message.includes("API key is invalid")) {
@@ -66,48 +89,39 @@ The primary goal is to get all readable text.`;
 }
 
 
-export async function convertTextToMarkdown(rawText: string): Promise<string> {
+async function convertTextToMarkdown(rawText: string, signal?: AbortSignal): Promise<string> {
   ensureApiKeyIsConfigured();
+  signal?.throwIfAborted();
   if (!rawText.trim()) {
     return "";
   }
 
   const model = GEMINI_MODEL_NAME;
-  const prompt = `Convert the following text content, which may have been extracted via OCR, into well-formatted Markdown.
-Infer structure like headings, paragraphs, lists, and tables if discernible from the text.
-Ensure the output is only Markdown.
-Raw text:
----
-${rawText}
----`;
+  const prompt = buildMarkdownPrompt(rawText);
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
+    const response: GenerateContentResponse = await getClient().models.generateContent({
       model: model,
       contents: prompt,
       config: {
-        systemInstruction: "You are an expert text processor specializing in converting unstructured text (potentially from OCR) to clean Markdown.",
+        systemInstruction: MARKDOWN_SYSTEM_INSTRUCTION,
         temperature: 0.2,
         topP: 0.8,
         topK: 20,
+        abortSignal: signal,
       }
     });
 
     const markdownText = response.text;
     if (typeof markdownText === 'string') {
-      let cleanedText = markdownText.trim();
-      const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-      const match = cleanedText.match(fenceRegex);
-      if (match && match[2]) {
-        cleanedText = match[2].trim();
-      }
-      return cleanedText;
+      return stripMarkdownFence(markdownText);
     } else {
       console.warn("Gemini API returned non-text response for Markdown conversion:", response);
       throw new Error("Markdown conversion failed: Unexpected response format from AI.");
     }
 
   } catch (error) {
+    signal?.throwIfAborted();
     console.error("Error calling Gemini API for Markdown conversion:", error);
     if (error instanceof Error) {
         if (error.message.includes("API key not valid") || error.message.includes("API_KEY_INVALID") || error.message.includes("API key is invalid")) {
@@ -120,61 +134,239 @@ ${rawText}
 }
 
 
-export async function translateText(
+// Shared by the one-shot and streaming translation calls.
+function buildTranslationRequest(text: string, targetLanguageCode: string, systemInstructionText?: string) {
+  return {
+    model: GEMINI_MODEL_NAME,
+    contents: buildTranslationPrompt(text, targetLanguageCode),
+    config: {
+      systemInstruction: buildTranslationSystemInstruction(systemInstructionText),
+      temperature: 0.3,
+      topP: 0.9,
+      topK: 30,
+    },
+  };
+}
+
+function toTranslationError(error: unknown): Error {
+  if (error instanceof Error) {
+    if (error.message.includes("API key not valid") || error.message.includes("API_KEY_INVALID") || error.message.includes("API key is invalid")) {
+      return new Error("Invalid API Key for Gemini. Please check your Gemini API key configuration.");
+    }
+    return new Error(`AI translation service error: ${error.message}`);
+  }
+  return new Error("An unknown error occurred while communicating with the AI translation service.");
+}
+
+async function translateText(
   text: string,
   targetLanguageCode: string,
-  systemInstructionText?: string
+  systemInstructionText?: string,
+  signal?: AbortSignal
 ): Promise<string> {
   ensureApiKeyIsConfigured();
+  signal?.throwIfAborted();
 
-  const model = GEMINI_MODEL_NAME;
-  const prompt = `Translate the following text (which may be in Markdown format) into ${targetLanguageCode}.
-Preserve the Markdown formatting (headings, lists, bold, italics, tables, etc.) in the translated output.
-Original text:
----
-${text}
----`;
-
-  const fullSystemInstruction = `${systemInstructionText || 'You are a helpful translation assistant.'}
-You are translating TBM (Toolbox Meeting) material for construction site safety.
-The input text might be in Markdown format. Your translated output MUST also be in Markdown format, preserving the original structure (headings, lists, paragraphs, tables, emphasis, etc.).
-Ensure the translation is clear, accurate, and uses terminology appropriate for a construction safety context.
-The target audience is foreign workers who may not be native speakers of the target language, so keep the language accessible but precise for safety instructions.`;
+  const request = buildTranslationRequest(text, targetLanguageCode, systemInstructionText);
 
   try {
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        systemInstruction: fullSystemInstruction,
-        temperature: 0.3,
-        topP: 0.9,
-        topK: 30,
-      }
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      ...request,
+      config: { ...request.config, abortSignal: signal },
     });
 
     const translatedMarkdown = response.text;
     if (typeof translatedMarkdown === 'string') {
-      let cleanedText = translatedMarkdown.trim();
-      const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-      const match = cleanedText.match(fenceRegex);
-      if (match && match[2]) {
-        cleanedText = match[2].trim();
-      }
-      return cleanedText;
+      return stripMarkdownFence(translatedMarkdown);
     } else {
       console.warn("Gemini API returned non-text response for translation:", response);
       throw new Error("Translation failed: Unexpected response format from AI.");
     }
 
   } catch (error) {
+    signal?.throwIfAborted();
     console.error("Error calling Gemini API for translation:", error);
+    throw toTranslationError(error);
+  }
+}
+
+/**
+ * Same as translateText, but streams the response: `onPartial` receives the
+ * translation accumulated so far each time the model sends more text.
+ */
+async function translateTextStream(
+  text: string,
+  targetLanguageCode: string,
+  onPartial: (partialText: string) => void,
+  systemInstructionText?: string,
+  signal?: AbortSignal
+): Promise<string> {
+  ensureApiKeyIsConfigured();
+  signal?.throwIfAborted();
+
+  const request = buildTranslationRequest(text, targetLanguageCode, systemInstructionText);
+
+  try {
+    const stream = await getClient().models.generateContentStream({
+      ...request,
+      config: { ...request.config, abortSignal: signal },
+    });
+
+    let accumulated = '';
+    for await (const chunk of stream) {
+      const chunkText = chunk.text;
+      if (!chunkText) continue;
+      accumulated += chunkText;
+      onPartial(stripOpeningFence(accumulated));
+    }
+
+    if (!accumulated.trim()) {
+      throw new Error("Translation failed: The AI returned an empty response.");
+    }
+    return stripMarkdownFence(accumulated);
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error("Error calling Gemini API for streaming translation:", error);
+    throw toTranslationError(error);
+  }
+}
+
+// Structured output, so the model answers with JSON the app can check.
+const QUIZ_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          question: { type: Type.STRING },
+          options: { type: Type.ARRAY, items: { type: Type.STRING } },
+          answerIndex: { type: Type.INTEGER },
+          explanation: { type: Type.STRING },
+        },
+        required: ['question', 'options', 'answerIndex', 'explanation'],
+        propertyOrdering: ['question', 'options', 'answerIndex', 'explanation'],
+      },
+    },
+  },
+  required: ['questions'],
+};
+
+async function generateQuiz(sourceMarkdown: string, questionCount: number, signal?: AbortSignal): Promise<QuizQuestion[]> {
+  ensureApiKeyIsConfigured();
+  signal?.throwIfAborted();
+
+  try {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: GEMINI_MODEL_NAME,
+      contents: buildQuizPrompt(sourceMarkdown, questionCount),
+      config: {
+        systemInstruction: QUIZ_SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseSchema: QUIZ_RESPONSE_SCHEMA,
+        temperature: 0.4,
+        abortSignal: signal,
+      }
+    });
+
+    const json = response.text;
+    if (typeof json !== 'string') {
+      console.warn("Gemini API returned non-text response for quiz generation:", response);
+      throw new Error("Quiz generation failed: Unexpected response format from AI.");
+    }
+    return parseQuizJson(json);
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error("Error calling Gemini API for quiz generation:", error);
     if (error instanceof Error) {
         if (error.message.includes("API key not valid") || error.message.includes("API_KEY_INVALID") || error.message.includes("API key is invalid")) {
              throw new Error("Invalid API Key for Gemini. Please check your Gemini API key configuration.");
         }
-         throw new Error(`AI translation service error: ${error.message}`);
+         throw new Error(`AI quiz service error: ${error.message}`);
     }
-    throw new Error("An unknown error occurred while communicating with the AI translation service.");
+    throw new Error("An unknown error occurred while communicating with the AI quiz service.");
   }
 }
+
+const HAZARD_RESPONSE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    tasks: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          task: { type: Type.STRING },
+          hazards: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                hazard: { type: Type.STRING },
+                riskLevel: { type: Type.STRING, enum: ['high', 'medium', 'low'] },
+                controls: { type: Type.ARRAY, items: { type: Type.STRING } },
+              },
+              required: ['hazard', 'riskLevel', 'controls'],
+              propertyOrdering: ['hazard', 'riskLevel', 'controls'],
+            },
+          },
+        },
+        required: ['task', 'hazards'],
+        propertyOrdering: ['task', 'hazards'],
+      },
+    },
+    ppe: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['tasks', 'ppe'],
+  propertyOrdering: ['tasks', 'ppe'],
+};
+
+async function extractHazards(sourceMarkdown: string, signal?: AbortSignal): Promise<HazardAssessment> {
+  ensureApiKeyIsConfigured();
+  signal?.throwIfAborted();
+
+  try {
+    const response: GenerateContentResponse = await getClient().models.generateContent({
+      model: GEMINI_MODEL_NAME,
+      contents: buildHazardPrompt(sourceMarkdown),
+      config: {
+        systemInstruction: HAZARD_SYSTEM_INSTRUCTION,
+        responseMimeType: 'application/json',
+        responseSchema: HAZARD_RESPONSE_SCHEMA,
+        temperature: 0.1, // Extraction, not writing
+        abortSignal: signal,
+      }
+    });
+
+    const json = response.text;
+    if (typeof json !== 'string') {
+      console.warn("Gemini API returned non-text response for hazard extraction:", response);
+      throw new Error("Hazard extraction failed: Unexpected response format from AI.");
+    }
+    return parseHazardJson(json);
+  } catch (error) {
+    signal?.throwIfAborted();
+    console.error("Error calling Gemini API for hazard extraction:", error);
+    if (error instanceof Error) {
+        if (error.message.includes("API key not valid") || error.message.includes("API_KEY_INVALID") || error.message.includes("API key is invalid")) {
+             throw new Error("Invalid API Key for Gemini. Please check your Gemini API key configuration.");
+        }
+         throw new Error(`AI hazard extraction service error: ${error.message}`);
+    }
+    throw new Error("An unknown error occurred while communicating with the AI hazard extraction service.");
+  }
+}
+
+export function createGeminiProvider(): AiProvider {
+  return {
+    id: 'gemini',
+    label: `Google Gemini (${GEMINI_MODEL_NAME})`,
+    extractTextFromImageData,
+    convertTextToMarkdown,
+    translateText,
+    translateTextStream,
+    generateQuiz,
+    extractHazards,
+  };
+}
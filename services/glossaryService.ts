@@ -0,0 +1,226 @@
+import { LawTerm, TargetLanguage } from '../types';
+import { DEFAULT_GLOSSARY } from '../constants';
+
+const GLOSSARY_STORAGE_KEY = 'tbm-assistant.glossary.v1';
+
+// Fixed CSV columns; every other header is treated as a target language code.
+const CSV_BASE_COLUMNS = ['term_ko', 'term_en', 'description', 'do_not_translate'];
+
+export function createTermId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `term-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/**
+ * Coerces an untrusted object (localStorage, imported JSON) into a LawTerm.
+ * Returns null for entries without a Korean term.
+ */
+function normalizeTerm(raw: unknown): LawTerm | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { id, term_ko, term_en, targets: rawTargets, description, do_not_translate } = raw as Record<string, unknown>;
+  if (typeof term_ko !== 'string' || !term_ko.trim()) return null;
+  const targets: LawTerm['targets'] = {};
+  if (rawTargets && typeof rawTargets === 'object') {
+    Object.entries(rawTargets).forEach(([code, value]) => {
+      if (typeof value === 'string' && value.trim()) targets[code] = value.trim();
+    });
+  }
+  return {
+    id: typeof id === 'string' && id ? id : createTermId(),
+    term_ko: term_ko.trim(),
+    term_en: typeof term_en === 'string' ? term_en.trim() : '',
+    targets,
+    description: typeof description === 'string' && description.trim() ? description.trim() : undefined,
+    do_not_translate: do_not_translate === true || /^(true|yes|y|1)$/i.test(String(do_not_translate ?? '')),
+  };
+}
+
+export function loadGlossary(): LawTerm[] {
+  try {
+    const stored = localStorage.getItem(GLOSSARY_STORAGE_KEY);
+    if (!stored) return DEFAULT_GLOSSARY;
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) throw new Error("Stored glossary is not an array.");
+    return parsed.map(normalizeTerm).filter((term): term is LawTerm => term !== null);
+  } catch (err) {
+    console.warn('Could not load the saved glossary, using the default terms:', err);
+    return DEFAULT_GLOSSARY;
+  }
+}
+
+export function saveGlossary(terms: LawTerm[]): void {
+  try {
+    localStorage.setItem(GLOSSARY_STORAGE_KEY, JSON.stringify(terms));
+  } catch (err) {
+    console.error('Could not save the glossary:', err);
+  }
+}
+
+/**
+ * Adds imported terms to `current`. An imported term replaces an existing one
+ * with the same Korean term.
+ */
+export function mergeGlossary(current: LawTerm[], imported: LawTerm[]): LawTerm[] {
+  const byKorean = new Map(current.map(term => [term.term_ko, term]));
+  imported.forEach(term => {
+    const existing = byKorean.get(term.term_ko);
+    byKorean.set(term.term_ko, existing ? { ...term, id: existing.id } : term);
+  });
+  return [...byKorean.values()];
+}
+
+// Korean terms are written with and without spaces ("위험성 평가" / "위험성평가").
+const compact = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+
+// A Korean word carries its particles ("안전대를", "비계에서는"), so a term ends
+// a word when only particles follow it; "안전대책" is another word.
+const PARTICLES = '(?:에서|에게|으로|까지|부터|보다|처럼|이나|이랑|하고|입니다|이다|이며|이고|은|는|이|가|을|를|의|에|께|와|과|로|도|만|나|랑)*';
+const WORD_CHARACTER = '[\\p{L}\\p{N}]';
+
+function termPattern(term: string): RegExp | null {
+  const characters = [...compact(term)].map(character => character.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (characters.length === 0) return null;
+  return new RegExp(`(?<!${WORD_CHARACTER})${characters.join('\\s*')}${PARTICLES}(?!${WORD_CHARACTER})`, 'iu');
+}
+
+/**
+ * Returns the glossary entries whose Korean term occurs in `text` as a word of
+ * its own, spaces inside the term ignored.
+ */
+export function findGlossaryMatches(text: string, terms: LawTerm[]): LawTerm[] {
+  return terms.filter(term => termPattern(term.term_ko)?.test(text));
+}
+
+/**
+ * The term to use for `languageCode`: an exact per-language entry, then one for
+ * the same base language, then the English term.
+ */
+export function resolveTargetTerm(term: LawTerm, languageCode: string): string {
+  if (term.do_not_translate) return term.term_ko;
+  const baseLanguage = languageCode.split('-')[0];
+  const baseMatch = Object.keys(term.targets).find(code => code.split('-')[0] === baseLanguage);
+  return term.targets[languageCode] || (baseMatch ? term.targets[baseMatch] : '') || term.term_en;
+}
+
+/**
+ * Builds the glossary part of the translation system instruction, limited to
+ * the given (already matched) entries.
+ */
+export function buildGlossaryInstruction(matches: LawTerm[], language: TargetLanguage): string {
+  if (matches.length === 0) return '';
+
+  const hasOwnTerm = (term: LawTerm) => resolveTargetTerm(term, language.code) !== term.term_en;
+  const lines = matches.map(term => {
+    const note = term.description ? ` (${term.description})` : '';
+    if (term.do_not_translate) {
+      return `* ${term.term_ko}: keep exactly as "${term.term_ko}", do not translate or transliterate${note}`;
+    }
+    if (hasOwnTerm(term)) {
+      return `* ${term.term_ko}: ${resolveTargetTerm(term, language.code)}${note}`;
+    }
+    return `* ${term.term_ko}: ${term.term_en} (English reference; use the standard ${language.name} equivalent)${note}`;
+  });
+
+  return `Site glossary for ${language.name}. Use these renderings consistently wherever the Korean term appears:
+${lines.join('\n')}`;
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function glossaryToCsv(terms: LawTerm[]): string {
+  const languageCodes = [...new Set(terms.flatMap(term => Object.keys(term.targets)))].sort();
+  const header = [...CSV_BASE_COLUMNS, ...languageCodes];
+  const rows = terms.map(term => [
+    term.term_ko,
+    term.term_en,
+    term.description || '',
+    term.do_not_translate ? 'true' : 'false',
+    ...languageCodes.map(code => term.targets[code] || ''),
+  ]);
+  // The BOM makes Excel open the file as UTF-8 so Korean and Thai text survive.
+  return '\uFEFF' + [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+}
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+export function glossaryFromCsv(text: string): LawTerm[] {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (!header) throw new Error("The CSV file is empty.");
+  const columns = header.map(column => column.trim());
+  if (!columns.includes('term_ko')) {
+    throw new Error("The CSV file needs a 'term_ko' column.");
+  }
+
+  return rows
+    .map(cells => {
+      const fields: Record<string, string> = {};
+      const targets: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        const value = (cells[index] || '').trim();
+        if (CSV_BASE_COLUMNS.includes(column)) {
+          fields[column] = value;
+        } else if (column) {
+          targets[column] = value;
+        }
+      });
+      return normalizeTerm({ ...fields, targets });
+    })
+    .filter((term): term is LawTerm => term !== null);
+}
+
+export function glossaryToJson(terms: LawTerm[]): string {
+  return JSON.stringify(terms, null, 2);
+}
+
+export function glossaryFromJson(text: string): LawTerm[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("The JSON file could not be parsed.");
+  }
+  if (!Array.isArray(parsed)) {
+    throw new Error("The JSON file must contain an array of glossary entries.");
+  }
+  return parsed.map(normalizeTerm).filter((term): term is LawTerm => term !== null);
+}
@@ -0,0 +1,159 @@
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+import { LanguageTranslation, LawTerm } from '../types';
+import { alignMarkdownSections } from './markdownSections';
+import { PictogramLine, pictogramsByLine } from './pictogramService';
+import { pictogramSvg } from './safetyPictograms';
+import { translationLabel } from './translationStyles';
+
+export interface HandoutDetails {
+  siteName: string;
+  date: string; // YYYY-MM-DD
+}
+
+const SITE_NAME_STORAGE_KEY = 'tbm-assistant.site-name.v1';
+
+// Web fonts first (when online), then the system fonts that carry each script
+// on Windows, macOS, Android and Linux, so Burmese, Khmer, Thai and Devanagari
+// shape correctly even when the handout is printed offline.
+export const FONT_STACK = [
+  '"Noto Sans KR"', '"Noto Sans Myanmar"', '"Noto Sans Khmer"', '"Noto Sans Thai"', '"Noto Sans Devanagari"', '"Noto Sans"',
+  '"Malgun Gothic"', '"Apple SD Gothic Neo"',
+  '"Myanmar Text"', '"Padauk"', '"Myanmar Sangam MN"',
+  '"Khmer UI"', '"Khmer OS"', '"Khmer Sangam MN"',
+  '"Leelawadee UI"', '"Thonburi"',
+  '"Nirmala UI"', '"Kohinoor Devanagari"', '"Lohit Devanagari"',
+  'sans-serif',
+].join(', ');
+export const WEB_FONTS_URL = 'https://fonts.googleapis.com/css2?family=Noto+Sans+KR:wght@400;700&family=Noto+Sans+Myanmar:wght@400;700&family=Noto+Sans+Khmer:wght@400;700&family=Noto+Sans+Thai:wght@400;700&family=Noto+Sans+Devanagari:wght@400;700&family=Noto+Sans:wght@400;700&display=swap';
+
+const HANDOUT_STYLES = `
+  @page { size: A4; margin: 14mm 12mm; }
+  * { box-sizing: border-box; }
+  body { font-family: ${FONT_STACK}; color: #111827; margin: 0; padding: 16px; font-size: 11pt; line-height: 1.55; }
+  header { border-bottom: 2px solid #111827; padding-bottom: 8px; margin-bottom: 12px; }
+  header h1 { font-size: 16pt; margin: 0 0 6px; }
+  header dl { display: grid; grid-template-columns: auto 1fr auto 1fr; gap: 2px 12px; margin: 0; font-size: 10pt; }
+  header dt { font-weight: 700; }
+  header dd { margin: 0; }
+  table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+  thead th { background: #e5e7eb; text-align: left; padding: 6px 8px; border: 1px solid #9ca3af; font-size: 10pt; }
+  thead { display: table-header-group; } /* Repeat the column titles on every printed page */
+  td { vertical-align: top; padding: 6px 8px; border: 1px solid #9ca3af; overflow-wrap: anywhere; }
+  tr { break-inside: avoid; page-break-inside: avoid; }
+  td h1, td h2, td h3, td h4 { font-size: 12pt; margin: 0 0 4px; }
+  td p { margin: 0 0 6px; }
+  td ul, td ol { margin: 0 0 6px; padding-left: 20px; }
+  td table { font-size: 9.5pt; }
+  td table td, td table th { padding: 3px 4px; }
+  .line { display: flow-root; }
+  .signs { float: right; display: flex; flex-direction: column; gap: 4px; margin: 0 0 4px 8px; }
+  .signs svg { display: block; }
+  footer { margin-top: 10px; font-size: 8.5pt; color: #6b7280; }
+  @media print { body { padding: 0; } }
+`;
+
+/** Today's local date as YYYY-MM-DD. */
+export function todayIsoDate(): string {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+export function loadSiteName(): string {
+  try {
+    return localStorage.getItem(SITE_NAME_STORAGE_KEY) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function saveSiteName(siteName: string): void {
+  try {
+    localStorage.setItem(SITE_NAME_STORAGE_KEY, siteName);
+  } catch (err) {
+    console.warn('Could not save the site name:', err);
+  }
+}
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+export const renderMarkdown = (markdown: string) => DOMPurify.sanitize(marked.parse(markdown) as string);
+
+/**
+ * A standalone, print-ready HTML document pairing each Korean section with its
+ * translation in two columns. Sections are paired by heading; when the
+ * translation did not keep the section structure both documents fill one row.
+ * Each translated line carries the safety signs for the glossary terms its
+ * Korean line mentions.
+ */
+export function buildBilingualHandoutHtml(translation: LanguageTranslation, details: HandoutDetails, glossary: LawTerm[] = []): string {
+  const { language } = translation;
+  const baseLanguage = language.code.split('-')[0];
+  const { source, translated } = alignMarkdownSections(translation.sourceText, translation.text);
+  const { lines } = pictogramsByLine(translation.sourceText, translation.text, glossary);
+
+  const renderLine = ({ text, pictograms }: PictogramLine) => pictograms.length
+    ? `<div class="line"><div class="signs">${pictograms.map(id => pictogramSvg(id, 36)).join('')}</div>${renderMarkdown(text)}</div>`
+    : renderMarkdown(text);
+
+  const rows = source.map((sourceSection, index) => {
+    const sectionLines = lines[index] || [];
+    const translatedHtml = sectionLines.some(line => line.pictograms.length > 0)
+      ? sectionLines.map(renderLine).join('')
+      : renderMarkdown(translated[index] || '');
+    return `
+      <tr>
+        <td lang="ko">${renderMarkdown(sourceSection)}</td>
+        <td lang="${escapeHtml(baseLanguage)}">${translatedHtml}</td>
+      </tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>TBM ${escapeHtml(details.date)} - ${escapeHtml(language.name)}</title>
+<link rel="stylesheet" href="${WEB_FONTS_URL}">
+<style>${HANDOUT_STYLES}</style>
+</head>
+<body>
+  <header>
+    <h1>TBM 안전 교육 자료 / Toolbox Meeting Briefing</h1>
+    <dl>
+      <dt>현장 / Site</dt><dd>${escapeHtml(details.siteName) || '-'}</dd>
+      <dt>일자 / Date</dt><dd>${escapeHtml(details.date)}</dd>
+      <dt>언어 / Language</dt><dd>한국어 ↔ ${escapeHtml(translationLabel(translation))}</dd>
+    </dl>
+  </header>
+  <table>
+    <colgroup><col style="width: 50%"><col style="width: 50%"></colgroup>
+    <thead>
+      <tr><th>한국어 (원문)</th><th lang="${escapeHtml(baseLanguage)}">${escapeHtml(language.name)}</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <footer>AI 번역본입니다. 중요한 안전 지시는 관리자에게 확인하십시오. / This is an AI translation; confirm important safety instructions with your supervisor.</footer>
+</body>
+</html>
+`;
+}
+
+/**
+ * Opens the handout in a new window and starts the browser's print dialog,
+ * from which it can be saved as PDF. Waits for fonts so the first page is not
+ * printed with fallback glyphs.
+ */
+export function printHandout(html: string): void {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('인쇄 창을 열 수 없습니다. 브라우저의 팝업 차단을 해제해 주세요. (Could not open the print window; allow pop-ups for this site.)');
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.document.fonts.ready.then(() => printWindow.print());
+}
@@ -0,0 +1,135 @@
+import { HazardAssessment, HazardChecklist, HazardChecklistTranslation, LawTerm, TargetLanguage } from '../types';
+import { TRANSLATION_MAX_ATTEMPTS, TRANSLATION_RETRY_BASE_DELAY_MS } from '../constants';
+import { extractHazards, translateText } from './aiService';
+import { withRetry, isTransientAiError } from './retry';
+import { findGlossaryMatches, buildGlossaryInstruction } from './glossaryService';
+
+// A hazard checklist read out of an uploaded work plan or risk assessment:
+// tasks, their hazards with risk levels and controls, and the required PPE.
+// Every text field is translated on its own, so each language shows the same
+// checklist whatever the layout of the source document was.
+
+export interface HazardTranslationOptions {
+  glossary?: LawTerm[];
+  signal?: AbortSignal;
+  onUpdate?: (translation: HazardChecklistTranslation) => void; // Called as each language starts, finishes or fails
+}
+
+// Workers who chose Korean see the checklist as it was extracted.
+const SOURCE_LANGUAGE_CODE = 'ko-KR';
+
+const HAZARD_TRANSLATION_INSTRUCTION = `This text is a numbered list of the separate fields of a construction safety checklist: task names, hazards, control measures and protective equipment.
+Translate every numbered line on its own, as a short checklist entry. Keep the numbering and exactly one line per number; never merge, split, drop or add lines.`;
+
+// A translation that lost, merged or added a field; fields are matched back by position.
+class HazardFormatError extends Error {}
+
+/** Extracts a checklist from `sourceMarkdown`; rejects when the document names no hazards. */
+export async function createHazardChecklist(sourceMarkdown: string, signal?: AbortSignal, now = Date.now()): Promise<HazardChecklist> {
+  const assessment = await withRetry(
+    () => extractHazards(sourceMarkdown, signal),
+    { maxAttempts: TRANSLATION_MAX_ATTEMPTS, baseDelayMs: TRANSLATION_RETRY_BASE_DELAY_MS, signal }
+  );
+  signal?.throwIfAborted();
+  const tasks = assessment.tasks.filter(task => task.hazards.length > 0);
+  if (tasks.length === 0) {
+    throw new Error('문서에서 작업별 위험요인을 찾지 못했습니다. 작업계획서나 위험성 평가표인지 확인하세요. (No hazards were found in the document.)');
+  }
+  return { sourceText: sourceMarkdown, createdAt: now, assessment: { ...assessment, tasks }, translations: [] };
+}
+
+/** Every text of the assessment in a fixed order: each task, its hazards and their controls, then the PPE. */
+export function hazardFields(assessment: HazardAssessment): string[] {
+  return [
+    ...assessment.tasks.flatMap(task => [task.task, ...task.hazards.flatMap(hazard => [hazard.hazard, ...hazard.controls])]),
+    ...assessment.ppe,
+  ];
+}
+
+/** The assessment with its texts replaced, in hazardFields order; the structure and risk levels are kept. */
+export function withHazardFields(assessment: HazardAssessment, fields: string[]): HazardAssessment {
+  let next = 0;
+  const take = () => fields[next++];
+  return {
+    tasks: assessment.tasks.map(task => ({
+      task: take(),
+      hazards: task.hazards.map(hazard => ({ hazard: take(), riskLevel: hazard.riskLevel, controls: hazard.controls.map(take) })),
+    })),
+    ppe: assessment.ppe.map(take),
+  };
+}
+
+export function hazardFieldsToMarkdown(fields: string[]): string {
+  return fields.map((field, index) => `${index + 1}. ${field.replace(/\s*\n\s*/g, ' ')}`).join('\n');
+}
+
+/** Reads back a translated field list; throws when it does not have exactly `count` numbered lines. */
+export function hazardFieldsFromMarkdown(markdown: string, count: number): string[] {
+  const fields = markdown.split('\n')
+    .map(line => line.trim().match(/^\d+[.)]\s+(.*)$/)?.[1].trim())
+    .filter((field): field is string => Boolean(field));
+  if (fields.length !== count) {
+    throw new HazardFormatError(`The translated checklist has ${fields.length} fields instead of ${count}.`);
+  }
+  return fields;
+}
+
+/**
+ * Translates the checklist into every language in parallel, one request per
+ * language with every field numbered. A failing language comes back with
+ * `status: 'error'` instead of rejecting the run; only an abort rejects.
+ */
+export async function translateHazardChecklist(
+  checklist: HazardChecklist,
+  languages: TargetLanguage[],
+  options: HazardTranslationOptions = {}
+): Promise<HazardChecklistTranslation[]> {
+  const { glossary = [], signal, onUpdate } = options;
+  const fields = hazardFields(checklist.assessment);
+  const markdown = hazardFieldsToMarkdown(fields);
+  const glossaryMatches = findGlossaryMatches(markdown, glossary);
+
+  const results = await Promise.all(languages.map(async (language): Promise<HazardChecklistTranslation> => {
+    if (language.code === SOURCE_LANGUAGE_CODE) {
+      const done: HazardChecklistTranslation = { language, status: 'done', assessment: checklist.assessment };
+      onUpdate?.(done);
+      return done;
+    }
+    onUpdate?.({ language, status: 'translating' });
+    const systemInstruction = [HAZARD_TRANSLATION_INSTRUCTION, buildGlossaryInstruction(glossaryMatches, language)].filter(Boolean).join('\n\n');
+    try {
+      const translatedFields = await withRetry(
+        async () => hazardFieldsFromMarkdown(await translateText(markdown, language.code, systemInstruction, signal), fields.length),
+        {
+          maxAttempts: TRANSLATION_MAX_ATTEMPTS,
+          baseDelayMs: TRANSLATION_RETRY_BASE_DELAY_MS,
+          shouldRetry: error => error instanceof HazardFormatError || isTransientAiError(error),
+          signal,
+        }
+      );
+      const done: HazardChecklistTranslation = { language, status: 'done', assessment: withHazardFields(checklist.assessment, translatedFields) };
+      onUpdate?.(done);
+      return done;
+    } catch (err) {
+      signal?.throwIfAborted();
+      console.error(`Hazard checklist translation error (${language.code}):`, err);
+      const failed: HazardChecklistTranslation = {
+        language,
+        status: 'error',
+        error: err instanceof Error ? err.message : 'An unknown error occurred during checklist translation.',
+      };
+      onUpdate?.(failed);
+      return failed;
+    }
+  }));
+
+  signal?.throwIfAborted();
+  return results;
+}
+
+/** The checklist in `languageCode`, or null when it is not translated into that language. */
+export function assessmentFor(checklist: HazardChecklist, languageCode: string): HazardAssessment | null {
+  if (languageCode === SOURCE_LANGUAGE_CODE) return checklist.assessment;
+  const translation = checklist.translations.find(t => t.language.code === languageCode && t.status === 'done');
+  return translation?.assessment || null;
+}
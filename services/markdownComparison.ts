@@ -0,0 +1,21 @@
+// Helpers shared by the checks that compare a document with its translation
+// (markdownStructureService.ts) or back-translation (backTranslationService.ts),
+// so both read numbers the same way.
+
+const LIST_MARKER_PATTERN = /^\s*\d+[.)]\s+/gm;
+
+/** `markdown` without ordered-list markers ("1.", "2)"), whose numbers are not part of the text. */
+export function stripListMarkers(markdown: string): string {
+  return markdown.replace(LIST_MARKER_PATTERN, '');
+}
+
+/** Items of `a` not in `b`, counting duplicates. */
+export function multisetDifference(a: string[], b: string[]): string[] {
+  const remaining = [...b];
+  return a.filter(item => {
+    const index = remaining.indexOf(item);
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+}
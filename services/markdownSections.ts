@@ -0,0 +1,86 @@
+import { marked, Tokens } from 'marked';
+
+/**
+ * Splits Markdown into sections, each starting at a heading (any level). Text
+ * before the first heading is its own section. Headings inside code blocks are
+ * not split on, since this goes through marked's lexer.
+ */
+export function splitMarkdownSections(markdown: string): string[] {
+  const sections: string[] = [];
+  let current = '';
+
+  marked.lexer(markdown).forEach(token => {
+    if (token.type === 'heading' && current.trim()) {
+      sections.push(current.trim());
+      current = '';
+    }
+    current += token.raw;
+  });
+  if (current.trim()) sections.push(current.trim());
+
+  return sections;
+}
+
+export function joinMarkdownSections(sections: string[]): string {
+  return sections.map(section => section.trim()).join('\n\n');
+}
+
+/**
+ * Splits Markdown into its lines as a reader sees them: each heading,
+ * paragraph, table and list item (with any list nested in it) on its own.
+ */
+export function splitMarkdownLines(markdown: string): string[] {
+  return marked.lexer(markdown)
+    .flatMap(token => token.type === 'list' ? (token as Tokens.List).items.map(item => item.raw) : [token.raw])
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Pairs source and translated sections by position. When the translation did
+ * not keep the section structure, both documents are treated as one section.
+ */
+export function alignMarkdownSections(source: string, translated: string): { source: string[]; translated: string[]; aligned: boolean } {
+  const sourceSections = splitMarkdownSections(source);
+  const translatedSections = splitMarkdownSections(translated);
+  if (sourceSections.length > 0 && sourceSections.length === translatedSections.length) {
+    return { source: sourceSections, translated: translatedSections, aligned: true };
+  }
+  return { source: [source.trim()], translated: [translated.trim()], aligned: false };
+}
+
+/**
+ * Splits Markdown into chunks of at most `maxChars` for translation. Chunks
+ * break at section boundaries, packing consecutive short sections together; a
+ * section longer than `maxChars` is broken between its top-level blocks. A
+ * single block (e.g. a large table) is never split, even if it is too long.
+ */
+export function chunkMarkdown(markdown: string, maxChars: number): string[] {
+  const pieces = splitMarkdownSections(markdown).flatMap(section => {
+    if (section.length <= maxChars) return [section];
+    const blocks: string[] = [];
+    let current = '';
+    marked.lexer(section).forEach(token => {
+      if (current.trim() && current.length + token.raw.length > maxChars) {
+        blocks.push(current.trim());
+        current = '';
+      }
+      current += token.raw;
+    });
+    if (current.trim()) blocks.push(current.trim());
+    return blocks;
+  });
+
+  const chunks: string[] = [];
+  let current = '';
+  pieces.forEach(piece => {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? joinMarkdownSections([current, piece]) : piece;
+  });
+  if (current) chunks.push(current);
+
+  return chunks;
+}
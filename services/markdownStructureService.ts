@@ -0,0 +1,161 @@
+import { marked, Token, Tokens } from 'marked';
+import { alignMarkdownSections } from './markdownSections';
+import { multisetDifference, stripListMarkers } from './markdownComparison';
+
+export type StructureMismatchKind = 'heading' | 'list' | 'table' | 'number';
+
+export interface StructureMismatch {
+  kind: StructureMismatchKind;
+  detail: string;
+}
+
+export interface SectionStructureReport {
+  index: number;
+  title: string; // First line of the source section, to point the reader at it
+  mismatches: StructureMismatch[];
+}
+
+export interface StructureReport {
+  aligned: boolean; // False when sections could not be paired and the whole document was compared as one
+  sections: SectionStructureReport[]; // Only sections with at least one mismatch
+  mismatchCount: number;
+}
+
+interface MarkdownStructure {
+  headingLevels: number[];
+  lists: { ordered: boolean; items: number }[]; // In document order, nested lists included
+  tables: { columns: number; rows: number }[];
+  numbers: string[];
+}
+
+const NUMBER_PATTERN = /\p{Nd}+(?:[.,]\p{Nd}+)*/gu; // Any script's digits: Thai, Myanmar, Devanagari, full-width...
+const DIGIT_PATTERN = /\p{Nd}/u;
+
+// Unicode keeps each script's digits 0-9 in one run, so a digit's value is its
+// distance from the start of the run.
+function toAsciiDigit(digit: string): string {
+  const code = digit.codePointAt(0)!;
+  let zero = code;
+  while (DIGIT_PATTERN.test(String.fromCodePoint(zero - 1))) zero--;
+  return String((code - zero) % 10);
+}
+
+// "1,000" and "1.000" are the same number in different locales, as are "1.5"
+// and "1,5", but "1.5" is not "15". The last separator is the decimal mark when
+// it differs from the others, or, alone, when it is not followed by exactly
+// three digits (or follows a lone 0); the others group thousands.
+function normalizeNumber(value: string): string {
+  const digits = value.replace(/\p{Nd}/gu, digit => (digit >= '0' && digit <= '9' ? digit : toAsciiDigit(digit)));
+  const separators = digits.match(/[.,]/g) || [];
+  if (separators.length === 0) return digits;
+  const parts = digits.split(/[.,]/);
+  const fraction = parts[parts.length - 1];
+  const lastSeparator = separators[separators.length - 1];
+  const isDecimal = separators.length > 1
+    ? separators.slice(0, -1).every(separator => separator !== lastSeparator)
+    : fraction.length !== 3 || parts[0] === '0';
+  return isDecimal ? `${parts.slice(0, -1).join('')}.${fraction}` : parts.join('');
+}
+
+function collectStructure(tokens: Token[], structure: MarkdownStructure): void {
+  tokens.forEach(token => {
+    if (token.type === 'heading') {
+      structure.headingLevels.push((token as Tokens.Heading).depth);
+    } else if (token.type === 'list') {
+      const list = token as Tokens.List;
+      structure.lists.push({ ordered: list.ordered, items: list.items.length });
+      list.items.forEach(item => collectStructure(item.tokens, structure));
+    } else if (token.type === 'table') {
+      const table = token as Tokens.Table;
+      structure.tables.push({ columns: table.header.length, rows: table.rows.length });
+    } else if ('tokens' in token && Array.isArray(token.tokens)) {
+      collectStructure(token.tokens as Token[], structure);
+    }
+  });
+}
+
+export function describeMarkdownStructure(markdown: string): MarkdownStructure {
+  const structure: MarkdownStructure = { headingLevels: [], lists: [], tables: [], numbers: [] };
+  collectStructure(marked.lexer(markdown), structure);
+  structure.numbers = (stripListMarkers(markdown).match(NUMBER_PATTERN) || []).map(normalizeNumber);
+  return structure;
+}
+
+/** Structural differences between a source block and its translation. */
+export function compareMarkdownStructure(sourceMarkdown: string, translatedMarkdown: string): StructureMismatch[] {
+  const source = describeMarkdownStructure(sourceMarkdown);
+  const translated = describeMarkdownStructure(translatedMarkdown);
+  const mismatches: StructureMismatch[] = [];
+
+  if (source.headingLevels.join() !== translated.headingLevels.join()) {
+    const levels = (depths: number[]) => depths.map(depth => `H${depth}`).join(', ') || '없음';
+    mismatches.push({ kind: 'heading', detail: `제목 구조 불일치: ${levels(source.headingLevels)} → ${levels(translated.headingLevels)}` });
+  }
+
+  if (source.lists.length !== translated.lists.length) {
+    mismatches.push({ kind: 'list', detail: `목록 수 불일치: ${source.lists.length}개 → ${translated.lists.length}개` });
+  } else {
+    source.lists.forEach((list, index) => {
+      const other = translated.lists[index];
+      if (list.items !== other.items) {
+        mismatches.push({ kind: 'list', detail: `${index + 1}번째 목록의 항목 수 불일치: ${list.items}개 → ${other.items}개` });
+      } else if (list.ordered !== other.ordered) {
+        mismatches.push({ kind: 'list', detail: `${index + 1}번째 목록의 번호 매기기 방식이 바뀜` });
+      }
+    });
+  }
+
+  if (source.tables.length !== translated.tables.length) {
+    mismatches.push({ kind: 'table', detail: `표 수 불일치: ${source.tables.length}개 → ${translated.tables.length}개` });
+  } else {
+    source.tables.forEach((table, index) => {
+      const other = translated.tables[index];
+      if (table.columns !== other.columns || table.rows !== other.rows) {
+        mismatches.push({
+          kind: 'table',
+          detail: `${index + 1}번째 표 크기 불일치: ${table.columns}열×${table.rows}행 → ${other.columns}열×${other.rows}행`,
+        });
+      }
+    });
+  }
+
+  const missingNumbers = multisetDifference(source.numbers, translated.numbers);
+  const addedNumbers = multisetDifference(translated.numbers, source.numbers);
+  if (missingNumbers.length > 0) {
+    mismatches.push({ kind: 'number', detail: `번역에 없는 숫자: ${missingNumbers.join(', ')}` });
+  }
+  if (addedNumbers.length > 0) {
+    mismatches.push({ kind: 'number', detail: `원문에 없는 숫자: ${addedNumbers.join(', ')}` });
+  }
+
+  return mismatches;
+}
+
+/**
+ * Compares the Markdown structure of a translation with its source section by
+ * section. When the section counts differ (a heading was lost or added) the
+ * whole document is compared as one block.
+ */
+export function validateMarkdownStructure(sourceMarkdown: string, translatedMarkdown: string): StructureReport {
+  const { source, translated, aligned } = alignMarkdownSections(sourceMarkdown, translatedMarkdown);
+  const sections = source
+    .map((sourceSection, index) => ({
+      index,
+      title: sourceSection.split('\n')[0].replace(/^#+\s*/, '').trim(),
+      mismatches: compareMarkdownStructure(sourceSection, translated[index] || ''),
+    }))
+    .filter(section => section.mismatches.length > 0);
+
+  return {
+    aligned,
+    sections,
+    mismatchCount: sections.reduce((count, section) => count + section.mismatches.length, 0),
+  };
+}
+
+/** Extra instructions for re-translating a block whose structure was not kept. */
+export function buildStructureInstruction(mismatches: StructureMismatch[]): string {
+  return `A previous translation of this text did not keep its Markdown structure. Problems found:
+${mismatches.map(mismatch => `* ${mismatch.detail}`).join('\n')}
+Keep exactly the same headings (same levels), the same number of list items in each list (never merge or split items), the same table columns and rows, and every number from the source.`;
+}
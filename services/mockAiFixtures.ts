@@ -0,0 +1,107 @@
+// Canned responses for the offline mock provider (services/mockAiProvider.ts).
+// Inputs are matched after trimming; anything without a fixture gets the
+// provider's deterministic fallback instead.
+
+import { HazardAssessment, QuizQuestion } from '../types';
+
+export interface MockAiFixtures {
+  ocr: Record<string, string>; // fingerprint(base64 image data) → extracted text
+  defaultOcrText: string; // For images without a fixture
+  markdown: Record<string, string>; // Raw text → Markdown
+  translations: Record<string, Record<string, string>>; // Language code → source text → translation
+  quizzes: Record<string, QuizQuestion[]>; // Korean Markdown briefing → quiz questions
+  hazards: Record<string, HazardAssessment>; // Korean Markdown document → extracted hazards
+}
+
+const SAMPLE_BRIEFING_KO = `# 작업 전 안전점검 사항
+
+1.  **개인 보호구** 착용 상태 확인 (안전모, 안전화, 안전벨트)
+2.  작업 발판 및 안전 난간 이상 유무 확인
+3.  작업 구역 내 위험 요소 사전 제거 (낙하물, 전선 등)
+4.  비상 대피로 확보 여부 확인`;
+
+const SAMPLE_BRIEFING_RAW = `작업 전 안전점검 사항
+1. 개인 보호구 착용 상태 확인 (안전모, 안전화, 안전벨트)
+2. 작업 발판 및 안전 난간 이상 유무 확인
+3. 작업 구역 내 위험 요소 사전 제거 (낙하물, 전선 등)
+4. 비상 대피로 확보 여부 확인`;
+
+export const DEFAULT_MOCK_FIXTURES: MockAiFixtures = {
+  ocr: {},
+  defaultOcrText: SAMPLE_BRIEFING_RAW,
+  markdown: {
+    [SAMPLE_BRIEFING_RAW]: SAMPLE_BRIEFING_KO,
+  },
+  translations: {
+    'en-US': {
+      [SAMPLE_BRIEFING_KO]: `# Pre-Work Safety Checklist
+
+1.  Check that **personal protective equipment** is worn properly (hard hat, safety shoes, safety harness)
+2.  Check the work platform and guardrails for defects
+3.  Remove hazards from the work area in advance (falling objects, electric cables, etc.)
+4.  Confirm that the emergency evacuation route is clear`,
+    },
+    'vi-VN': {
+      [SAMPLE_BRIEFING_KO]: `# Các hạng mục kiểm tra an toàn trước khi làm việc
+
+1.  Kiểm tra việc mang **trang bị bảo hộ cá nhân** (mũ bảo hộ, giày bảo hộ, dây đai an toàn)
+2.  Kiểm tra sàn thao tác và lan can an toàn có bất thường không
+3.  Loại bỏ trước các yếu tố nguy hiểm trong khu vực làm việc (vật rơi, dây điện, v.v.)
+4.  Xác nhận lối thoát hiểm khẩn cấp đã được đảm bảo`,
+    },
+  },
+  quizzes: {
+    [SAMPLE_BRIEFING_KO]: [
+      {
+        question: '작업 전에 착용 상태를 확인해야 하는 개인 보호구가 아닌 것은?',
+        options: ['안전모', '안전화', '귀마개', '안전벨트'],
+        answerIndex: 2,
+        explanation: '교육에서 확인하라고 한 보호구는 안전모, 안전화, 안전벨트입니다.',
+      },
+      {
+        question: '작업 발판과 함께 이상 유무를 확인해야 하는 것은?',
+        options: ['안전 난간', '휴게실', '자재 창고'],
+        answerIndex: 0,
+        explanation: '작업 발판 및 안전 난간의 이상 유무를 확인해야 합니다.',
+      },
+      {
+        question: '작업 구역의 위험 요소는 언제 제거해야 합니까?',
+        options: ['작업이 끝난 뒤', '작업 전에 미리', '관리자가 지시할 때만'],
+        answerIndex: 1,
+        explanation: '낙하물, 전선 등 위험 요소는 작업 전에 미리 제거합니다.',
+      },
+      {
+        question: '작업 전에 확보되었는지 확인해야 하는 것은?',
+        options: ['주차 공간', '자재 반입로', '비상 대피로'],
+        answerIndex: 2,
+        explanation: '비상 시 대피할 수 있도록 비상 대피로 확보 여부를 확인합니다.',
+      },
+    ],
+  },
+  hazards: {
+    [SAMPLE_BRIEFING_KO]: {
+      tasks: [
+        {
+          task: '작업 전 안전점검',
+          hazards: [
+            { hazard: '작업 발판 및 안전 난간 결함에 의한 추락', riskLevel: 'high', controls: ['작업 발판 및 안전 난간 이상 유무 확인'] },
+            { hazard: '낙하물에 맞음', riskLevel: 'medium', controls: ['작업 구역 내 낙하물 사전 제거', '안전모 착용'] },
+            { hazard: '전선에 의한 감전 및 걸려 넘어짐', riskLevel: 'medium', controls: ['작업 구역 내 전선 사전 정리'] },
+            { hazard: '비상시 대피 지연', riskLevel: 'low', controls: ['비상 대피로 확보 여부 확인'] },
+          ],
+        },
+      ],
+      ppe: ['안전모', '안전화', '안전벨트'],
+    },
+  },
+};
+
+/** FNV-1a hash of a string, as 8 hex digits: the key for OCR fixtures. */
+export function fingerprint(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
@@ -0,0 +1,173 @@
+import { HazardAssessment, HazardTask, QuizQuestion, RiskLevel } from '../types';
+import { AiProvider } from './aiProvider';
+import { DEFAULT_MOCK_FIXTURES, MockAiFixtures, fingerprint } from './mockAiFixtures';
+import { sleep } from './retry';
+
+// An offline provider for development, demos and tests: no network, no key,
+// and the same answer for the same input every time.
+
+export interface MockAiOptions {
+  fixtures?: MockAiFixtures;
+  latencyMs?: number; // Simulated response time per call; streamed answers spread it over their lines
+  transientFailures?: number; // The first N calls fail with a retryable error, to exercise retry paths
+}
+
+// Leading Markdown syntax that a pseudo-translation keeps as it is.
+const LINE_PREFIX = /^(\s*(?:#{1,6}\s+|[*+-]\s+|\d+[.)]\s+|>\s*)*)(.*)$/;
+
+/**
+ * The fallback "translation" for text without a fixture: every line keeps its
+ * Markdown syntax, numbers and emphasis, with its text tagged by the language,
+ * e.g. "1. **안전모** 착용" → "1. [VI] **안전모** 착용". Structure checks pass on it.
+ */
+export function pseudoTranslate(text: string, targetLanguageCode: string): string {
+  const tag = `[${targetLanguageCode.split('-')[0].toUpperCase()}]`;
+  return text.trim().split('\n').map(line => {
+    if (!line.trim()) return line;
+    if (/^\s*\|?(\s*:?-{3,}:?\s*\|)+\s*:?-*:?\s*$/.test(line)) return line; // Table separator row
+    if (line.trim().startsWith('|')) {
+      return line.replace(/\|([^|]+)(?=\|)/g, (cell, content: string) => content.trim() ? `| ${tag} ${content.trim()} ` : cell);
+    }
+    const [, prefix, content] = line.match(LINE_PREFIX) || ['', '', line];
+    return content.trim() ? `${prefix}${tag} ${content}` : line;
+  }).join('\n');
+}
+
+// Wrong options for the fallback quiz: things a TBM would never ask for.
+const MOCK_QUIZ_DISTRACTORS = [
+  '보호구 없이 빠르게 작업한다',
+  '위험 요소는 작업이 끝난 뒤 확인한다',
+  '이상이 있어도 관리자에게 알리지 않는다',
+  '혼자 판단해서 작업 순서를 바꾼다',
+];
+
+/**
+ * The fallback quiz for a briefing without a fixture: one question per list
+ * item (or line), whose correct option is that item, with the position of the
+ * answer rotating from question to question.
+ */
+export function pseudoQuiz(sourceMarkdown: string, questionCount: number): QuizQuestion[] {
+  const lines = sourceMarkdown.split('\n').map(line => line.trim()).filter(Boolean);
+  const listItems = lines.filter(line => /^([*+-]|\d+[.)])\s+/.test(line));
+  const statements = (listItems.length > 0 ? listItems : lines)
+    .map(line => line.replace(/^(#{1,6}|[*+-]|\d+[.)])\s+/, '').replace(/\*\*|__|`/g, '').trim())
+    .filter(Boolean);
+  return statements.slice(0, questionCount).map((statement, index) => {
+    const answerIndex = index % 3;
+    const distractors = [0, 1].map(offset => MOCK_QUIZ_DISTRACTORS[(index + offset) % MOCK_QUIZ_DISTRACTORS.length]);
+    const options = [...distractors];
+    options.splice(answerIndex, 0, statement);
+    return {
+      question: `오늘 교육에서 지키라고 한 내용은 무엇입니까?`,
+      options,
+      answerIndex,
+      explanation: `교육 내용: ${statement}`,
+    };
+  });
+}
+
+const MOCK_PPE_TERMS = ['안전모', '안전화', '안전대', '안전벨트', '보안경', '귀마개', '방진마스크', '안전장갑', '안전조끼'];
+
+const mockRiskLevel = (text: string): RiskLevel | null =>
+  /^(상|high)$/i.test(text) ? 'high' : /^(중|medium)$/i.test(text) ? 'medium' : /^(하|low)$/i.test(text) ? 'low' : null;
+
+/**
+ * The fallback extraction for a document without a fixture. A table is read
+ * as task | hazard | ... | controls rows (a 상/중/하 cell gives the risk
+ * level); otherwise every list item becomes a hazard of one task named after
+ * the first heading. PPE is picked from a fixed list of Korean terms.
+ */
+export function pseudoHazards(sourceMarkdown: string): HazardAssessment {
+  const lines = sourceMarkdown.split('\n').map(line => line.trim());
+  const cells = (line: string) => line.replace(/^\||\|$/g, '').split('|').map(cell => cell.trim());
+  const rows = lines.filter(line => line.startsWith('|') && !/^\|?(\s*:?-{3,}:?\s*\|)+/.test(line)).map(cells).filter(row => row.length >= 3);
+  const plain = (text: string) => text.replace(/\*\*|__|`/g, '').trim();
+
+  const tasks: HazardTask[] = [];
+  if (rows.length > 1) {
+    for (const row of rows.slice(1)) { // The first row is the header
+      const [taskName, hazard, ...rest] = row.map(plain);
+      if (!taskName || !hazard) continue;
+      const riskLevel = rest.map(mockRiskLevel).find(level => level !== null) || 'medium';
+      const controls = rest.filter(cell => cell && !mockRiskLevel(cell)).flatMap(cell => cell.split(/\s*(?:,|\/|<br>)\s*/)).filter(Boolean);
+      let task = tasks.find(existing => existing.task === taskName);
+      if (!task) {
+        task = { task: taskName, hazards: [] };
+        tasks.push(task);
+      }
+      task.hazards.push({ hazard, riskLevel, controls });
+    }
+  } else {
+    const heading = lines.find(line => /^#{1,6}\s/.test(line))?.replace(/^#{1,6}\s+/, '');
+    const items = lines.filter(line => /^([*+-]|\d+[.)])\s+/.test(line)).map(line => plain(line.replace(/^([*+-]|\d+[.)])\s+/, '')));
+    if (items.length > 0) {
+      tasks.push({ task: plain(heading || '작업 전체'), hazards: items.map(hazard => ({ hazard, riskLevel: 'medium', controls: [] })) });
+    }
+  }
+  return { tasks, ppe: MOCK_PPE_TERMS.filter(term => sourceMarkdown.includes(term)) };
+}
+
+export function createMockAiProvider(options: MockAiOptions = {}): AiProvider {
+  const { fixtures = DEFAULT_MOCK_FIXTURES, latencyMs = 0 } = options;
+  let failuresLeft = options.transientFailures || 0;
+
+  const respond = async (signal?: AbortSignal) => {
+    signal?.throwIfAborted();
+    if (latencyMs > 0) await sleep(latencyMs, signal);
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      throw new Error('503 UNAVAILABLE: The mock model is overloaded.');
+    }
+  };
+
+  const translate = (text: string, targetLanguageCode: string) =>
+    fixtures.translations[targetLanguageCode]?.[text.trim()] ?? pseudoTranslate(text, targetLanguageCode);
+
+  return {
+    id: 'mock',
+    label: 'Offline mock (fixtures)',
+
+    extractTextFromImageData: async (base64ImageData, _mimeType, signal) => {
+      await respond(signal);
+      return fixtures.ocr[fingerprint(base64ImageData)] ?? fixtures.defaultOcrText;
+    },
+
+    convertTextToMarkdown: async (rawText, signal) => {
+      if (!rawText.trim()) return '';
+      await respond(signal);
+      return fixtures.markdown[rawText.trim()] ?? rawText.trim();
+    },
+
+    translateText: async (text, targetLanguageCode, _systemInstructionText, signal) => {
+      await respond(signal);
+      return translate(text, targetLanguageCode);
+    },
+
+    translateTextStream: async (text, targetLanguageCode, onPartial, _systemInstructionText, signal) => {
+      signal?.throwIfAborted();
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        throw new Error('503 UNAVAILABLE: The mock model is overloaded.');
+      }
+      const lines = translate(text, targetLanguageCode).split('\n');
+      let accumulated = '';
+      for (let i = 0; i < lines.length; i++) {
+        if (latencyMs > 0) await sleep(latencyMs / lines.length, signal);
+        signal?.throwIfAborted();
+        accumulated += (i > 0 ? '\n' : '') + lines[i];
+        onPartial(accumulated);
+      }
+      return accumulated;
+    },
+
+    generateQuiz: async (sourceMarkdown, questionCount, signal) => {
+      await respond(signal);
+      return fixtures.quizzes[sourceMarkdown.trim()]?.slice(0, questionCount) ?? pseudoQuiz(sourceMarkdown, questionCount);
+    },
+
+    extractHazards: async (sourceMarkdown, signal) => {
+      await respond(signal);
+      return fixtures.hazards[sourceMarkdown.trim()] ?? pseudoHazards(sourceMarkdown);
+    },
+  };
+}
@@ -0,0 +1,207 @@
+import {
+  AiProvider,
+  OCR_PROMPT,
+  MARKDOWN_SYSTEM_INSTRUCTION,
+  buildMarkdownPrompt,
+  buildTranslationPrompt,
+  buildTranslationSystemInstruction,
+  QUIZ_SYSTEM_INSTRUCTION,
+  buildQuizPrompt,
+  parseQuizJson,
+  HAZARD_SYSTEM_INSTRUCTION,
+  buildHazardPrompt,
+  parseHazardJson,
+  stripMarkdownFence,
+  stripOpeningFence,
+} from './aiProvider';
+
+// Any server that speaks the OpenAI Chat Completions API: a self-hosted vLLM,
+// Ollama or LiteLLM gateway, for example. OCR needs a vision-capable model.
+
+export interface OpenAiCompatibleConfig {
+  baseUrl: string; // e.g. http://gpu-server:8000/v1
+  model: string;
+  apiKey?: string; // Sent as a bearer token when set; only the AI proxy (server/) passes one
+}
+
+type ChatContent = string | ({ type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } })[];
+
+interface ChatMessage {
+  role: 'system' | 'user';
+  content: ChatContent;
+}
+
+interface ChatRequest {
+  messages: ChatMessage[];
+  temperature: number;
+  top_p: number;
+}
+
+/** choices[0].message.content of a completion, or choices[0].delta.content of a streamed chunk. */
+function firstChoiceContent(body: unknown, field: 'message' | 'delta'): unknown {
+  const { choices } = (body ?? {}) as Record<string, unknown>;
+  const choice = (Array.isArray(choices) ? choices[0] ?? {} : {}) as Record<string, unknown>;
+  return ((choice[field] ?? {}) as Record<string, unknown>).content;
+}
+
+function toProviderError(error: unknown, step: string): Error {
+  if (error instanceof Error) {
+    if (/\b401\b|\b403\b/.test(error.message)) {
+      return new Error(`The ${step} server rejected the API key. Please check the OpenAI-compatible provider settings. (${error.message})`);
+    }
+    return new Error(`AI ${step} service error: ${error.message}`);
+  }
+  return new Error(`An unknown error occurred while communicating with the AI ${step} service.`);
+}
+
+export function createOpenAiCompatibleProvider(config: OpenAiCompatibleConfig): AiProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (request: ChatRequest, stream: boolean, signal?: AbortSignal): Promise<Response> => {
+    if (!config.baseUrl.trim() || !config.model.trim()) {
+      throw new Error("The OpenAI-compatible provider needs a base URL and a model name.");
+    }
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: config.model, stream, ...request }),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`HTTP ${response.status} ${response.statusText}${detail ? `: ${detail.slice(0, 300)}` : ''}`);
+    }
+    return response;
+  };
+
+  const complete = async (request: ChatRequest, step: string, signal?: AbortSignal): Promise<string> => {
+    signal?.throwIfAborted();
+    try {
+      const response = await post(request, false, signal);
+      const body: unknown = await response.json();
+      const content = firstChoiceContent(body, 'message');
+      if (typeof content !== 'string') {
+        console.warn(`OpenAI-compatible server returned non-text response for ${step}:`, body);
+        throw new Error(`${step} failed: Unexpected response format from AI.`);
+      }
+      return content;
+    } catch (error) {
+      signal?.throwIfAborted();
+      console.error(`Error calling the OpenAI-compatible server for ${step}:`, error);
+      throw toProviderError(error, step);
+    }
+  };
+
+  const translationRequest = (text: string, targetLanguageCode: string, systemInstructionText?: string): ChatRequest => ({
+    messages: [
+      { role: 'system', content: buildTranslationSystemInstruction(systemInstructionText) },
+      { role: 'user', content: buildTranslationPrompt(text, targetLanguageCode) },
+    ],
+    temperature: 0.3,
+    top_p: 0.9,
+  });
+
+  return {
+    id: 'openai-compatible',
+    label: `OpenAI-compatible (${config.model || 'no model'})`,
+
+    extractTextFromImageData: async (base64ImageData, mimeType, signal) => {
+      const text = await complete({
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'image_url', image_url: { url: `data:${mimeType};base64,${base64ImageData}` } },
+            { type: 'text', text: OCR_PROMPT },
+          ],
+        }],
+        temperature: 0.1,
+        top_p: 0.9,
+      }, 'OCR', signal);
+      return text.trim();
+    },
+
+    convertTextToMarkdown: async (rawText, signal) => {
+      if (!rawText.trim()) return '';
+      const markdown = await complete({
+        messages: [
+          { role: 'system', content: MARKDOWN_SYSTEM_INSTRUCTION },
+          { role: 'user', content: buildMarkdownPrompt(rawText) },
+        ],
+        temperature: 0.2,
+        top_p: 0.8,
+      }, 'Markdown conversion', signal);
+      return stripMarkdownFence(markdown);
+    },
+
+    translateText: async (text, targetLanguageCode, systemInstructionText, signal) => {
+      const translated = await complete(translationRequest(text, targetLanguageCode, systemInstructionText), 'translation', signal);
+      return stripMarkdownFence(translated);
+    },
+
+    // Reads the server-sent events of a streamed completion ("data: {...}" lines, ending with "data: [DONE]").
+    translateTextStream: async (text, targetLanguageCode, onPartial, systemInstructionText, signal) => {
+      signal?.throwIfAborted();
+      try {
+        const response = await post(translationRequest(text, targetLanguageCode, systemInstructionText), true, signal);
+        if (!response.body) throw new Error("The server did not stream a response.");
+
+        const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+        let buffered = '';
+        let accumulated = '';
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffered += value;
+          const lines = buffered.split('\n');
+          buffered = lines.pop() || '';
+          for (const line of lines) {
+            const data = line.replace(/^data:\s*/, '').trim();
+            if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+            const delta = firstChoiceContent(JSON.parse(data), 'delta');
+            if (typeof delta === 'string' && delta) {
+              accumulated += delta;
+              onPartial(stripOpeningFence(accumulated));
+            }
+          }
+        }
+
+        if (!accumulated.trim()) {
+          throw new Error("Translation failed: The AI returned an empty response.");
+        }
+        return stripMarkdownFence(accumulated);
+      } catch (error) {
+        signal?.throwIfAborted();
+        console.error("Error calling the OpenAI-compatible server for streaming translation:", error);
+        throw toProviderError(error, 'translation');
+      }
+    },
+
+    // Not every compatible server supports JSON mode, so the prompt asks for JSON and the answer is checked.
+    generateQuiz: async (sourceMarkdown, questionCount, signal) => {
+      const json = await complete({
+        messages: [
+          { role: 'system', content: QUIZ_SYSTEM_INSTRUCTION },
+          { role: 'user', content: buildQuizPrompt(sourceMarkdown, questionCount) },
+        ],
+        temperature: 0.4,
+        top_p: 0.9,
+      }, 'quiz generation', signal);
+      return parseQuizJson(json);
+    },
+
+    extractHazards: async (sourceMarkdown, signal) => {
+      const json = await complete({
+        messages: [
+          { role: 'system', content: HAZARD_SYSTEM_INSTRUCTION },
+          { role: 'user', content: buildHazardPrompt(sourceMarkdown) },
+        ],
+        temperature: 0.1,
+        top_p: 0.9,
+      }, 'hazard extraction', signal);
+      return parseHazardJson(json);
+    },
+  };
+}
@@ -0,0 +1,114 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { PdfPageExtraction, PageProgress } from '../types';
+import { PDF_PAGE_CONCURRENCY, OCR_MAX_ATTEMPTS, OCR_RETRY_BASE_DELAY_MS } from '../constants';
+import { extractTextFromImageData } from './aiService';
+import { extractPageTextLayer, renderPageToJpeg } from './pdfTextService';
+import { withRetry } from './retry';
+
+export interface PdfIngestionOptions {
+  concurrency?: number;
+  onProgress?: (progress: PageProgress) => void;
+  signal?: AbortSignal;
+}
+
+async function processPage(
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  signal?: AbortSignal
+): Promise<PdfPageExtraction> {
+  let attempts = 0;
+  let method: PdfPageExtraction['method'] = 'text-layer';
+  let page: PDFPageProxy | undefined;
+
+  try {
+    page = await pdf.getPage(pageNumber);
+    // Digital PDFs (Word/HWP exports) already carry a text layer; only fall back
+    // to OCR for pages that are scanned or have too little readable text.
+    const textLayer = await extractPageTextLayer(page);
+    if (textLayer.isUsable) {
+      return { pageNumber, method, status: 'done', text: textLayer.markdown, charCount: textLayer.charCount, attempts };
+    }
+
+    method = 'ocr';
+    signal?.throwIfAborted();
+    const base64ImageData = await renderPageToJpeg(page, canvas);
+    if (!base64ImageData) {
+      throw new Error("Page could not be rendered to an image.");
+    }
+    const text = await withRetry(attempt => {
+      attempts = attempt;
+      return extractTextFromImageData(base64ImageData, 'image/jpeg', signal);
+    }, {
+      maxAttempts: OCR_MAX_ATTEMPTS,
+      baseDelayMs: OCR_RETRY_BASE_DELAY_MS,
+      onRetry: (error, attempt, delayMs) =>
+        console.warn(`OCR attempt ${attempt} failed for PDF page ${pageNumber}, retrying in ${delayMs}ms:`, error),
+      signal,
+    });
+    return { pageNumber, method, status: 'done', text, charCount: text.length, attempts };
+  } catch (err: any) {
+    signal?.throwIfAborted(); // A cancelled job is not a failed page
+    console.error(`Extraction failed for PDF page ${pageNumber}:`, err);
+    return {
+      pageNumber,
+      method,
+      status: 'failed',
+      text: '',
+      charCount: 0,
+      attempts,
+      error: err?.message || 'Unknown error',
+    };
+  } finally {
+    page?.cleanup();
+  }
+}
+
+/**
+ * Extracts the given pages with at most `concurrency` pages in flight. Never
+ * rejects for a single page: failures come back as `status: 'failed'` entries
+ * so the caller can report and retry them. Rejects with the abort reason if
+ * `signal` is aborted.
+ */
+export async function processPdfPages(
+  pdf: PDFDocumentProxy,
+  pageNumbers: number[],
+  options: PdfIngestionOptions = {}
+): Promise<PdfPageExtraction[]> {
+  const { concurrency = PDF_PAGE_CONCURRENCY, onProgress, signal } = options;
+  const results: PdfPageExtraction[] = [];
+  const total = pageNumbers.length;
+  let nextIndex = 0;
+
+  onProgress?.({ completed: 0, total });
+
+  const worker = async () => {
+    // Each worker renders into its own canvas so concurrent pages don't clobber each other.
+    const canvas = document.createElement('canvas');
+    while (nextIndex < pageNumbers.length && !signal?.aborted) {
+      const pageNumber = pageNumbers[nextIndex++];
+      results.push(await processPage(pdf, pageNumber, canvas, signal));
+      onProgress?.({ completed: results.length, total });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, total)) }, worker));
+  signal?.throwIfAborted();
+  return results.sort((a, b) => a.pageNumber - b.pageNumber);
+}
+
+/**
+ * Replaces entries in `previous` with the matching pages from `updates`.
+ */
+export function mergePageResults(previous: PdfPageExtraction[], updates: PdfPageExtraction[]): PdfPageExtraction[] {
+  const byPage = new Map(previous.map(page => [page.pageNumber, page]));
+  updates.forEach(page => byPage.set(page.pageNumber, page));
+  return [...byPage.values()].sort((a, b) => a.pageNumber - b.pageNumber);
+}
+
+export function assemblePageText(pages: PdfPageExtraction[]): string {
+  return pages
+    .filter(page => page.status === 'done' && page.text.trim())
+    .map(page => page.text.trim())
+    .join('\n\n');
+}
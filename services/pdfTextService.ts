@@ -0,0 +1,221 @@
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem, TextMarkedContent } from 'pdfjs-dist/types/src/display/api';
+
+// A page needs at least this many non-whitespace characters in its text layer
+// before we trust it over OCR. Scanned pages usually have none, or only a stray
+// page number / watermark.
+const MIN_TEXT_LAYER_CHARS = 30;
+// Broken font encodings (common in HWP exports) show up as U+FFFD or private-use
+// glyphs. Above this ratio the text layer is treated as unreadable.
+const MAX_GARBLED_CHAR_RATIO = 0.1;
+
+export interface PageTextLayerResult {
+  markdown: string;
+  charCount: number;
+  isUsable: boolean;
+}
+
+interface PositionedItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+interface TextLine {
+  y: number;
+  fontSize: number;
+  cells: { x: number; text: string }[];
+}
+
+function isTextItem(item: TextItem | TextMarkedContent): item is TextItem {
+  return typeof (item as TextItem).str === 'string';
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function toPositionedItems(items: Array<TextItem | TextMarkedContent>): PositionedItem[] {
+  return items
+    .filter(isTextItem)
+    .filter(item => item.str.trim().length > 0)
+    .map(item => {
+      const [, , c, d, e, f] = item.transform;
+      return {
+        str: item.str,
+        x: e,
+        y: f,
+        width: item.width,
+        // The vertical scale of the text matrix is the rendered font size.
+        fontSize: Math.hypot(c, d) || item.height || 1,
+      };
+    });
+}
+
+/**
+ * Groups items sharing a baseline into lines (top to bottom, left to right) and
+ * splits each line into cells wherever the horizontal gap is wide enough to
+ * indicate a separate table column.
+ */
+function buildLines(items: PositionedItem[]): TextLine[] {
+  // PDF user space has its origin at the bottom-left, so larger y is higher up.
+  const sorted = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+  const rows: PositionedItem[][] = [];
+
+  for (const item of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - item.y) <= Math.max(row[0].fontSize, item.fontSize) * 0.5) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  }
+
+  return rows.map(row => {
+    row.sort((a, b) => a.x - b.x);
+    const fontSize = Math.max(...row.map(item => item.fontSize));
+    const cells: TextLine['cells'] = [];
+    let prevEnd = -Infinity;
+
+    for (const item of row) {
+      const gap = item.x - prevEnd;
+      const current = cells[cells.length - 1];
+      if (!current || gap > fontSize * 2) {
+        cells.push({ x: item.x, text: item.str.trim() });
+      } else if (gap > fontSize * 0.2 && !current.text.endsWith(' ')) {
+        current.text += ' ' + item.str.trim();
+      } else {
+        current.text += item.str;
+      }
+      prevEnd = item.x + item.width;
+    }
+
+    return { y: row[0].y, fontSize, cells: cells.map(cell => ({ ...cell, text: cell.text.trim() })) };
+  });
+}
+
+function headingPrefix(fontSize: number, bodyFontSize: number): string {
+  if (bodyFontSize <= 0) return '';
+  const ratio = fontSize / bodyFontSize;
+  if (ratio >= 1.6) return '# ';
+  if (ratio >= 1.3) return '## ';
+  if (ratio >= 1.15) return '### ';
+  return '';
+}
+
+// A dash straight before a digit is a minus sign ("-10℃"), and a number needs a
+// space after its marker to be a list item, not a decimal ("1.5m").
+function formatListItem(text: string): string {
+  const bullet = text.match(/^(?:[•·▪▫◦○●□■◆◇※*]|[\-–](?!\d))\s*(.*)$/);
+  if (bullet) return `- ${bullet[1]}`;
+  const numbered = text.match(/^(\d{1,2})[.)]\s+(.*)$/);
+  if (numbered) return `${numbered[1]}. ${numbered[2]}`;
+  return text;
+}
+
+function escapeTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|');
+}
+
+function renderTable(rows: TextLine[]): string {
+  const columnCount = Math.max(...rows.map(row => row.cells.length));
+  const lines = rows.map(row => {
+    const cells = row.cells.map(cell => escapeTableCell(cell.text));
+    while (cells.length < columnCount) cells.push('');
+    return `| ${cells.join(' | ')} |`;
+  });
+  lines.splice(1, 0, `|${' --- |'.repeat(columnCount)}`);
+  return lines.join('\n');
+}
+
+/**
+ * Rebuilds Markdown from the positions of a page's text items: headings from
+ * font size relative to the page's body text, tables from runs of lines that
+ * split into several columns, and paragraphs from vertical gaps.
+ */
+export function textItemsToMarkdown(items: Array<TextItem | TextMarkedContent>): string {
+  const lines = buildLines(toPositionedItems(items));
+  if (lines.length === 0) return '';
+
+  const bodyFontSize = median(lines.map(line => line.fontSize));
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push(paragraph.join('\n'));
+      paragraph = [];
+    }
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.cells.length >= 2) {
+      let end = i + 1;
+      while (end < lines.length && lines[end].cells.length >= 2) end++;
+      if (end - i >= 2) {
+        flushParagraph();
+        blocks.push(renderTable(lines.slice(i, end)));
+        i = end;
+        continue;
+      }
+    }
+
+    const text = line.cells.map(cell => cell.text).join(' ');
+    const prefix = headingPrefix(line.fontSize, bodyFontSize);
+    if (prefix) {
+      flushParagraph();
+      blocks.push(prefix + text);
+    } else {
+      const prev = lines[i - 1];
+      if (prev && prev.y - line.y > Math.max(prev.fontSize, line.fontSize) * 1.8) {
+        flushParagraph();
+      }
+      paragraph.push(formatListItem(text));
+    }
+    i++;
+  }
+  flushParagraph();
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Reads a page's embedded text layer and decides whether it is good enough to
+ * skip OCR for that page.
+ */
+export async function extractPageTextLayer(page: PDFPageProxy): Promise<PageTextLayerResult> {
+  const content = await page.getTextContent();
+  const markdown = textItemsToMarkdown(content.items);
+
+  const visibleChars = markdown.replace(/[\s#|\-*]/g, '');
+  const charCount = visibleChars.length;
+  const garbledCount = (visibleChars.match(/[\uFFFD\uE000-\uF8FF]/g) || []).length;
+  const isUsable = charCount >= MIN_TEXT_LAYER_CHARS && garbledCount / charCount <= MAX_GARBLED_CHAR_RATIO;
+
+  return { markdown, charCount, isUsable };
+}
+
+/**
+ * Renders a page to the given canvas and returns it as base64 JPEG data for OCR.
+ */
+export async function renderPageToJpeg(page: PDFPageProxy, canvas: HTMLCanvasElement): Promise<string> {
+  const viewport = page.getViewport({ scale: 1.5 });
+  canvas.height = viewport.height;
+  canvas.width = viewport.width;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error("Could not get canvas context for PDF page rendering.");
+  }
+
+  await page.render({ canvasContext: context, viewport: viewport }).promise;
+  const imageDataUrl = canvas.toDataURL('image/jpeg', 0.85); // OCR from JPEG
+  return imageDataUrl.split(',')[1] || '';
+}
@@ -0,0 +1,48 @@
+import { LawTerm, PictogramId } from '../types';
+import { TERM_PICTOGRAMS } from '../constants';
+import { findGlossaryMatches } from './glossaryService';
+import { alignMarkdownSections, splitMarkdownLines } from './markdownSections';
+
+export interface PictogramLine {
+  text: string; // A translated line (see splitMarkdownLines)
+  pictograms: PictogramId[]; // Signs for the Korean line it translates, in glossary order
+}
+
+export interface SectionPictograms {
+  sections: string[]; // The translated sections, split like the terminology check splits them
+  lines: PictogramLine[][]; // The lines of each section with their signs
+}
+
+const compact = (text: string) => text.replace(/\s+/g, '');
+
+const PICTOGRAM_BY_TERM = new Map(Object.entries(TERM_PICTOGRAMS).map(([term, id]) => [compact(term), id]));
+
+/** The signs for the glossary terms `koreanText` mentions, each sign once. */
+export function pictogramsForText(koreanText: string, glossary: LawTerm[]): PictogramId[] {
+  const ids = findGlossaryMatches(koreanText, glossary)
+    .map(term => PICTOGRAM_BY_TERM.get(compact(term.term_ko)))
+    .filter((id): id is PictogramId => id !== undefined);
+  return [...new Set(ids)];
+}
+
+/**
+ * The signs to show next to each translated line, read from the Korean line it
+ * translates: the translation may word a term any way, the source names it as
+ * the glossary does. Lines pair up by position within a section; when a
+ * section's translation has a different number of lines, the signs of the whole
+ * section go on its first line. When the sections do not pair up, the whole
+ * document is one section.
+ */
+export function pictogramsByLine(sourceText: string, translatedText: string, glossary: LawTerm[]): SectionPictograms {
+  const { source, translated } = alignMarkdownSections(sourceText, translatedText);
+  const lines = source.map((sourceSection, index) => {
+    const sourceLines = splitMarkdownLines(sourceSection);
+    const translatedLines = splitMarkdownLines(translated[index]);
+    if (sourceLines.length === translatedLines.length) {
+      return translatedLines.map((text, line) => ({ text, pictograms: pictogramsForText(sourceLines[line], glossary) }));
+    }
+    const sectionPictograms = pictogramsForText(sourceSection, glossary);
+    return translatedLines.map((text, line) => ({ text, pictograms: line === 0 ? sectionPictograms : [] }));
+  });
+  return { sections: translated, lines };
+}
@@ -0,0 +1,96 @@
+import { AiProvider, parseHazardAssessment, parseQuizQuestions } from './aiProvider';
+import { AI_PROXY_ROUTES, TranslateStreamLine } from './aiProxyApi';
+
+// Calls the local AI proxy (server/), which holds the API key. In development
+// Vite forwards /api to it (vite.config.ts); `origin` is for a proxy elsewhere.
+
+async function readError(response: Response): Promise<Error> {
+  const body: unknown = await response.json().catch(() => null);
+  const { error } = (body ?? {}) as Record<string, unknown>;
+  // The proxy passes the provider's message through, so retry logic still sees "503", "overloaded" etc.
+  return new Error(typeof error === 'string' ? error : `AI proxy request failed (HTTP ${response.status}).`);
+}
+
+function parseStreamLine(line: string): TranslateStreamLine {
+  const { partial, text, error } = (JSON.parse(line) ?? {}) as Record<string, unknown>;
+  if (typeof error === 'string') return { error };
+  if (typeof text === 'string') return { text };
+  if (typeof partial === 'string') return { partial };
+  throw new Error("AI proxy streamed an unexpected response.");
+}
+
+export function createProxyAiProvider(origin = ''): AiProvider {
+  const post = async (route: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    signal?.throwIfAborted();
+    let response: Response;
+    try {
+      response = await fetch(`${origin}${route}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+    } catch (error) {
+      signal?.throwIfAborted();
+      throw new Error(`Could not reach the AI proxy (network error). Is \`npm run server\` running? ${error instanceof Error ? error.message : ''}`.trim());
+    }
+    if (!response.ok) throw await readError(response);
+    return response;
+  };
+
+  const postForText = async (route: string, body: unknown, signal?: AbortSignal): Promise<string> => {
+    const response = await post(route, body, signal);
+    const result: unknown = await response.json();
+    const { text } = (result ?? {}) as Record<string, unknown>;
+    if (typeof text !== 'string') throw new Error("AI proxy returned an unexpected response.");
+    return text;
+  };
+
+  return {
+    id: 'proxy',
+    label: 'AI proxy server',
+
+    extractTextFromImageData: (imageData, mimeType, signal) =>
+      postForText(AI_PROXY_ROUTES.ocr, { imageData, mimeType }, signal),
+
+    convertTextToMarkdown: async (rawText, signal) =>
+      rawText.trim() ? postForText(AI_PROXY_ROUTES.format, { rawText }, signal) : '',
+
+    translateText: (text, targetLanguageCode, systemInstruction, signal) =>
+      postForText(AI_PROXY_ROUTES.translate, { text, targetLanguageCode, systemInstruction }, signal),
+
+    translateTextStream: async (text, targetLanguageCode, onPartial, systemInstruction, signal) => {
+      const response = await post(AI_PROXY_ROUTES.translateStream, { text, targetLanguageCode, systemInstruction }, signal);
+      if (!response.body) throw new Error("AI proxy did not stream a response.");
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffered = '';
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffered += value;
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const message = parseStreamLine(line);
+          if ('error' in message) throw new Error(message.error);
+          if ('text' in message) return message.text;
+          onPartial(message.partial);
+        }
+      }
+      signal?.throwIfAborted();
+      throw new Error("AI proxy stream ended before the translation was complete.");
+    },
+
+    generateQuiz: async (sourceText, questionCount, signal) => {
+      const response = await post(AI_PROXY_ROUTES.quiz, { sourceText, questionCount }, signal);
+      return parseQuizQuestions(await response.json());
+    },
+
+    extractHazards: async (sourceText, signal) => {
+      const response = await post(AI_PROXY_ROUTES.hazards, { sourceText }, signal);
+      return parseHazardAssessment(await response.json());
+    },
+  };
+}
@@ -0,0 +1,155 @@
+import { BriefingQuiz, LawTerm, QuizAttempt, QuizQuestion, QuizTranslation, TargetLanguage } from '../types';
+import { QUIZ_MAX_QUESTIONS, QUIZ_MIN_QUESTIONS, TRANSLATION_MAX_ATTEMPTS, TRANSLATION_RETRY_BASE_DELAY_MS } from '../constants';
+import { generateQuiz, translateText } from './aiService';
+import { withRetry, isTransientAiError } from './retry';
+import { findGlossaryMatches, buildGlossaryInstruction } from './glossaryService';
+
+// A short multiple-choice check that workers understood the briefing. The
+// questions are written in Korean from the source text and translated for
+// each worker language; the answer key stays in Korean for the supervisor.
+
+export interface QuizTranslationOptions {
+  glossary?: LawTerm[];
+  signal?: AbortSignal;
+  onUpdate?: (translation: QuizTranslation) => void; // Called as each language starts, finishes or fails
+}
+
+// Workers who chose Korean take the quiz as it was written.
+const SOURCE_LANGUAGE_CODE = 'ko-KR';
+
+const QUIZ_TRANSLATION_INSTRUCTION = `This text is a multiple-choice quiz for construction workers. Each "##" heading starts a question: the paragraph under it is the question and each list item is one answer option.
+Keep every heading, the question paragraph and every list item, in the same order. Do not add, merge, reorder or mark options, and do not reveal which option is correct.`;
+
+// A translation that lost or added a question or option; the answer key goes by position.
+class QuizFormatError extends Error {}
+
+function createQuizAttemptId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `quiz-attempt-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/** Writes a new Korean quiz about `sourceMarkdown`; rejects when the AI returns too few usable questions. */
+export async function createQuiz(sourceMarkdown: string, questionCount: number, signal?: AbortSignal, now = Date.now()): Promise<BriefingQuiz> {
+  const count = Math.min(QUIZ_MAX_QUESTIONS, Math.max(QUIZ_MIN_QUESTIONS, Math.round(questionCount)));
+  const questions = await withRetry(
+    () => generateQuiz(sourceMarkdown, count, signal),
+    { maxAttempts: TRANSLATION_MAX_ATTEMPTS, baseDelayMs: TRANSLATION_RETRY_BASE_DELAY_MS, signal }
+  );
+  signal?.throwIfAborted();
+  if (questions.length < QUIZ_MIN_QUESTIONS) {
+    throw new Error(`퀴즈를 만들지 못했습니다. 교육 내용이 너무 짧거나 AI가 쓸 수 있는 문항을 ${QUIZ_MIN_QUESTIONS}개 미만으로 돌려주었습니다. (Quiz generation returned ${questions.length} usable questions.)`);
+  }
+  return { sourceText: sourceMarkdown, createdAt: now, questions: questions.slice(0, count), translations: [] };
+}
+
+/**
+ * The questions and options as Markdown, one "## n" section per question, so
+ * they go through the same translation path (and glossary) as the briefing.
+ */
+export function quizToMarkdown(questions: { question: string; options: string[] }[]): string {
+  return questions.map((question, index) => [
+    `## ${index + 1}`,
+    '',
+    question.question.replace(/\s*\n\s*/g, ' '),
+    '',
+    ...question.options.map(option => `- ${option.replace(/\s*\n\s*/g, ' ')}`),
+  ].join('\n')).join('\n\n');
+}
+
+/**
+ * Reads back a translated quiz written by quizToMarkdown. Throws when the
+ * translation lost or added a question or an option.
+ */
+export function quizFromMarkdown(markdown: string, expected: QuizQuestion[]): { question: string; options: string[] }[] {
+  const sections = markdown.split(/^#{1,6}\s.*$/m).slice(1);
+  if (sections.length !== expected.length) {
+    throw new QuizFormatError(`The translated quiz has ${sections.length} questions instead of ${expected.length}.`);
+  }
+  return sections.map((section, index) => {
+    const lines = section.split('\n').map(line => line.trim()).filter(Boolean);
+    const options = lines.filter(line => /^([*+-]|\d+[.)])\s+/.test(line)).map(line => line.replace(/^([*+-]|\d+[.)])\s+/, '').trim());
+    const question = lines.filter(line => !/^([*+-]|\d+[.)])\s+/.test(line)).join(' ');
+    if (!question || options.length !== expected[index].options.length) {
+      throw new QuizFormatError(`Question ${index + 1} of the translated quiz does not have its question and ${expected[index].options.length} options.`);
+    }
+    return { question, options };
+  });
+}
+
+/**
+ * Translates the quiz into every language in parallel. As with the briefing,
+ * a failing language comes back with `status: 'error'` instead of rejecting
+ * the run; only an abort rejects.
+ */
+export async function translateQuiz(
+  quiz: BriefingQuiz,
+  languages: TargetLanguage[],
+  options: QuizTranslationOptions = {}
+): Promise<QuizTranslation[]> {
+  const { glossary = [], signal, onUpdate } = options;
+  const markdown = quizToMarkdown(quiz.questions);
+  const glossaryMatches = findGlossaryMatches(markdown, glossary);
+
+  const results = await Promise.all(languages.map(async (language): Promise<QuizTranslation> => {
+    if (language.code === SOURCE_LANGUAGE_CODE) {
+      const done: QuizTranslation = { language, status: 'done', questions: quiz.questions.map(({ question, options }) => ({ question, options })) };
+      onUpdate?.(done);
+      return done;
+    }
+    onUpdate?.({ language, status: 'translating', questions: [] });
+    const systemInstruction = [QUIZ_TRANSLATION_INSTRUCTION, buildGlossaryInstruction(glossaryMatches, language)].filter(Boolean).join('\n\n');
+    try {
+      const questions = await withRetry(
+        async () => quizFromMarkdown(await translateText(markdown, language.code, systemInstruction, signal), quiz.questions),
+        {
+          maxAttempts: TRANSLATION_MAX_ATTEMPTS,
+          baseDelayMs: TRANSLATION_RETRY_BASE_DELAY_MS,
+          shouldRetry: error => error instanceof QuizFormatError || isTransientAiError(error),
+          signal,
+        }
+      );
+      const done: QuizTranslation = { language, status: 'done', questions };
+      onUpdate?.(done);
+      return done;
+    } catch (err) {
+      signal?.throwIfAborted();
+      console.error(`Quiz translation error (${language.code}):`, err);
+      const failed: QuizTranslation = {
+        language,
+        status: 'error',
+        questions: [],
+        error: err instanceof Error ? err.message : 'An unknown error occurred during quiz translation.',
+      };
+      onUpdate?.(failed);
+      return failed;
+    }
+  }));
+
+  signal?.throwIfAborted();
+  return results;
+}
+
+/** The quiz as a worker who chose `languageCode` sees it, or null when it is not translated into that language. */
+export function questionsFor(quiz: BriefingQuiz, languageCode: string): { question: string; options: string[] }[] | null {
+  if (languageCode === SOURCE_LANGUAGE_CODE) return quiz.questions;
+  const translation = quiz.translations.find(t => t.language.code === languageCode && t.status === 'done');
+  return translation ? translation.questions : null;
+}
+
+/** Number of answers that match the Korean answer key. */
+export function scoreQuizAnswers(questions: QuizQuestion[], answers: number[]): number {
+  return questions.filter((question, index) => answers[index] === question.answerIndex).length;
+}
+
+export function createQuizAttempt(quiz: BriefingQuiz, workerName: string, languageCode: string, answers: number[], now = Date.now()): QuizAttempt {
+  return {
+    id: createQuizAttemptId(),
+    workerName: workerName.trim(),
+    languageCode,
+    answers,
+    score: scoreQuizAnswers(quiz.questions, answers),
+    questionCount: quiz.questions.length,
+    completedAt: now,
+  };
+}
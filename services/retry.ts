@@ -0,0 +1,59 @@
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  signal?: AbortSignal;
+}
+
+// Rate limits, overloaded models and dropped connections are worth retrying;
+// a bad API key or a rejected prompt is not. A dropped connection reads
+// "fetch failed" in Node and "Failed to fetch" in the browser.
+const TRANSIENT_ERROR_PATTERN = /\b(429|500|502|503|504)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|rate limit|timed? ?out|fetch failed|failed to fetch|network/i;
+
+export function isTransientAiError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  if (/API key/i.test(error.message)) return false;
+  return TRANSIENT_ERROR_PATTERN.test(error.message);
+}
+
+/** Resolves after `ms`, or rejects with the abort reason as soon as `signal` is aborted. */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Runs `operation` until it succeeds, retrying errors accepted by `shouldRetry`
+ * (transient AI errors by default) with exponential backoff and jitter.
+ * Aborting `signal` stops further attempts, including during the backoff wait.
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  const { maxAttempts, baseDelayMs, maxDelayMs = 30000, shouldRetry = isTransientAiError, onRetry, signal } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      signal?.throwIfAborted(); // Never retry a cancelled job
+      if (attempt >= maxAttempts || !shouldRetry(error)) {
+        throw error;
+      }
+      const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { PictogramId } from '../types';
+
+// Safety signs in the ISO 7010 / KOSHA layout: blue circles for mandatory
+// equipment, yellow triangles for hazards, red squares for fire equipment and
+// green squares for first aid and escape. Kept as plain SVG markup so the same
+// signs go into the output panel (components/SafetyPictograms.tsx) and the
+// printed and downloaded handouts.
+
+type SignFrame = 'mandatory' | 'warning' | 'fire' | 'safe';
+
+interface SafetyPictogramDefinition {
+  label: string; // Korean / English sign name, used as the accessible name
+  frame: SignFrame;
+  symbol: string; // SVG shapes on a 64×64 canvas, filled with the frame's symbol colour
+}
+
+const FRAMES: Record<SignFrame, { background: string; symbolColor: string }> = {
+  mandatory: { background: '<circle cx="32" cy="32" r="30" fill="#005387"/>', symbolColor: '#ffffff' },
+  warning: { background: '<path d="M32 5 60 55H4Z" fill="#F9A800" stroke="#000000" stroke-width="4" stroke-linejoin="round"/>', symbolColor: '#000000' },
+  fire: { background: '<rect x="2" y="2" width="60" height="60" rx="4" fill="#9B2423"/>', symbolColor: '#ffffff' },
+  safe: { background: '<rect x="2" y="2" width="60" height="60" rx="4" fill="#237F52"/>', symbolColor: '#ffffff' },
+};
+
+export const SAFETY_PICTOGRAMS: Record<PictogramId, SafetyPictogramDefinition> = {
+  helmet: {
+    label: '안전모 착용 / Wear a safety helmet',
+    frame: 'mandatory',
+    symbol: '<path d="M15 36a17 17 0 0 1 34 0Z"/><rect x="11" y="36" width="42" height="5" rx="2"/><path d="M22 44h20a10 10 0 0 1-20 0Z"/>',
+  },
+  'safety-shoes': {
+    label: '안전화 착용 / Wear safety shoes',
+    frame: 'mandatory',
+    symbol: '<path d="M21 14h13v23l13 5a5 5 0 0 1 3 5v3H17V18a4 4 0 0 1 4-4Z"/><rect x="17" y="51" width="33" height="3" rx="1"/>',
+  },
+  harness: {
+    label: '안전대 착용 / Wear a safety harness',
+    frame: 'mandatory',
+    symbol: '<circle cx="30" cy="15" r="5"/><path d="M22 23h16v17h-4v14h-8V40h-4Z"/><path d="M23 25l14 12M37 25 23 37" stroke="#005387" stroke-width="2"/><path d="M37 24 48 11" stroke="#ffffff" stroke-width="2.5" fill="none"/><circle cx="49" cy="10" r="3"/>',
+  },
+  'fall-hazard': {
+    label: '추락 위험 / Danger of falling',
+    frame: 'warning',
+    symbol: '<rect x="11" y="45" width="20" height="4"/><circle cx="40" cy="25" r="3.5"/><path d="M35 30l9 2-2 8 5 5-2 2-6-6-4 3-2-2 4-5Z"/>',
+  },
+  'confined-space': {
+    label: '밀폐 공간 / Confined space',
+    frame: 'warning',
+    symbol: '<circle cx="32" cy="27" r="4"/><path d="M26 33h12v10H26Z"/><ellipse cx="32" cy="46" rx="15" ry="4"/>',
+  },
+  'hazardous-substance': {
+    label: '유해물질 / Hazardous substance',
+    frame: 'warning',
+    symbol: '<path d="M28 20h8v9l8 15a3 3 0 0 1-3 5H23a3 3 0 0 1-3-5l8-15Z"/>',
+  },
+  forklift: {
+    label: '지게차 주의 / Forklift traffic',
+    frame: 'warning',
+    symbol: '<rect x="17" y="34" width="17" height="9"/><path d="M21 26h9v8" stroke="#000000" stroke-width="2" fill="none"/><rect x="36" y="23" width="3" height="22"/><rect x="39" y="42" width="10" height="3"/><circle cx="21" cy="46" r="3"/><circle cx="31" cy="46" r="3"/>',
+  },
+  'overhead-load': {
+    label: '매달린 짐 주의 / Overhead load',
+    frame: 'warning',
+    symbol: '<path d="M32 17v9" stroke="#000000" stroke-width="2.5" fill="none"/><path d="M32 26a3 3 0 1 1-3 3" stroke="#000000" stroke-width="2" fill="none"/><path d="M22 34h20v11H22Z"/>',
+  },
+  'fire-extinguisher': {
+    label: '소화기 / Fire extinguisher',
+    frame: 'fire',
+    symbol: '<rect x="25" y="22" width="13" height="31" rx="5"/><rect x="28" y="14" width="7" height="8"/><path d="M35 16h8l4 7" stroke="#ffffff" stroke-width="2.5" fill="none"/>',
+  },
+  'first-aid': {
+    label: '응급처치 / First aid',
+    frame: 'safe',
+    symbol: '<path d="M26 12h12v14h14v12H38v14H26V38H12V26h14Z"/>',
+  },
+  evacuation: {
+    label: '대피로 / Emergency exit',
+    frame: 'safe',
+    symbol: '<circle cx="38" cy="13" r="5"/><path d="M31 20l10 2 4 8 7 2-1 3-9-2-3-5-3 8 6 6v12h-4V47l-7-5-4 10-4-1 6-16 1-8-5 3v6h-4v-8Z"/><path d="M8 52h10v4H8Z"/>',
+  },
+};
+
+/** A standalone SVG sign, `size` pixels square. */
+export function pictogramSvg(id: PictogramId, size = 40): string {
+  const { label, frame, symbol } = SAFETY_PICTOGRAMS[id];
+  const { background, symbolColor } = FRAMES[frame];
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 64 64" width="${size}" height="${size}" role="img" aria-label="${label}"><title>${label}</title>${background}<g fill="${symbolColor}">${symbol}</g></svg>`;
+}
@@ -0,0 +1,110 @@
+import { LanguageTranslation } from '../types';
+import { finishedTranslationPerLanguage } from './translationStyles';
+
+// A briefing shared by QR code travels entirely in the URL fragment: it is
+// never sent to a server, so a statically served build on the site network is
+// all a worker's phone needs.
+
+export interface SharedBriefing {
+  v: 1;
+  siteName?: string;
+  date: string;
+  translations: { code: string; text: string }[];
+}
+
+export const SHARE_FRAGMENT_KEY = 'briefing';
+const SHARE_BASE_URL_STORAGE_KEY = 'tbm-assistant.share-base-url.v1';
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlToBytes(base64Url: string): Uint8Array {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export function createSharedBriefing(translations: LanguageTranslation[], date: string, siteName?: string): SharedBriefing {
+  return {
+    v: 1,
+    ...(siteName ? { siteName } : {}),
+    date,
+    translations: finishedTranslationPerLanguage(translations)
+      .map(t => ({ code: t.language.code, text: t.text })),
+  };
+}
+
+/** Deflates the briefing and encodes it for a URL fragment. */
+export async function encodeSharedBriefing(briefing: SharedBriefing): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify(briefing));
+  return bytesToBase64Url(await transform(json, new CompressionStream('deflate-raw')));
+}
+
+function isSharedBriefing(value: unknown): value is SharedBriefing {
+  if (!value || typeof value !== 'object') return false;
+  const { v, siteName, date, translations } = value as Record<string, unknown>;
+  return v === 1
+    && (siteName === undefined || typeof siteName === 'string')
+    && typeof date === 'string'
+    && Array.isArray(translations)
+    && translations.every((translation: unknown) => {
+      const { code, text } = (translation ?? {}) as Record<string, unknown>;
+      return typeof code === 'string' && typeof text === 'string';
+    });
+}
+
+export async function decodeSharedBriefing(encoded: string): Promise<SharedBriefing> {
+  let briefing: unknown;
+  try {
+    const json = await transform(base64UrlToBytes(encoded), new DecompressionStream('deflate-raw'));
+    briefing = JSON.parse(new TextDecoder().decode(json));
+  } catch (err) {
+    console.error('Could not decode the shared briefing:', err);
+    throw new Error('이 링크의 TBM 자료를 읽을 수 없습니다. QR 코드를 다시 스캔하세요. (The briefing in this link could not be read.)');
+  }
+  if (!isSharedBriefing(briefing)) {
+    throw new Error('이 링크의 TBM 자료 형식을 알 수 없습니다. (Unknown briefing format.)');
+  }
+  return briefing;
+}
+
+export function buildShareUrl(baseUrl: string, encoded: string): string {
+  return `${baseUrl.replace(/#.*$/, '')}#${SHARE_FRAGMENT_KEY}=${encoded}`;
+}
+
+/** The encoded briefing in a location hash such as "#briefing=...", or null. */
+export function readShareFragment(hash: string): string | null {
+  const match = hash.match(new RegExp(`^#${SHARE_FRAGMENT_KEY}=(.+)$`));
+  return match ? match[1] : null;
+}
+
+/**
+ * Where phones should open the viewer. Defaults to this page, but a tablet
+ * running on localhost has to be reached through its network address instead.
+ */
+export function loadShareBaseUrl(): string {
+  const current = `${window.location.origin}${window.location.pathname}`;
+  try {
+    return localStorage.getItem(SHARE_BASE_URL_STORAGE_KEY) || current;
+  } catch {
+    return current;
+  }
+}
+
+export function saveShareBaseUrl(baseUrl: string): void {
+  try {
+    localStorage.setItem(SHARE_BASE_URL_STORAGE_KEY, baseUrl);
+  } catch (err) {
+    console.warn('Could not save the share base URL:', err);
+  }
+}
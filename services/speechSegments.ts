@@ -0,0 +1,58 @@
+import { marked } from 'marked';
+import DOMPurify from 'dompurify';
+
+// The rendered Markdown elements that are read aloud, one "block" each. The
+// same walk runs over the output panel's DOM to find the block to highlight,
+// so block indexes line up as long as both start from the same Markdown.
+const SPEECH_BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, tr';
+// Content of a block that belongs to other blocks (a nested list, a paragraph in a loose list item).
+const NESTED_BLOCK_SELECTOR = 'ul, ol, table, p, h1, h2, h3, h4, h5, h6, blockquote, pre';
+
+// Sentence boundaries: Latin punctuation followed by a space (so "1.5m" stays
+// whole), or CJK, Burmese (။) and Khmer (។) full stops, which need no space.
+const SENTENCE_BOUNDARY = /(?<=[.!?])\s+|(?<=[。！？။។])\s*/;
+
+export interface SpeechSegment {
+  text: string;
+  blockIndex: number; // Index into getSpeechBlocks() of the rendered Markdown
+}
+
+function blockText(element: Element): string {
+  if (element.tagName === 'TR') {
+    return Array.from(element.children).map(cell => cell.textContent?.trim() || '').filter(Boolean).join(', ');
+  }
+  const clone = element.cloneNode(true) as Element;
+  clone.querySelectorAll(NESTED_BLOCK_SELECTOR).forEach(nested => nested.remove());
+  return (clone.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * The readable blocks under `roots`, in document order. Pass every element
+ * that holds rendered Markdown, in order, when it is rendered in parts.
+ */
+export function getSpeechBlocks(roots: ParentNode[]): { element: Element; text: string }[] {
+  return roots
+    .flatMap(root => Array.from(root.querySelectorAll(SPEECH_BLOCK_SELECTOR)))
+    .map(element => ({ element, text: blockText(element) }))
+    .filter(block => block.text);
+}
+
+export function splitSentences(text: string): string[] {
+  return text.split(SENTENCE_BOUNDARY).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+/**
+ * Splits translated Markdown into the sentences read aloud one at a time:
+ * headings, list items and table rows are one segment each, paragraphs one per
+ * sentence.
+ */
+export function markdownToSpeechSegments(markdown: string): SpeechSegment[] {
+  const container = document.createElement('div');
+  container.innerHTML = DOMPurify.sanitize(marked.parse(markdown) as string); // As the output panel renders it
+
+  return getSpeechBlocks([container]).flatMap(({ element, text }, blockIndex) =>
+    element.tagName === 'P'
+      ? splitSentences(text).map(sentence => ({ text: sentence, blockIndex }))
+      : [{ text, blockIndex }]
+  );
+}
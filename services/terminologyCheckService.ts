@@ -0,0 +1,83 @@
+import { LawTerm, TargetLanguage } from '../types';
+import { findGlossaryMatches, resolveTargetTerm } from './glossaryService';
+import { alignMarkdownSections } from './markdownSections';
+
+export interface TermViolation {
+  sectionIndex: number;
+  term: LawTerm;
+  expected: string[]; // Any one of these renderings satisfies the glossary
+}
+
+export interface TerminologyReport {
+  aligned: boolean; // False when sections could not be paired and the whole document was checked as one
+  sections: string[]; // The translated sections the violations refer to
+  violations: TermViolation[];
+  checkedTermCount: number;
+  uncheckedTerms: LawTerm[]; // Matched terms with no known rendering for this language
+}
+
+const normalize = (text: string) => text.normalize('NFC').replace(/\s+/g, '').toLowerCase();
+
+/**
+ * Accepted renderings of a glossary value: "safety harness / safety belt"
+ * accepts either side, and "Personal Protective Equipment (PPE)" accepts the
+ * term with or without the parenthetical, or the parenthetical alone.
+ */
+function acceptedRenderings(value: string): string[] {
+  const renderings = new Set<string>();
+  value.split(/\s*\/\s*/).forEach(alternative => {
+    const trimmed = alternative.trim();
+    if (!trimmed) return;
+    renderings.add(trimmed);
+    const withoutParens = trimmed.replace(/\s*\([^)]*\)\s*/g, ' ').trim();
+    if (withoutParens) renderings.add(withoutParens);
+    const parenthetical = trimmed.match(/\(([^)]+)\)/);
+    if (parenthetical) renderings.add(parenthetical[1].trim());
+  });
+  return [...renderings];
+}
+
+/**
+ * The renderings the glossary requires for `language`, or null when the
+ * glossary only has an English reference for a non-English target (nothing to
+ * verify against).
+ */
+function expectedRenderings(term: LawTerm, language: TargetLanguage): string[] | null {
+  const resolved = resolveTargetTerm(term, language.code);
+  const isEnglishTarget = language.code.split('-')[0] === 'en';
+  if (!term.do_not_translate && resolved === term.term_en && !isEnglishTarget) return null;
+  return resolved ? acceptedRenderings(resolved) : null;
+}
+
+/**
+ * Finds every glossary term in each source section and checks that one of its
+ * expected renderings appears in the matching translated section.
+ */
+export function checkTerminology(
+  sourceMarkdown: string,
+  translatedMarkdown: string,
+  language: TargetLanguage,
+  glossary: LawTerm[]
+): TerminologyReport {
+  const { source, translated, aligned } = alignMarkdownSections(sourceMarkdown, translatedMarkdown);
+  const violations: TermViolation[] = [];
+  const unchecked = new Map<string, LawTerm>();
+  let checkedTermCount = 0;
+
+  source.forEach((sourceSection, sectionIndex) => {
+    const translatedSection = normalize(translated[sectionIndex] || '');
+    findGlossaryMatches(sourceSection, glossary).forEach(term => {
+      const expected = expectedRenderings(term, language);
+      if (!expected) {
+        unchecked.set(term.id, term);
+        return;
+      }
+      checkedTermCount++;
+      if (!expected.some(rendering => translatedSection.includes(normalize(rendering)))) {
+        violations.push({ sectionIndex, term, expected });
+      }
+    });
+  });
+
+  return { aligned, sections: translated, violations, checkedTermCount, uncheckedTerms: [...unchecked.values()] };
+}
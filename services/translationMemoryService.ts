@@ -0,0 +1,194 @@
+import { LanguageTranslation, TargetLanguage, TranslationMemoryEntry } from '../types';
+import {
+  TRANSLATION_MEMORY_FUZZY_THRESHOLD,
+  TRANSLATION_MEMORY_MAX_REFERENCES,
+  TRANSLATION_MEMORY_MAX_ENTRIES,
+} from '../constants';
+import { alignMarkdownSections, splitMarkdownSections } from './markdownSections';
+
+const MEMORY_STORAGE_KEY = 'tbm-assistant.translation-memory.v1';
+
+export interface MemoryMatch {
+  entry: TranslationMemoryEntry;
+  score: number; // 1 for an exact match
+}
+
+/**
+ * The lookup form of a Korean section: Unicode-normalized, with list markers,
+ * emphasis and whitespace differences removed, so the same text retyped or
+ * re-extracted still matches.
+ */
+export function normalizeSegment(text: string): string {
+  return text
+    .normalize('NFKC')
+    .replace(/^\s*[*+-]\s+/gm, '- ')
+    .replace(/^\s*(\d+)[.)]\s+/gm, '$1. ')
+    .replace(/(\*\*|__|[*_`])/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+const entryKey = (sourceKey: string, languageCode: string) => `${languageCode}\u0000${sourceKey}`;
+
+function normalizeEntry(raw: unknown): TranslationMemoryEntry | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { sourceText, text, languageCode, approved, updatedAt } = raw as Record<string, unknown>;
+  if (typeof sourceText !== 'string' || typeof text !== 'string' || typeof languageCode !== 'string') return null;
+  if (!sourceText.trim() || !text.trim()) return null;
+  return {
+    sourceKey: normalizeSegment(sourceText),
+    sourceText,
+    languageCode,
+    text,
+    approved: approved === true,
+    updatedAt: typeof updatedAt === 'number' ? updatedAt : 0,
+  };
+}
+
+export function loadTranslationMemory(): TranslationMemoryEntry[] {
+  try {
+    const stored = localStorage.getItem(MEMORY_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) throw new Error("Stored translation memory is not an array.");
+    return parsed.map(normalizeEntry).filter((entry): entry is TranslationMemoryEntry => entry !== null);
+  } catch (err) {
+    console.warn('Could not load the translation memory, starting empty:', err);
+    return [];
+  }
+}
+
+export function saveTranslationMemory(entries: TranslationMemoryEntry[]): void {
+  try {
+    localStorage.setItem(MEMORY_STORAGE_KEY, JSON.stringify(entries));
+  } catch (err) {
+    console.error('Could not save the translation memory:', err);
+  }
+}
+
+/** The remembered translation of exactly this section (after normalization), if any. */
+export function findExactMatch(entries: TranslationMemoryEntry[], sourceText: string, languageCode: string): TranslationMemoryEntry | null {
+  const sourceKey = normalizeSegment(sourceText);
+  return entries.find(entry => entry.languageCode === languageCode && entry.sourceKey === sourceKey) || null;
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const compact = text.replace(/\s+/g, '');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) || 0) + 1);
+  }
+  return counts;
+}
+
+/** Dice coefficient over character bigrams, 0 (nothing shared) to 1 (same text). */
+export function segmentSimilarity(a: string, b: string): number {
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let leftTotal = 0;
+  let rightTotal = 0;
+  let shared = 0;
+  left.forEach(count => { leftTotal += count; });
+  right.forEach((count, bigram) => {
+    rightTotal += count;
+    shared += Math.min(count, left.get(bigram) || 0);
+  });
+  if (leftTotal + rightTotal === 0) return a === b ? 1 : 0;
+  return (2 * shared) / (leftTotal + rightTotal);
+}
+
+/**
+ * Remembered translations of sections similar to those in `text`, best first,
+ * for the model to follow. Approved entries rank above unapproved ones with
+ * the same score; exact matches are left out since they are reused as they are.
+ */
+export function findFuzzyMatches(entries: TranslationMemoryEntry[], text: string, languageCode: string): MemoryMatch[] {
+  const candidates = entries.filter(entry => entry.languageCode === languageCode);
+  if (candidates.length === 0) return [];
+
+  const best = new Map<string, MemoryMatch>();
+  splitMarkdownSections(text).map(normalizeSegment).forEach(sourceKey => {
+    candidates.forEach(entry => {
+      if (entry.sourceKey === sourceKey) return;
+      // Bigram similarity cannot reach the threshold when the lengths differ this much.
+      const shorter = Math.min(entry.sourceKey.length, sourceKey.length);
+      const longer = Math.max(entry.sourceKey.length, sourceKey.length);
+      if (2 * shorter / (shorter + longer) < TRANSLATION_MEMORY_FUZZY_THRESHOLD) return;
+      const score = segmentSimilarity(entry.sourceKey, sourceKey);
+      const key = entryKey(entry.sourceKey, entry.languageCode);
+      if (score >= TRANSLATION_MEMORY_FUZZY_THRESHOLD && score > (best.get(key)?.score ?? 0)) {
+        best.set(key, { entry, score });
+      }
+    });
+  });
+
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score || Number(b.entry.approved) - Number(a.entry.approved))
+    .slice(0, TRANSLATION_MEMORY_MAX_REFERENCES);
+}
+
+export function buildMemoryReferenceInstruction(matches: MemoryMatch[], language: TargetLanguage): string {
+  if (matches.length === 0) return '';
+  const references = matches.map(({ entry }, index) => `Reference ${index + 1}${entry.approved ? ' (approved by the site supervisor)' : ''}:
+Korean:
+${entry.sourceText}
+${language.name}:
+${entry.text}`);
+  return `Translation memory: earlier ${language.name} translations of similar Korean text from this site.
+Where the Korean wording is the same, reuse the reference wording exactly so workers hear the same instructions every day; translate any differences faithfully. Approved references take precedence.
+
+${references.join('\n\n')}`;
+}
+
+/**
+ * Adds or updates entries for section pairs. Unapproved pairs never replace an
+ * approved entry; pairs stored with `approved` replace whatever is there. The
+ * oldest unapproved entries are dropped beyond TRANSLATION_MEMORY_MAX_ENTRIES.
+ */
+export function rememberSegments(
+  entries: TranslationMemoryEntry[],
+  pairs: { sourceText: string; text: string }[],
+  languageCode: string,
+  approved = false,
+  now = Date.now()
+): TranslationMemoryEntry[] {
+  const byKey = new Map(entries.map(entry => [entryKey(entry.sourceKey, entry.languageCode), entry]));
+  let changed = false;
+
+  pairs.forEach(({ sourceText, text }) => {
+    if (!sourceText.trim() || !text.trim()) return;
+    const sourceKey = normalizeSegment(sourceText);
+    const key = entryKey(sourceKey, languageCode);
+    const existing = byKey.get(key);
+    if (existing && existing.approved && !approved) return;
+    if (existing && existing.text === text && existing.approved === approved) return;
+    byKey.set(key, { sourceKey, sourceText, languageCode, text, approved, updatedAt: now });
+    changed = true;
+  });
+  if (!changed) return entries;
+
+  const updated = [...byKey.values()];
+  if (updated.length <= TRANSLATION_MEMORY_MAX_ENTRIES) return updated;
+  const evictable = updated
+    .filter(entry => !entry.approved)
+    .sort((a, b) => a.updatedAt - b.updatedAt)
+    .slice(0, updated.length - TRANSLATION_MEMORY_MAX_ENTRIES);
+  const evicted = new Set(evictable);
+  return updated.filter(entry => !evicted.has(entry));
+}
+
+/** The section pairs of a finished translation, or none when its sections do not line up with the source. */
+export function translationSegmentPairs(translation: LanguageTranslation): { sourceText: string; text: string }[] {
+  if (translation.status !== 'done' || !translation.text.trim()) return [];
+  const { source, translated, aligned } = alignMarkdownSections(translation.sourceText, translation.text);
+  if (!aligned) return [];
+  return source.map((sourceText, index) => ({ sourceText, text: translated[index] }));
+}
+
+/** Withdraws approval from an entry, leaving it as an ordinary remembered translation. */
+export function revokeApproval(entries: TranslationMemoryEntry[], sourceText: string, languageCode: string): TranslationMemoryEntry[] {
+  const sourceKey = normalizeSegment(sourceText);
+  return entries.map(entry =>
+    entry.languageCode === languageCode && entry.sourceKey === sourceKey ? { ...entry, approved: false } : entry);
+}
@@ -0,0 +1,348 @@
+import { LanguageTranslation, TargetLanguage, LawTerm, PageProgress, TranslationMemoryEntry, TranslationStyle } from '../types';
+import {
+  TRANSLATION_MAX_ATTEMPTS,
+  TRANSLATION_RETRY_BASE_DELAY_MS,
+  TRANSLATION_CHUNK_MAX_CHARS,
+  TRANSLATION_CHUNK_CONCURRENCY,
+  STRUCTURE_REPAIR_ROUNDS,
+} from '../constants';
+import { translateText, translateTextStream } from './aiService';
+import { withRetry } from './retry';
+import { findGlossaryMatches, buildGlossaryInstruction } from './glossaryService';
+import { alignMarkdownSections, joinMarkdownSections, chunkMarkdown, splitMarkdownSections } from './markdownSections';
+import { findExactMatch, findFuzzyMatches, buildMemoryReferenceInstruction } from './translationMemoryService';
+import { validateMarkdownStructure, compareMarkdownStructure, buildStructureInstruction } from './markdownStructureService';
+import { buildStyleInstruction, translationStyleOf } from './translationStyles';
+import type { TermViolation } from './terminologyCheckService';
+
+export interface MultiTranslationOptions {
+  glossary?: LawTerm[];
+  memory?: TranslationMemoryEntry[];
+  style?: TranslationStyle; // Defaults to 'standard'
+  signal?: AbortSignal;
+  onUpdate?: (translation: LanguageTranslation) => void; // Called as each language starts, streams, finishes or fails
+}
+
+// A piece of the document in output order: either a section reused from the
+// translation memory, or a chunk of consecutive sections still to translate.
+interface TranslationPart {
+  source: string;
+  reusedText: string | null;
+}
+
+function planTranslationParts(text: string, language: TargetLanguage, memory: TranslationMemoryEntry[]): TranslationPart[] {
+  const parts: TranslationPart[] = [];
+  let pending: string[] = [];
+  const flushPending = () => {
+    if (pending.length === 0) return;
+    chunkMarkdown(joinMarkdownSections(pending), TRANSLATION_CHUNK_MAX_CHARS)
+      .forEach(chunk => parts.push({ source: chunk, reusedText: null }));
+    pending = [];
+  };
+
+  splitMarkdownSections(text).forEach(section => {
+    const match = findExactMatch(memory, section, language.code);
+    if (match) {
+      flushPending();
+      parts.push({ source: section, reusedText: match.text });
+    } else {
+      pending.push(section);
+    }
+  });
+  flushPending();
+  return parts;
+}
+
+function buildChunkInstruction(chunkIndex: number, chunkCount: number): string {
+  return `This text is part ${chunkIndex + 1} of ${chunkCount} of a longer document that is translated in parts.
+Translate only this part, completely, and do not add introductions, summaries or notes about the other parts.`;
+}
+
+/**
+ * Translates a document chunk by chunk, streaming each chunk. Parts reused
+ * from the translation memory are not sent; every other chunk also gets the
+ * memory's similar translations as references. `onPartial` receives the
+ * translation so far: the leading run of parts that have output, joined in
+ * document order. A failing chunk is retried on its own; if it still fails the
+ * whole document rejects.
+ */
+async function translateInChunks(
+  text: string,
+  language: TargetLanguage,
+  systemInstruction: string | undefined,
+  memory: TranslationMemoryEntry[],
+  onPartial: (partialText: string, progress: PageProgress) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const parts = planTranslationParts(text, language, memory);
+  const chunks = parts.map(part => part.source);
+  const chunkTexts = parts.map(part => part.reusedText || '');
+  const pendingIndexes = parts.flatMap((part, index) => part.reusedText === null ? [index] : []);
+  let completed = parts.length - pendingIndexes.length;
+  let failed = false;
+  let nextPending = 0;
+  // Cancels every chunk still streaming, whether the caller cancels or one chunk fails for good
+  const controller = new AbortController();
+  const cancel = () => controller.abort(signal?.reason);
+  if (signal?.aborted) cancel();
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  const report = () => {
+    if (failed) return;
+    const firstEmpty = chunkTexts.findIndex(chunkText => !chunkText);
+    const visible = firstEmpty === -1 ? chunkTexts : chunkTexts.slice(0, firstEmpty);
+    onPartial(joinMarkdownSections(visible), { completed, total: chunks.length });
+  };
+
+  const worker = async () => {
+    while (!failed && nextPending < pendingIndexes.length) {
+      const index = pendingIndexes[nextPending++];
+      const chunkInstruction = chunks.length > 1 ? buildChunkInstruction(index, chunks.length) : '';
+      const memoryInstruction = buildMemoryReferenceInstruction(findFuzzyMatches(memory, chunks[index], language.code), language);
+      try {
+        chunkTexts[index] = await withRetry(() => {
+          chunkTexts[index] = ''; // A retried chunk streams again from the start
+          return translateTextStream(
+            chunks[index],
+            language.code,
+            partialText => {
+              chunkTexts[index] = partialText;
+              report();
+            },
+            [systemInstruction, memoryInstruction, chunkInstruction].filter(Boolean).join('\n\n') || undefined,
+            controller.signal
+          );
+        }, {
+          maxAttempts: TRANSLATION_MAX_ATTEMPTS,
+          baseDelayMs: TRANSLATION_RETRY_BASE_DELAY_MS,
+          onRetry: (error, attempt, delayMs) =>
+            console.warn(`Chunk ${index + 1}/${chunks.length} (${language.code}) attempt ${attempt} failed, retrying in ${delayMs}ms:`, error),
+          signal: controller.signal,
+        });
+      } catch (err) {
+        // The language has failed: stop the other workers and the chunks they are streaming
+        if (!failed) {
+          failed = true;
+          controller.abort(err);
+        }
+        throw err;
+      }
+      completed++;
+      report();
+    }
+  };
+
+  report(); // Shows the reused parts before the first chunk arrives
+  try {
+    await Promise.all(Array.from({ length: Math.min(TRANSLATION_CHUNK_CONCURRENCY, pendingIndexes.length) }, worker));
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+  signal?.throwIfAborted();
+  return joinMarkdownSections(chunkTexts);
+}
+
+/**
+ * Translates the whole document in one streamed request, for a summary that
+ * has to see all of it.
+ */
+async function translateWhole(
+  text: string,
+  language: TargetLanguage,
+  systemInstruction: string | undefined,
+  onPartial: (partialText: string) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  return withRetry(
+    () => translateTextStream(text, language.code, onPartial, systemInstruction, signal),
+    {
+      maxAttempts: TRANSLATION_MAX_ATTEMPTS,
+      baseDelayMs: TRANSLATION_RETRY_BASE_DELAY_MS,
+      onRetry: (error, attempt, delayMs) =>
+        console.warn(`Key points (${language.code}) attempt ${attempt} failed, retrying in ${delayMs}ms:`, error),
+      signal,
+    }
+  );
+}
+
+/**
+ * Translates `text` into every language in parallel. A failing language never
+ * rejects the whole run: it comes back with `status: 'error'` while the others
+ * complete. Rejects only when `signal` is aborted.
+ *
+ * Long documents are translated in chunks split on section boundaries, and
+ * each language's output is streamed through `onUpdate` as it arrives. Every
+ * chunk gets the same glossary instruction: the entries that occur anywhere in
+ * `text`, rendered for the target language. Sections found in the translation
+ * memory are reused without an API call. Sections whose Markdown structure was
+ * not kept are re-translated once before the language is reported as done.
+ *
+ * The easy-read and key-points styles rewrite the text on purpose, so they
+ * neither reuse the memory (which holds standard translations) nor repair the
+ * structure; key points summarize the whole document in one request.
+ */
+export async function translateIntoLanguages(
+  text: string,
+  languages: TargetLanguage[],
+  options: MultiTranslationOptions = {}
+): Promise<LanguageTranslation[]> {
+  const { glossary = [], memory = [], style = 'standard', signal, onUpdate } = options;
+  const glossaryMatches = findGlossaryMatches(text, glossary);
+  const styled = style === 'standard' ? {} : { style };
+
+  const results = await Promise.all(languages.map(async (language): Promise<LanguageTranslation> => {
+    onUpdate?.({ language, status: 'translating', ...styled, text: '', sourceText: text });
+    const systemInstruction = [buildGlossaryInstruction(glossaryMatches, language), buildStyleInstruction(style)].filter(Boolean).join('\n\n') || undefined;
+    try {
+      let translated: string;
+      if (style === 'key-points') {
+        translated = await translateWhole(
+          text,
+          language,
+          systemInstruction,
+          partialText => onUpdate?.({ language, status: 'translating', ...styled, text: partialText, sourceText: text }),
+          signal
+        );
+      } else {
+        translated = await translateInChunks(
+          text,
+          language,
+          systemInstruction,
+          style === 'standard' ? memory : [],
+          (partialText, chunkProgress) => onUpdate?.({ language, status: 'translating', ...styled, text: partialText, sourceText: text, chunkProgress }),
+          signal
+        );
+      }
+      if (style === 'standard') {
+        try {
+          translated = await repairStructure(text, translated, language, glossary, signal);
+        } catch (err) {
+          // The unrepaired translation is still usable; the UI reports what is off.
+          signal?.throwIfAborted();
+          console.warn(`Structure repair failed (${language.code}):`, err);
+        }
+      }
+      const done: LanguageTranslation = { language, status: 'done', ...styled, text: translated, sourceText: text };
+      onUpdate?.(done);
+      return done;
+    } catch (err) {
+      signal?.throwIfAborted();
+      console.error(`Translation error (${language.code}):`, err);
+      const failed: LanguageTranslation = {
+        language,
+        status: 'error',
+        ...styled,
+        text: '',
+        sourceText: text,
+        error: err instanceof Error ? err.message : 'An unknown error occurred during translation.',
+      };
+      onUpdate?.(failed);
+      return failed;
+    }
+  }));
+
+  signal?.throwIfAborted();
+  return results;
+}
+
+export interface SectionRetranslationOptions {
+  glossary?: LawTerm[];
+  signal?: AbortSignal;
+}
+
+function buildRequiredTermsInstruction(violations: TermViolation[], language: TargetLanguage): string {
+  const lines = violations.map(violation => `* ${violation.term.term_ko} → ${violation.expected[0]}`);
+  return `A previous ${language.name} translation of this text did not follow the site glossary.
+These terms MUST be rendered exactly as follows:
+${lines.join('\n')}`;
+}
+
+/**
+ * Re-translates only the sections that have terminology violations, in the
+ * translation's style, and splices them back into the existing translation. When the sections of the source and
+ * translation could not be aligned the whole document is one section.
+ */
+export async function retranslateSections(
+  translation: LanguageTranslation,
+  violations: TermViolation[],
+  options: SectionRetranslationOptions = {}
+): Promise<string> {
+  const { glossary = [], signal } = options;
+  const { language } = translation;
+  const { source, translated } = alignMarkdownSections(translation.sourceText, translation.text);
+  const sectionIndexes = [...new Set(violations.map(violation => violation.sectionIndex))];
+  const updated = [...translated];
+
+  await Promise.all(sectionIndexes.map(async sectionIndex => {
+    const sectionSource = source[sectionIndex];
+    const systemInstruction = [
+      buildGlossaryInstruction(findGlossaryMatches(sectionSource, glossary), language),
+      buildRequiredTermsInstruction(violations.filter(violation => violation.sectionIndex === sectionIndex), language),
+      buildStyleInstruction(translationStyleOf(translation)),
+    ].filter(Boolean).join('\n\n');
+
+    updated[sectionIndex] = await withRetry(
+      () => translateText(sectionSource, language.code, systemInstruction, signal),
+      { maxAttempts: TRANSLATION_MAX_ATTEMPTS, baseDelayMs: TRANSLATION_RETRY_BASE_DELAY_MS, signal }
+    );
+  }));
+
+  signal?.throwIfAborted();
+  return joinMarkdownSections(updated);
+}
+
+/**
+ * Re-translates every section whose Markdown structure differs from the
+ * source, up to STRUCTURE_REPAIR_ROUNDS times. A retry is only kept when it is
+ * structurally closer to the source than what it replaces. When the sections
+ * do not line up, the whole document is one section; past one chunk's length
+ * that would be a single oversized request, so the repair fails instead.
+ */
+async function repairStructure(
+  sourceText: string,
+  translatedText: string,
+  language: TargetLanguage,
+  glossary: LawTerm[],
+  signal?: AbortSignal
+): Promise<string> {
+  let current = translatedText;
+
+  for (let round = 0; round < STRUCTURE_REPAIR_ROUNDS; round++) {
+    const report = validateMarkdownStructure(sourceText, current);
+    if (report.mismatchCount === 0) break;
+    if (!report.aligned && sourceText.length > TRANSLATION_CHUNK_MAX_CHARS) {
+      throw new Error('The translation\'s sections do not line up with the source, and the document is too long to re-translate in one request. Translate it again instead.');
+    }
+
+    const { source, translated } = alignMarkdownSections(sourceText, current);
+    const updated = [...translated];
+    await Promise.all(report.sections.map(async section => {
+      const sectionSource = source[section.index];
+      const systemInstruction = [
+        buildGlossaryInstruction(findGlossaryMatches(sectionSource, glossary), language),
+        buildStructureInstruction(section.mismatches),
+      ].filter(Boolean).join('\n\n');
+
+      const retried = await withRetry(
+        () => translateText(sectionSource, language.code, systemInstruction, signal),
+        { maxAttempts: TRANSLATION_MAX_ATTEMPTS, baseDelayMs: TRANSLATION_RETRY_BASE_DELAY_MS, signal }
+      );
+      if (compareMarkdownStructure(sectionSource, retried).length < section.mismatches.length) {
+        updated[section.index] = retried;
+      }
+    }));
+    current = joinMarkdownSections(updated);
+  }
+
+  signal?.throwIfAborted();
+  return current;
+}
+
+/** Re-runs the structure repair on demand, for the UI's retry button. */
+export async function retranslateStructureMismatches(
+  translation: LanguageTranslation,
+  options: SectionRetranslationOptions = {}
+): Promise<string> {
+  const { glossary = [], signal } = options;
+  return repairStructure(translation.sourceText, translation.text, translation.language, glossary, signal);
+}
@@ -0,0 +1,70 @@
+import { LanguageTranslation, TranslationStyle } from '../types';
+import { KEY_POINTS_COUNT, TRANSLATION_STYLES, supportedLanguages } from '../constants';
+
+// A briefing can hold several styles of the same language side by side, so a
+// translation is identified by its language and style together.
+
+export function translationStyleOf(translation: Pick<LanguageTranslation, 'style'>): TranslationStyle {
+  return translation.style || 'standard';
+}
+
+/**
+ * Identifies a translation among the briefing's: the language code, suffixed
+ * with the style unless standard (e.g. "vi-VN-easy-read"). Also used in file names.
+ */
+export function translationKey(translation: Pick<LanguageTranslation, 'language' | 'style'>): string {
+  const style = translationStyleOf(translation);
+  return style === 'standard' ? translation.language.code : `${translation.language.code}-${style}`;
+}
+
+const styleIndex = (translation: LanguageTranslation) =>
+  TRANSLATION_STYLES.findIndex(option => option.id === translationStyleOf(translation));
+
+/** Output tab order: by language as the selector lists them, the styles of one language side by side. */
+export function sortTranslations(translations: LanguageTranslation[]): LanguageTranslation[] {
+  const languageIndex = (translation: LanguageTranslation) => {
+    const index = supportedLanguages.findIndex(language => language.code === translation.language.code);
+    return index === -1 ? supportedLanguages.length : index;
+  };
+  return [...translations].sort((a, b) => languageIndex(a) - languageIndex(b) || styleIndex(a) - styleIndex(b));
+}
+
+export function translationStyleLabel(style: TranslationStyle): string {
+  return TRANSLATION_STYLES.find(option => option.id === style)?.shortLabel || style;
+}
+
+/** The language name, with the style unless standard: "Vietnamese (쉬운 문장)". */
+export function translationLabel(translation: Pick<LanguageTranslation, 'language' | 'style'>): string {
+  const style = translationStyleOf(translation);
+  return style === 'standard' ? translation.language.name : `${translation.language.name} (${translationStyleLabel(style)})`;
+}
+
+/** The instruction that turns a translation request into `style`; empty for standard. */
+export function buildStyleInstruction(style: TranslationStyle): string {
+  switch (style) {
+    case 'easy-read':
+      return `Write the translation in easy-read style for workers who read the language with difficulty.
+Use short imperative sentences and put one instruction per line, as list items. Use common everyday words; no idioms, metaphors, jargon or passive voice.
+Keep every heading, safety instruction, number and name of the source, in the same order; do not add advice of your own.`;
+    case 'key-points':
+      return `Do not translate the text line by line. Summarize it as exactly ${KEY_POINTS_COUNT} bullet points in the target language: the things workers most need to do, and must never do, to stay safe.
+Each bullet is one short imperative sentence; write prohibitions as "Never ..." in the target language. Output only the ${KEY_POINTS_COUNT} Markdown bullets, without a heading, introduction or closing.`;
+    default:
+      return '';
+  }
+}
+
+/**
+ * One finished translation per language, the standard one when there is one,
+ * for what shows a single text per language (shared links).
+ */
+export function finishedTranslationPerLanguage(translations: LanguageTranslation[]): LanguageTranslation[] {
+  const best = new Map<string, LanguageTranslation>();
+  translations
+    .filter(t => t.status === 'done' && t.text.trim())
+    .forEach(t => {
+      const current = best.get(t.language.code);
+      if (!current || styleIndex(t) < styleIndex(current)) best.set(t.language.code, t);
+    });
+  return translations.filter(t => best.get(t.language.code) === t);
+}
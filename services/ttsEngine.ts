@@ -0,0 +1,45 @@
+export type TtsEngineId = 'web-speech' | 'gcp';
+
+export interface TtsSpeakOptions {
+  signal?: AbortSignal; // Aborting stops playback; speak() then rejects with the abort reason
+  onStart?: () => void; // Audio is actually playing (after any synthesis round-trip)
+  rate?: number; // Speaking rate multiplier, 1 is normal (0.5 - 2)
+  pitch?: number; // Pitch multiplier, 1 is normal (0.5 - 2)
+}
+
+/**
+ * A speech backend. `speak` resolves when playback has finished and rejects
+ * on failure or abort, so callers can fall back to another engine.
+ */
+export interface TtsEngine {
+  id: TtsEngineId;
+  label: string;
+  isAvailable: () => boolean; // Usable at all in this browser / configuration
+  hasVoice: (languageCode: string) => Promise<boolean>; // Has a voice for this language specifically
+  speak: (text: string, languageCode: string, options?: TtsSpeakOptions) => Promise<void>;
+}
+
+/**
+ * Picks the first engine (in preference order) with a voice for the language.
+ * When none has one, falls back to the first available engine, which may read
+ * the text with a voice for another language; returns null if no engine is
+ * available at all. An engine that fails to answer counts as having no voice.
+ */
+export async function selectTtsEngine(engines: TtsEngine[], languageCode: string): Promise<TtsEngine | null> {
+  const available = engines.filter(engine => engine.isAvailable());
+  for (const engine of available) {
+    try {
+      if (await engine.hasVoice(languageCode)) return engine;
+    } catch (err) {
+      console.warn(`Could not list ${engine.label} voices for ${languageCode}:`, err);
+    }
+  }
+  return available[0] || null;
+}
+
+/** Matches "en-US" against "en-US" first, then any voice of the base language "en". */
+export function matchesLanguage(voiceLanguageCode: string, languageCode: string, exact: boolean): boolean {
+  const voice = voiceLanguageCode.toLowerCase().replace('_', '-');
+  const wanted = languageCode.toLowerCase();
+  return exact ? voice === wanted : voice.split('-')[0] === wanted.split('-')[0];
+}
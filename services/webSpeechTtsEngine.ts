@@ -0,0 +1,94 @@
+import { TtsEngine, TtsSpeakOptions, matchesLanguage } from './ttsEngine';
+
+// Browsers load voices asynchronously; give up waiting after this long.
+const VOICE_LOAD_TIMEOUT_MS = 1500;
+
+export const isWebSpeechSupported = (): boolean => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+function loadVoices(): Promise<SpeechSynthesisVoice[]> {
+  const voices = window.speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise(resolve => {
+    const finish = () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', finish);
+      clearTimeout(timer);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    const timer = setTimeout(finish, VOICE_LOAD_TIMEOUT_MS);
+    window.speechSynthesis.addEventListener('voiceschanged', finish);
+  });
+}
+
+function findVoice(voices: SpeechSynthesisVoice[], languageCode: string): SpeechSynthesisVoice | null {
+  // Try exact match (e.g., "en-US"), then base language match (e.g., "en" for "en-US")
+  for (const exact of [true, false]) {
+    const matching = voices.filter(voice => matchesLanguage(voice.lang, languageCode, exact));
+    if (matching.length > 0) return matching.find(v => v.default) || matching[0];
+  }
+  return null;
+}
+
+/** The browser's built-in SpeechSynthesis. */
+export function createWebSpeechTtsEngine(): TtsEngine {
+  return {
+    id: 'web-speech',
+    label: 'Browser (Web Speech)',
+    isAvailable: isWebSpeechSupported,
+
+    hasVoice: async (languageCode: string) => findVoice(await loadVoices(), languageCode) !== null,
+
+    speak: async (text: string, languageCode: string, options: TtsSpeakOptions = {}) => {
+      const { signal, onStart, rate = 1, pitch = 1 } = options;
+      signal?.throwIfAborted();
+      const voices = await loadVoices();
+      signal?.throwIfAborted();
+
+      // Cancel any ongoing speech first
+      if (window.speechSynthesis.speaking || window.speechSynthesis.pending) {
+        window.speechSynthesis.cancel();
+      }
+
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.rate = rate;
+      utterance.pitch = pitch;
+      let selectedVoice = findVoice(voices, languageCode);
+      // Fall back to any default voice if still no specific match, or first available
+      if (!selectedVoice && voices.length > 0) {
+        selectedVoice = voices.find(v => v.default) || voices[0];
+        console.warn(`No specific voice for ${languageCode}. Using fallback: ${selectedVoice.name} (${selectedVoice.lang})`);
+      }
+      if (selectedVoice) {
+        utterance.voice = selectedVoice;
+        utterance.lang = selectedVoice.lang; // Use the voice's actual lang
+      } else {
+        // With no voices loaded at all the browser may still have a default for the language code.
+        utterance.lang = languageCode;
+        console.warn("No voices loaded. Relying on browser default for language code: " + languageCode);
+      }
+
+      await new Promise<void>((resolve, reject) => {
+        const onAbort = () => {
+          window.speechSynthesis.cancel();
+          reject(signal?.reason);
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+        utterance.onstart = () => onStart?.();
+        utterance.onend = () => {
+          cleanup();
+          resolve();
+        };
+        utterance.onerror = (event) => {
+          cleanup();
+          // cancel() reports 'interrupted'/'canceled'; that is our own abort, handled above.
+          if (signal?.aborted) return;
+          console.error('Speech synthesis error:', event.error, event);
+          reject(new Error(`Speech error: ${event.error}`));
+        };
+        window.speechSynthesis.speak(utterance);
+      });
+    },
+  };
+}
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import App from '../App';
+import { AiProvider } from '../services/aiProvider';
+import { overrideAiProvider } from '../services/aiService';
+import { createMockAiProvider } from '../services/mockAiProvider';
+import { DEFAULT_MOCK_FIXTURES, fingerprint } from '../services/mockAiFixtures';
+import { fixtureFile, readFixture } from './fixtures';
+
+vi.mock('pdfjs-dist/build/pdf.mjs', () => import('./fakes/pdfjs'));
+
+// jsdom cannot rasterize a page, so OCR'd pages are "rendered" to fixed image data.
+vi.mock('../services/pdfTextService', async importOriginal => ({
+  ...await importOriginal<typeof import('../services/pdfTextService')>(),
+  renderPageToJpeg: vi.fn(async () => 'cGFnZQ=='),
+}));
+
+const PHOTO_BASE64 = Buffer.from(readFixture('briefing-photo.png')).toString('base64');
+const PHOTO_TEXT = '추락 주의\n안전대 고리 체결';
+const PHOTO_MARKDOWN = '# 추락 주의\n\n- 안전대 고리 체결';
+const SCANNED_PAGE_TEXT = '비상 대피로 확보';
+
+function createProvider(): AiProvider {
+  return createMockAiProvider({
+    fixtures: {
+      ...DEFAULT_MOCK_FIXTURES,
+      ocr: { [fingerprint(PHOTO_BASE64)]: PHOTO_TEXT, [fingerprint('cGFnZQ==')]: SCANNED_PAGE_TEXT },
+      markdown: { [PHOTO_TEXT]: PHOTO_MARKDOWN },
+    },
+  });
+}
+
+async function upload(file: File) {
+  const user = userEvent.setup({ applyAccept: false });
+  const input = document.querySelector<HTMLInputElement>('input[type="file"]');
+  if (!input) throw new Error('No file input rendered.');
+  await user.upload(input, file);
+}
+
+const editor = () => screen.getByLabelText<HTMLTextAreaElement>('TBM Material Input (Markdown source)');
+
+describe('Uploading a TBM document', () => {
+  let provider: AiProvider;
+
+  beforeEach(() => {
+    provider = createProvider();
+    overrideAiProvider(provider);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    render(<App />);
+  });
+
+  afterEach(() => {
+    overrideAiProvider(null);
+  });
+
+  describe('an image', () => {
+    it('OCRs the image and formats the text as Markdown', async () => {
+      const ocr = vi.spyOn(provider, 'extractTextFromImageData');
+
+      await upload(fixtureFile('briefing-photo.png', 'image/png'));
+
+      await waitFor(() => expect(editor()).toHaveValue(PHOTO_MARKDOWN));
+      expect(ocr).toHaveBeenCalledWith(PHOTO_BASE64, 'image/png', expect.any(AbortSignal));
+      expect(screen.queryByRole('alert')).not.toBeInTheDocument();
+    });
+
+    it('shows the OCR error and leaves the editor empty', async () => {
+      vi.spyOn(provider, 'extractTextFromImageData').mockRejectedValue(new Error('Invalid API Key for Gemini.'));
+
+      await upload(fixtureFile('briefing-photo.png', 'image/png'));
+
+      expect(await screen.findByText('Image OCR Error: Invalid API Key for Gemini.')).toBeInTheDocument();
+      expect(editor()).toHaveValue('');
+    });
+
+    it('keeps the raw OCR text when Markdown formatting fails', async () => {
+      vi.spyOn(provider, 'convertTextToMarkdown').mockRejectedValue(new Error('Invalid API Key for Gemini.'));
+
+      await upload(fixtureFile('briefing-photo.png', 'image/png'));
+
+      expect(await screen.findByText(/^Markdown Conversion Error \(Image\): Invalid API Key for Gemini\./)).toBeInTheDocument();
+      expect(editor()).toHaveValue(PHOTO_TEXT);
+    });
+
+    it('reports an image without text', async () => {
+      vi.spyOn(provider, 'extractTextFromImageData').mockResolvedValue('  ');
+
+      await upload(fixtureFile('briefing-photo.png', 'image/png'));
+
+      expect(await screen.findByText('No text content could be extracted from the image (OCR).')).toBeInTheDocument();
+    });
+  });
+
+  describe('a PDF', () => {
+    it('uses the text layer where there is one and OCRs scanned pages', async () => {
+      const ocr = vi.spyOn(provider, 'extractTextFromImageData');
+
+      await upload(fixtureFile('text-and-scanned-pages.pdf', 'application/pdf'));
+
+      await waitFor(() => expect(editor().value).toContain(SCANNED_PAGE_TEXT));
+      expect(editor().value).toContain('Pre-Work Safety Checklist');
+      expect(editor().value).toContain('1. Wear a hard hat, safety shoes and a harness.');
+      expect(ocr).toHaveBeenCalledTimes(1);
+      expect(screen.getByText(/2 pages: 1 from embedded text, 1 via OCR/)).toBeInTheDocument();
+    });
+
+    it('loads the pages it could read and lets the failed ones be retried', async () => {
+      const ocr = vi.spyOn(provider, 'extractTextFromImageData').mockRejectedValueOnce(new Error('Invalid API Key for Gemini.'));
+
+      await upload(fixtureFile('text-and-scanned-pages.pdf', 'application/pdf'));
+
+      expect(await screen.findByText('1 of 2 pages could not be extracted (p. 2). The document below is incomplete.')).toBeInTheDocument();
+      expect(screen.getByText('Page 2: Invalid API Key for Gemini.')).toBeInTheDocument();
+      expect(editor().value).toContain('Pre-Work Safety Checklist');
+      expect(editor().value).not.toContain(SCANNED_PAGE_TEXT);
+
+      await userEvent.click(screen.getByRole('button', { name: /실패한 페이지 다시 시도/ }));
+
+      await waitFor(() => expect(editor().value).toContain(SCANNED_PAGE_TEXT));
+      expect(ocr).toHaveBeenCalledTimes(2);
+      expect(screen.queryByText('Pages missing from the document')).not.toBeInTheDocument();
+    });
+
+    it('keeps the first extraction as the revert target after a retry', async () => {
+      vi.spyOn(provider, 'extractTextFromImageData').mockRejectedValueOnce(new Error('Invalid API Key for Gemini.'));
+      await upload(fixtureFile('text-and-scanned-pages.pdf', 'application/pdf'));
+      await userEvent.click(await screen.findByRole('button', { name: /실패한 페이지 다시 시도/ }));
+      await waitFor(() => expect(editor().value).toContain(SCANNED_PAGE_TEXT));
+
+      await userEvent.click(screen.getByRole('button', { name: /OCR 결과로 되돌리기/ }));
+
+      expect(editor().value).toContain('Pre-Work Safety Checklist');
+      expect(editor().value).not.toContain(SCANNED_PAGE_TEXT);
+    });
+
+    it('asks before a retry replaces edits, which stay one undo away', async () => {
+      const user = userEvent.setup();
+      vi.spyOn(provider, 'extractTextFromImageData').mockRejectedValueOnce(new Error('Invalid API Key for Gemini.'));
+      await upload(fixtureFile('text-and-scanned-pages.pdf', 'application/pdf'));
+      const retry = await screen.findByRole('button', { name: /실패한 페이지 다시 시도/ });
+      await user.type(editor(), '\n오늘 추가 위험: 강풍');
+      const edited = editor().value;
+      const confirm = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+
+      await user.click(retry);
+      expect(confirm).toHaveBeenCalledTimes(1);
+      expect(editor()).toHaveValue(edited);
+
+      await user.click(retry);
+      await waitFor(() => expect(editor().value).toContain(SCANNED_PAGE_TEXT));
+      await user.click(screen.getByRole('button', { name: 'Undo' }));
+      expect(editor()).toHaveValue(edited);
+    });
+
+    it('reports a PDF that cannot be opened', async () => {
+      await upload(fixtureFile('corrupt.pdf', 'application/pdf'));
+
+      expect(await screen.findByText('PDF Processing/OCR Error: Invalid PDF structure.')).toBeInTheDocument();
+      expect(editor()).toHaveValue('');
+    });
+  });
+
+  it('rejects other file types', async () => {
+    const ocr = vi.spyOn(provider, 'extractTextFromImageData');
+
+    await upload(new File(['hello'], 'notes.txt', { type: 'text/plain' }));
+
+    expect(await screen.findByText(/^Unsupported file type: notes\.txt \(text\/plain\)/)).toBeInTheDocument();
+    expect(ocr).not.toHaveBeenCalled();
+  });
+});
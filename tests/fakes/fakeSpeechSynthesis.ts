@@ -0,0 +1,74 @@
+import { vi } from 'vitest';
+
+// jsdom has no Web Speech API. This stand-in plays every utterance instantly
+// (start, then end, on the next tick) and records what was spoken, so tests
+// can check which voice and language each segment was read with.
+
+export class FakeUtterance {
+  lang = '';
+  voice: SpeechSynthesisVoice | null = null;
+  rate = 1;
+  pitch = 1;
+  onstart: (() => void) | null = null;
+  onend: (() => void) | null = null;
+  onerror: ((event: { error: string }) => void) | null = null;
+
+  constructor(public text: string) {}
+}
+
+export class FakeSpeechSynthesis extends EventTarget {
+  speaking = false;
+  pending = false;
+  paused = false;
+  spoken: FakeUtterance[] = [];
+  // When set, every utterance fails with this SpeechSynthesisErrorEvent error code.
+  failWith: string | null = null;
+  private current: FakeUtterance | null = null;
+
+  constructor(private voices: SpeechSynthesisVoice[] = []) {
+    super();
+  }
+
+  getVoices(): SpeechSynthesisVoice[] {
+    return this.voices;
+  }
+
+  /** Simulates the browser finishing its asynchronous voice list load. */
+  loadVoices(voices: SpeechSynthesisVoice[]): void {
+    this.voices = voices;
+    this.dispatchEvent(new Event('voiceschanged'));
+  }
+
+  speak(utterance: FakeUtterance): void {
+    this.spoken.push(utterance);
+    this.current = utterance;
+    this.speaking = true;
+    setTimeout(() => {
+      if (this.current !== utterance) return; // Cancelled before it started
+      utterance.onstart?.();
+      this.speaking = false;
+      this.current = null;
+      if (this.failWith) utterance.onerror?.({ error: this.failWith });
+      else utterance.onend?.();
+    }, 0);
+  }
+
+  cancel(): void {
+    const interrupted = this.current;
+    this.current = null;
+    this.speaking = false;
+    interrupted?.onerror?.({ error: 'interrupted' });
+  }
+}
+
+export function fakeVoice(lang: string, name: string, isDefault = false): SpeechSynthesisVoice {
+  return { lang, name, default: isDefault, localService: true, voiceURI: name };
+}
+
+/** Installs a fake `speechSynthesis` on the window; undone by `vi.unstubAllGlobals()`. */
+export function installFakeSpeechSynthesis(voices: SpeechSynthesisVoice[] = []): FakeSpeechSynthesis {
+  const synthesis = new FakeSpeechSynthesis(voices);
+  vi.stubGlobal('speechSynthesis', synthesis);
+  vi.stubGlobal('SpeechSynthesisUtterance', FakeUtterance);
+  return synthesis;
+}
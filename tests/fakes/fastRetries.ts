@@ -0,0 +1,15 @@
+// The app backs off for seconds between AI retries. A test file that exercises
+// retries opts into retrying straight away with
+//   vi.mock('../../constants', async importOriginal => (await import('../fakes/fastRetries')).withFastRetries(importOriginal));
+// (vi.mock is hoisted above the imports, so the helper is imported inside the factory.)
+
+type Constants = typeof import('../../constants');
+
+export async function withFastRetries(importOriginal: <T>() => Promise<T>) {
+  return {
+    ...await importOriginal<Constants>(),
+    OCR_RETRY_BASE_DELAY_MS: 1,
+    TRANSLATION_RETRY_BASE_DELAY_MS: 1,
+    AUDIO_EXPORT_RETRY_BASE_DELAY_MS: 1,
+  };
+}
@@ -0,0 +1,21 @@
+import { afterEach, beforeEach } from 'vitest';
+import { AiProvider } from '../../services/aiProvider';
+import { overrideAiProvider } from '../../services/aiService';
+import { createMockAiProvider } from '../../services/mockAiProvider';
+
+/**
+ * Sends every AI call in the enclosing describe block to a fresh offline mock
+ * provider. Returns the current test's provider, to spy on; a test can still
+ * override it with a provider of its own.
+ */
+export function useMockAiProvider(): () => AiProvider {
+  let provider: AiProvider;
+  beforeEach(() => {
+    provider = createMockAiProvider();
+    overrideAiProvider(provider);
+  });
+  afterEach(() => {
+    overrideAiProvider(null);
+  });
+  return () => provider;
+}
@@ -0,0 +1,21 @@
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs';
+// @ts-expect-error The worker bundle ships without type declarations
+import * as pdfjsWorker from 'pdfjs-dist/legacy/build/pdf.worker.mjs';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { readFixture } from '../fixtures';
+
+// Stands in for 'pdfjs-dist/build/pdf.mjs' (see vi.mock in the tests): the real
+// parser from the Node-compatible legacy build, with its worker running on the
+// main thread, so fixture PDFs are read exactly as in the browser. Only
+// rasterizing pages needs a canvas, which jsdom lacks.
+(globalThis as { pdfjsWorker?: unknown }).pdfjsWorker = pdfjsWorker;
+
+// The app points this at a CDN; with the worker above it is never loaded.
+export const GlobalWorkerOptions = { workerSrc: '' };
+
+export const getDocument = (source: { data: ArrayBuffer | Uint8Array }) =>
+  pdfjs.getDocument({ ...source, verbosity: pdfjs.VerbosityLevel.ERRORS });
+
+export async function loadFixturePdf(name: string): Promise<PDFDocumentProxy> {
+  return await getDocument({ data: readFixture(name) }).promise as unknown as PDFDocumentProxy;
+}
@@ -0,0 +1,15 @@
+import fs from 'node:fs';
+import path from 'node:path';
+
+// Small files for the upload tests:
+// - text-and-scanned-pages.pdf: page 1 has a text layer, page 2 only a drawing (like a scan)
+// - corrupt.pdf: a PDF header followed by garbage
+// - briefing-photo.png: an 8x8 grey image
+
+export function readFixture(name: string): Uint8Array {
+  return new Uint8Array(fs.readFileSync(path.join(__dirname, name)));
+}
+
+export function fixtureFile(name: string, type: string): File {
+  return new File([readFixture(name)], name, { type });
+}
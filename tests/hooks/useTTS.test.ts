@@ -0,0 +1,178 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useTTS } from '../../hooks/useTTS';
+import { TtsEngine, TtsEngineId } from '../../services/ttsEngine';
+import { SpeechSegment } from '../../services/speechSegments';
+import { fakeVoice, installFakeSpeechSynthesis } from '../fakes/fakeSpeechSynthesis';
+
+const segments = (...texts: string[]): SpeechSegment[] => texts.map((text, blockIndex) => ({ text, blockIndex }));
+
+function fakeEngine(id: TtsEngineId, overrides: Partial<TtsEngine> = {}): TtsEngine {
+  return {
+    id,
+    label: id,
+    isAvailable: () => true,
+    hasVoice: async () => true,
+    speak: async (_text, _languageCode, options) => options?.onStart?.(),
+    ...overrides,
+  };
+}
+
+// Renders the hook and waits until a play() call has run to the end of the session.
+async function playToEnd(result: { current: ReturnType<typeof useTTS> }, texts: string[], languageCode: string) {
+  act(() => result.current.play(segments(...texts), languageCode));
+  await waitFor(() => expect(result.current.isSpeaking).toBe(false));
+}
+
+describe('useTTS with the browser voices', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('reads every segment with the exact voice for the language', async () => {
+    const synthesis = installFakeSpeechSynthesis([
+      fakeVoice('en-GB', 'Daniel'),
+      fakeVoice('vi-VN', 'Linh'),
+      fakeVoice('en-US', 'Samantha', true),
+    ]);
+    const { result } = renderHook(() => useTTS());
+
+    await playToEnd(result, ['Wear a hard hat.', 'Check the guardrails.'], 'en-US');
+
+    expect(synthesis.spoken.map(utterance => [utterance.text, utterance.voice?.name, utterance.lang])).toEqual([
+      ['Wear a hard hat.', 'Samantha', 'en-US'],
+      ['Check the guardrails.', 'Samantha', 'en-US'],
+    ]);
+    expect(result.current.engineId).toBe('web-speech');
+    expect(result.current.ttsError).toBeNull();
+  });
+
+  it('falls back to a voice of the base language, preferring the default one', async () => {
+    const synthesis = installFakeSpeechSynthesis([
+      fakeVoice('es-MX', 'Paulina'),
+      fakeVoice('es_US', 'Juan', true),
+      fakeVoice('en-US', 'Samantha'),
+    ]);
+    const { result } = renderHook(() => useTTS());
+
+    await playToEnd(result, ['Use el casco.'], 'es-ES');
+
+    expect(synthesis.spoken[0].voice?.name).toBe('Juan');
+    expect(synthesis.spoken[0].lang).toBe('es_US');
+  });
+
+  it('falls back to the default voice when none speaks the language', async () => {
+    const synthesis = installFakeSpeechSynthesis([fakeVoice('en-US', 'Samantha'), fakeVoice('ko-KR', 'Yuna', true)]);
+    const { result } = renderHook(() => useTTS());
+
+    await playToEnd(result, ['Đội mũ bảo hiểm.'], 'vi-VN');
+
+    expect(synthesis.spoken[0].voice?.name).toBe('Yuna');
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('No specific voice for vi-VN'));
+  });
+
+  it('waits for voices that load after the first request', async () => {
+    const synthesis = installFakeSpeechSynthesis([]);
+    const { result } = renderHook(() => useTTS());
+
+    act(() => result.current.play(segments('Đội mũ bảo hiểm.'), 'vi-VN'));
+    act(() => synthesis.loadVoices([fakeVoice('vi-VN', 'Linh')]));
+    await waitFor(() => expect(result.current.isSpeaking).toBe(false));
+
+    expect(synthesis.spoken[0].voice?.name).toBe('Linh');
+  });
+
+  it('reports a speech error and ends the session', async () => {
+    const synthesis = installFakeSpeechSynthesis([fakeVoice('en-US', 'Samantha')]);
+    synthesis.failWith = 'synthesis-failed';
+    const { result } = renderHook(() => useTTS());
+
+    await playToEnd(result, ['Wear a hard hat.', 'Check the guardrails.'], 'en-US');
+
+    expect(result.current.ttsError).toBe('Speech error: synthesis-failed');
+    expect(synthesis.spoken).toHaveLength(1);
+    expect(result.current.currentSegmentIndex).toBeNull();
+  });
+
+  it('stops the browser speaking on cancel', async () => {
+    installFakeSpeechSynthesis([fakeVoice('en-US', 'Samantha')]);
+    const { result } = renderHook(() => useTTS());
+
+    act(() => result.current.play(segments('Wear a hard hat.', 'Check the guardrails.'), 'en-US'));
+    act(() => result.current.cancel());
+
+    expect(result.current.isSpeaking).toBe(false);
+    expect(result.current.segmentCount).toBe(0);
+  });
+
+  it('is unsupported without speech synthesis or a cloud engine', () => {
+    const { result } = renderHook(() => useTTS());
+
+    expect(result.current.isSupported).toBe(false);
+    expect(result.current.ttsError).toMatch(/not supported/);
+  });
+});
+
+describe('useTTS engine selection', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('uses the first engine that has a voice for the language', async () => {
+    const browser = fakeEngine('web-speech', { hasVoice: async () => false, speak: vi.fn() });
+    const cloud = fakeEngine('gcp');
+    const speak = vi.spyOn(cloud, 'speak');
+    const engines = [browser, cloud];
+    const { result } = renderHook(() => useTTS(engines));
+
+    await playToEnd(result, ['Xin chào'], 'vi-VN');
+
+    expect(browser.speak).not.toHaveBeenCalled();
+    expect(speak).toHaveBeenCalledWith('Xin chào', 'vi-VN', expect.objectContaining({ rate: 1, pitch: 1 }));
+    expect(result.current.engineId).toBe('gcp');
+  });
+
+  it('takes over from the failed segment with the next engine', async () => {
+    const spokenBy: string[] = [];
+    const browser = fakeEngine('web-speech', {
+      speak: async text => {
+        if (text === 'Two') throw new Error('Speech error: audio-busy');
+        spokenBy.push(`web-speech:${text}`);
+      },
+    });
+    const cloud = fakeEngine('gcp', { speak: async text => void spokenBy.push(`gcp:${text}`) });
+    const engines = [browser, cloud];
+    const { result } = renderHook(() => useTTS(engines));
+
+    await playToEnd(result, ['One', 'Two', 'Three'], 'en-US');
+
+    expect(spokenBy).toEqual(['web-speech:One', 'gcp:Two', 'gcp:Three']);
+    expect(result.current.ttsError).toBeNull();
+  });
+
+  it('reports the last error when every engine fails', async () => {
+    const engines = [
+      fakeEngine('web-speech', { speak: async () => { throw new Error('Speech error: network'); } }),
+      fakeEngine('gcp', { speak: async () => { throw new Error('Cloud TTS quota exceeded'); } }),
+    ];
+    const { result } = renderHook(() => useTTS(engines));
+
+    await playToEnd(result, ['One'], 'en-US');
+
+    expect(result.current.ttsError).toBe('Cloud TTS quota exceeded');
+  });
+
+  it('treats an engine that cannot list voices as having none', async () => {
+    const engines = [
+      fakeEngine('web-speech', { hasVoice: async () => { throw new Error('voices unavailable'); } }),
+      fakeEngine('gcp'),
+    ];
+    const { result } = renderHook(() => useTTS(engines));
+
+    await playToEnd(result, ['One'], 'en-US');
+
+    expect(result.current.engineId).toBe('gcp');
+  });
+});
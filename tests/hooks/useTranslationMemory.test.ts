@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useTranslationMemory } from '../../hooks/useTranslationMemory';
+import { LanguageTranslation } from '../../types';
+
+const SOURCE = '# 작업 전 점검\n\n1. 안전모 착용';
+
+const translation = (style: LanguageTranslation['style'], text: string): LanguageTranslation => ({
+  language: { code: 'en-US', name: 'English (US)' },
+  status: 'done',
+  ...(style ? { style } : {}),
+  text,
+  sourceText: SOURCE,
+});
+
+describe('useTranslationMemory', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('remembers a standard translation, e.g. after a structure repair', () => {
+    const { result } = renderHook(() => useTranslationMemory());
+
+    act(() => result.current.rememberTranslation(translation(undefined, '# Pre-work check\n\n1. Wear a hard hat')));
+
+    expect(result.current.entries).toEqual([expect.objectContaining({ sourceText: SOURCE, text: '# Pre-work check\n\n1. Wear a hard hat', languageCode: 'en-US' })]);
+  });
+
+  it('leaves the memory unchanged when an easy-read translation is repaired', () => {
+    const { result } = renderHook(() => useTranslationMemory());
+
+    act(() => result.current.rememberTranslation(translation('easy-read', '# Check before work\n\n- Wear your hard hat.')));
+
+    expect(result.current.entries).toEqual([]);
+  });
+});
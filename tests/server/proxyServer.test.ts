@@ -0,0 +1,93 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import type http from 'node:http';
+import { createProxyServer } from '../../server/proxyServer';
+import { createMockAiProvider, pseudoTranslate } from '../../services/mockAiProvider';
+import { createProxyAiProvider } from '../../services/proxyAiProvider';
+import { AI_PROXY_ROUTES } from '../../services/aiProxyApi';
+import { AiProvider } from '../../services/aiProvider';
+
+describe('AI proxy server', () => {
+  let server: http.Server;
+  let origin: string;
+  let upstream: AiProvider;
+  const log = vi.fn();
+
+  async function start(maxRequests = 10) {
+    server = createProxyServer({ provider: upstream, rateLimit: { windowMs: 60000, maxRequests }, maxBodyBytes: 1024, log });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  beforeEach(() => {
+    upstream = createMockAiProvider();
+    log.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('serves every AI call to the browser provider', async () => {
+    await start();
+    const client = createProxyAiProvider(origin);
+    const partials: string[] = [];
+
+    await expect(client.translateText('# 점검', 'en-US')).resolves.toBe(pseudoTranslate('# 점검', 'en-US'));
+    await expect(client.translateTextStream('1. 안전모\n2. 안전화', 'vi-VN', partial => partials.push(partial)))
+      .resolves.toBe(pseudoTranslate('1. 안전모\n2. 안전화', 'vi-VN'));
+    expect(partials).toEqual(['1. [VI] 안전모', '1. [VI] 안전모\n2. [VI] 안전화']);
+    await expect(client.convertTextToMarkdown('   ')).resolves.toBe('');
+    await expect(client.extractHazards('# 용접\n\n- 화재')).resolves.toEqual({ tasks: [{ task: '용접', hazards: [{ hazard: '화재', riskLevel: 'medium', controls: [] }] }], ppe: [] });
+    await expect(client.generateQuiz('1. 안전모 착용\n2. 안전대 체결\n3. 대피로 확인', 3)).resolves.toHaveLength(3);
+    expect(log).toHaveBeenCalledWith(expect.stringMatching(/ POST \/api\/translate 200 \d+ms/));
+  });
+
+  it('passes provider errors through so the browser can classify them', async () => {
+    vi.spyOn(upstream, 'extractTextFromImageData').mockRejectedValue(new Error('Invalid API Key for Gemini.'));
+    await start();
+
+    await expect(createProxyAiProvider(origin).extractTextFromImageData('aW1n', 'image/png')).rejects.toThrow('Invalid API Key for Gemini.');
+  });
+
+  it('rate limits each client with a retryable 429', async () => {
+    await start(1);
+    const client = createProxyAiProvider(origin);
+
+    await client.translateText('안전모', 'en-US');
+    await expect(client.translateText('안전모', 'en-US')).rejects.toThrow(/^429 Rate limit exceeded/);
+  });
+
+  it('tells forwarded devices apart by the hop the local proxy added', async () => {
+    await start(1);
+    const post = (forwardedFor: string) => fetch(`${origin}${AI_PROXY_ROUTES.translate}`, {
+      method: 'POST',
+      headers: { 'X-Forwarded-For': forwardedFor },
+      body: JSON.stringify({ text: '안전모', targetLanguageCode: 'en-US' }),
+    });
+
+    expect((await post('192.168.0.11')).status).toBe(200);
+    expect((await post('192.168.0.12')).status).toBe(200);
+    expect((await post('10.9.9.9, 192.168.0.11')).status).toBe(429);
+  });
+
+  it('rejects invalid requests before calling the provider', async () => {
+    const translate = vi.spyOn(upstream, 'translateText');
+    await start();
+    const post = (body: string) => fetch(`${origin}${AI_PROXY_ROUTES.translate}`, { method: 'POST', body });
+
+    expect((await post('{"text": ""}')).status).toBe(400);
+    expect((await post('not json')).status).toBe(400);
+    expect((await post('["안전모"]')).status).toBe(400);
+    expect((await fetch(`${origin}/api/unknown`)).status).toBe(404);
+    expect(translate).not.toHaveBeenCalled();
+  });
+
+  it('answers an oversized body with 413 instead of resetting the connection', async () => {
+    await start();
+
+    await expect(createProxyAiProvider(origin).translateText('x'.repeat(2048), 'en-US')).rejects.toThrow('Request body exceeds 1024 bytes.');
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { stripMarkdownFence, stripOpeningFence } from '../../services/aiProvider';
+
+describe('stripMarkdownFence', () => {
+  it('unwraps an answer fenced as markdown', () => {
+    expect(stripMarkdownFence('```markdown\n# 제목\n\n- 항목\n```')).toBe('# 제목\n\n- 항목');
+  });
+
+  it('unwraps a fence without a language and surrounding whitespace', () => {
+    expect(stripMarkdownFence('  \n```\nHello\n```\n  ')).toBe('Hello');
+  });
+
+  it('keeps a fence on the same line as the text', () => {
+    expect(stripMarkdownFence('```md Hello```')).toBe('Hello');
+  });
+
+  it('returns unfenced text trimmed and otherwise unchanged', () => {
+    expect(stripMarkdownFence('\n# Title\n\nBody\n')).toBe('# Title\n\nBody');
+  });
+
+  it('keeps code blocks inside the answer', () => {
+    const text = '# Steps\n\n```\nlockout\n```\n\nDone';
+    expect(stripMarkdownFence(text)).toBe(text);
+  });
+
+  it('keeps an empty fence as it is', () => {
+    expect(stripMarkdownFence('```\n```')).toBe('```\n```');
+  });
+});
+
+describe('stripOpeningFence', () => {
+  it('hides the opening fence of a partial answer', () => {
+    expect(stripOpeningFence('```markdown\n# Ti')).toBe('# Ti');
+  });
+
+  it('hides a fence that has no newline yet', () => {
+    expect(stripOpeningFence('```')).toBe('');
+  });
+
+  it('leaves text without a fence alone', () => {
+    expect(stripOpeningFence('# Title\n```')).toBe('# Title\n```');
+  });
+});
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { loadAiProviderSettings } from '../../services/aiService';
+
+const SETTINGS_STORAGE_KEY = 'tbm-assistant.ai-provider.v1';
+
+describe('loadAiProviderSettings', () => {
+  afterEach(() => {
+    localStorage.clear();
+  });
+
+  it('drops an API key stored by an earlier version', () => {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify({
+      providerId: 'openai-compatible',
+      openAiBaseUrl: 'http://gpu-server:8000/v1',
+      openAiModel: 'qwen2.5-vl-7b-instruct',
+      openAiApiKey: 'sk-secret',
+    }));
+
+    expect(loadAiProviderSettings()).toEqual({
+      providerId: 'openai-compatible',
+      openAiBaseUrl: 'http://gpu-server:8000/v1',
+      openAiModel: 'qwen2.5-vl-7b-instruct',
+    });
+    expect(localStorage.getItem(SETTINGS_STORAGE_KEY)).not.toContain('sk-secret');
+  });
+});
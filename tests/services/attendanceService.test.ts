@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  briefedStylesFor,
+  briefedTextFor,
+  buildAttendanceCsv,
+  buildAttendanceSheetHtml,
+  createAttendanceEntry,
+  hashText,
+  isSignedForCurrentText,
+} from '../../services/attendanceService';
+import { LanguageTranslation, TranslationStyle } from '../../types';
+
+const SOURCE = '# 작업 전 점검\n\n1. 안전모 착용';
+const VIETNAMESE: LanguageTranslation = {
+  language: { code: 'vi-VN', name: 'Vietnamese' },
+  status: 'done',
+  text: '# Kiểm tra trước khi làm việc\n\n1. Đội mũ bảo hiểm',
+  sourceText: SOURCE,
+};
+const EASY_READ_VIETNAMESE: LanguageTranslation = {
+  ...VIETNAMESE,
+  style: 'easy-read',
+  text: '- Đội mũ bảo hiểm.',
+};
+const SIGNATURE = 'data:image/png;base64,iVBORw0KGgo=';
+const DETAILS = { siteName: '판교 A현장', date: '2026-10-18', briefingTitle: '작업 전 점검' };
+
+describe('briefedTextFor', () => {
+  it('is the finished translation for a translated language', () => {
+    expect(briefedTextFor('vi-VN', 'standard', SOURCE, [VIETNAMESE])).toBe(VIETNAMESE.text);
+  });
+
+  it('is the translation in the style the worker was shown', () => {
+    const translations = [VIETNAMESE, EASY_READ_VIETNAMESE];
+
+    expect(briefedStylesFor('vi-VN', SOURCE, translations)).toEqual(['standard', 'easy-read']);
+    expect(briefedTextFor('vi-VN', 'easy-read', SOURCE, translations)).toBe(EASY_READ_VIETNAMESE.text);
+    expect(briefedTextFor('vi-VN', 'key-points', SOURCE, translations)).toBeNull();
+  });
+
+  it('is the Korean original for Korean', () => {
+    expect(briefedTextFor('ko-KR', 'standard', SOURCE, [VIETNAMESE])).toBe(SOURCE);
+    expect(briefedStylesFor('ko-KR', SOURCE, [VIETNAMESE])).toEqual(['standard']);
+  });
+
+  it('is null while a language is untranslated, translating or failed', () => {
+    expect(briefedTextFor('en-US', 'standard', SOURCE, [VIETNAMESE])).toBeNull();
+    expect(briefedTextFor('vi-VN', 'standard', SOURCE, [{ ...VIETNAMESE, status: 'translating' }])).toBeNull();
+    expect(briefedTextFor('vi-VN', 'standard', SOURCE, [{ ...VIETNAMESE, status: 'error', text: '' }])).toBeNull();
+  });
+});
+
+describe('createAttendanceEntry', () => {
+  it('hashes the SHA-256 of the text', async () => {
+    expect(await hashText('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('keeps the briefed text so later edits are detected', async () => {
+    const entry = await createAttendanceEntry(
+      { workerName: ' Nguyen Van A ', trade: '철근공', languageCode: 'vi-VN', style: 'standard', signature: SIGNATURE },
+      VIETNAMESE.text,
+      Date.UTC(2026, 9, 18, 7, 30)
+    );
+
+    expect(entry).toMatchObject({ workerName: 'Nguyen Van A', briefedText: VIETNAMESE.text, briefedTextHash: await hashText(VIETNAMESE.text) });
+    expect(isSignedForCurrentText(entry, VIETNAMESE.text)).toBe(true);
+    expect(isSignedForCurrentText(entry, `${VIETNAMESE.text}\n2. Đeo dây an toàn`)).toBe(false);
+    expect(isSignedForCurrentText(entry, null)).toBe(false);
+  });
+});
+
+describe('attendance exports', () => {
+  const sign = (workerName: string, languageCode: string, text: string, style: TranslationStyle = 'standard') =>
+    createAttendanceEntry({ workerName, trade: '형틀목공', languageCode, style, signature: SIGNATURE }, text);
+
+  it('writes one CSV row per worker with the text version', async () => {
+    const entries = [await sign('김철수', 'ko-KR', SOURCE), await sign('=HYPERLINK("x")', 'vi-VN', VIETNAMESE.text)];
+
+    const [header, first, second] = buildAttendanceCsv(entries, DETAILS).replace(/^\uFEFF/, '').split('\r\n');
+
+    expect(header).toBe('no,worker_name,trade,language_code,language,translation_style,signed_at,text_version_sha256,site,briefing_date,briefing_title');
+    expect(first).toContain(`1,김철수,형틀목공,ko-KR,Korean,standard,`);
+    expect(first).toContain(`,${entries[0].briefedTextHash},판교 A현장,2026-10-18,작업 전 점검`);
+    expect(second.startsWith(`2,"'=HYPERLINK(""x"")",`)).toBe(true);
+  });
+
+  it('records the style the worker signed for', async () => {
+    const entry = await sign('Tran B', 'vi-VN', EASY_READ_VIETNAMESE.text, 'easy-read');
+
+    expect(entry).toMatchObject({ style: 'easy-read', briefedText: EASY_READ_VIETNAMESE.text });
+    expect(buildAttendanceCsv([entry], DETAILS)).toContain(',vi-VN,Vietnamese,easy-read,');
+    expect(buildAttendanceSheetHtml([entry], DETAILS)).toContain('<td>Vietnamese (쉬운 문장)</td>');
+  });
+
+  it('prints every signature and each signed text version once', async () => {
+    const entries = [
+      await sign('Nguyen <b>A</b>', 'vi-VN', VIETNAMESE.text),
+      await sign('Tran B', 'vi-VN', VIETNAMESE.text),
+      await sign('김철수', 'ko-KR', SOURCE),
+    ];
+
+    const html = buildAttendanceSheetHtml(entries, DETAILS);
+
+    expect(html).toContain('Nguyen &lt;b&gt;A&lt;/b&gt;');
+    expect(html.match(/<img src="data:image\/png/g)).toHaveLength(3);
+    expect(html.match(/<article /g)).toHaveLength(2);
+    expect(html).toContain(`SHA-256 ${entries[0].briefedTextHash}`);
+    expect(html).toContain('Đội mũ bảo hiểm');
+  });
+});
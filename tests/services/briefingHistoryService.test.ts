@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { expiredBriefings } from '../../services/briefingHistoryService';
+import { BriefingRecord } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 18);
+
+const briefing = (id: string, daysAgo: number): BriefingRecord => ({
+  id,
+  title: id,
+  createdAt: NOW - daysAgo * DAY_MS,
+  updatedAt: NOW - daysAgo * DAY_MS,
+  extractedText: '',
+  markdown: '',
+  targetLanguageCodes: [],
+  translations: [],
+});
+
+describe('expiredBriefings', () => {
+  const records = [briefing('today', 0), briefing('last-month', 30), briefing('last-year', 365)];
+
+  it('lists the briefings a shorter retention period would delete', () => {
+    expect(expiredBriefings(records, 7, NOW).map(record => record.id)).toEqual(['last-month', 'last-year']);
+    expect(expiredBriefings(records, 30, NOW).map(record => record.id)).toEqual(['last-year']);
+  });
+
+  it('keeps everything when the period is unlimited', () => {
+    expect(expiredBriefings(records, 0, NOW)).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+// @vitest-environment node
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { findGcpVoice, synthesizeGcpSpeech, GcpTtsConfig } from '../../services/gcpTtsService';
+import { createProxyServer } from '../../server/proxyServer';
+import { createMockAiProvider } from '../../services/mockAiProvider';
+import { AI_PROXY_TTS_BASE } from '../../services/aiProxyApi';
+
+const AUDIO = Buffer.from([0x49, 0x44, 0x33, 0x04, 0x00, 0xff]);
+
+interface StubRequest {
+  method?: string;
+  url?: string;
+  apiKey?: string;
+  body: Record<string, unknown> | null;
+}
+
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+const close = (server: http.Server) => new Promise(resolve => server.close(resolve));
+
+describe('Cloud TTS client', () => {
+  let stub: http.Server;
+  let config: GcpTtsConfig;
+  let requests: StubRequest[];
+
+  beforeEach(async () => {
+    requests = [];
+    // A stand-in for texttospeech.googleapis.com/v1
+    stub = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => (raw += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, apiKey: req.headers['x-goog-api-key'] as string | undefined, body: raw ? JSON.parse(raw) : null });
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(req.url?.startsWith('/v1/voices')
+          ? { voices: [{ name: 'my-MM-Standard-A', languageCodes: ['my-MM'] }] }
+          : { audioContent: AUDIO.toString('base64') }));
+      });
+    });
+    config = { endpoint: `${await listen(stub)}/v1`, enabled: true };
+  });
+
+  afterEach(async () => {
+    await close(stub);
+  });
+
+  it('posts the synthesis request and decodes the audio', async () => {
+    const blob = await synthesizeGcpSpeech('안전모를 쓰세요.', 'my-MM', { voiceName: 'my-MM-Standard-A', speakingRate: 0.9 }, config);
+
+    expect(requests).toEqual([{
+      method: 'POST',
+      url: '/v1/text:synthesize',
+      apiKey: undefined,
+      body: {
+        input: { text: '안전모를 쓰세요.' },
+        voice: { languageCode: 'my-MM', name: 'my-MM-Standard-A' },
+        audioConfig: { audioEncoding: 'MP3', speakingRate: 0.9 },
+      },
+    }]);
+    expect(blob.type).toBe('audio/mpeg');
+    expect(Buffer.from(await blob.arrayBuffer())).toEqual(AUDIO);
+  });
+
+  it('finds a voice for the language', async () => {
+    await expect(findGcpVoice('my-MM', config)).resolves.toEqual({ name: 'my-MM-Standard-A', languageCode: 'my-MM' });
+    expect(requests[0].url).toBe('/v1/voices?languageCode=my');
+  });
+
+  describe('through the AI proxy', () => {
+    let proxy: http.Server;
+
+    async function startProxy(withTts: boolean): Promise<GcpTtsConfig> {
+      proxy = createProxyServer({
+        provider: createMockAiProvider(),
+        tts: withTts ? { endpoint: config.endpoint, apiKey: 'server-key' } : undefined,
+        rateLimit: { windowMs: 60000, maxRequests: 10 },
+        maxBodyBytes: 1024,
+        log: () => {},
+      });
+      return { endpoint: `${await listen(proxy)}${AI_PROXY_TTS_BASE}`, enabled: true };
+    }
+
+    afterEach(async () => {
+      await close(proxy);
+    });
+
+    it('adds the key on the server side', async () => {
+      const proxied = await startProxy(true);
+
+      const blob = await synthesizeGcpSpeech('Wear a helmet.', 'en-US', {}, proxied);
+      await findGcpVoice('my-MM', proxied);
+
+      expect(requests.map(({ method, url, apiKey }) => ({ method, url, apiKey }))).toEqual([
+        { method: 'POST', url: '/v1/text:synthesize', apiKey: 'server-key' },
+        { method: 'GET', url: '/v1/voices?languageCode=my', apiKey: 'server-key' },
+      ]);
+      expect(requests[0].body?.input).toEqual({ text: 'Wear a helmet.' });
+      expect(Buffer.from(await blob.arrayBuffer())).toEqual(AUDIO);
+    });
+
+    it('reports when the proxy has no Cloud TTS configured', async () => {
+      const proxied = await startProxy(false);
+
+      await expect(synthesizeGcpSpeech('Wear a helmet.', 'en-US', {}, proxied))
+        .rejects.toThrow('Cloud TTS service error (503): Cloud TTS is not configured on the AI proxy');
+      expect(requests).toEqual([]);
+    });
+  });
+});
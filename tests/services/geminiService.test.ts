@@ -0,0 +1,182 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createGeminiProvider } from '../../services/geminiService';
+
+const { generateContent, generateContentStream } = vi.hoisted(() => ({
+  generateContent: vi.fn(),
+  generateContentStream: vi.fn(),
+}));
+
+vi.mock('@google/genai', async importOriginal => ({
+  ...await importOriginal<typeof import('@google/genai')>(),
+  GoogleGenAI: class {
+    models = { generateContent, generateContentStream };
+  },
+}));
+
+const INVALID_KEY_MESSAGE = 'Invalid API Key for Gemini. Please check your Gemini API key configuration.';
+
+async function* streamOf(...texts: (string | undefined)[]) {
+  for (const text of texts) yield { text };
+}
+
+describe('Gemini provider', () => {
+  const provider = createGeminiProvider();
+
+  beforeEach(() => {
+    vi.stubEnv('GEMINI_API_KEY', 'test-key');
+    generateContent.mockReset();
+    generateContentStream.mockReset();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('extractTextFromImageData', () => {
+    it('sends the image with the OCR prompt and returns the trimmed text', async () => {
+      generateContent.mockResolvedValue({ text: '  안전모 착용\n' });
+
+      await expect(provider.extractTextFromImageData('aW1hZ2U=', 'image/png')).resolves.toBe('안전모 착용');
+      const [request] = generateContent.mock.calls[0];
+      expect(request.contents.parts[0]).toEqual({ inlineData: { mimeType: 'image/png', data: 'aW1hZ2U=' } });
+    });
+
+    it('rejects a response without text', async () => {
+      generateContent.mockResolvedValue({ text: undefined });
+
+      await expect(provider.extractTextFromImageData('aW1hZ2U=', 'image/png'))
+        .rejects.toThrow('AI OCR service error: OCR failed: Unexpected response format from AI.');
+    });
+  });
+
+  describe('convertTextToMarkdown', () => {
+    it('strips a code fence around the Markdown', async () => {
+      generateContent.mockResolvedValue({ text: '```markdown\n# 작업 전 점검\n\n1. 안전모\n```' });
+
+      await expect(provider.convertTextToMarkdown('작업 전 점검\n1. 안전모')).resolves.toBe('# 작업 전 점검\n\n1. 안전모');
+    });
+
+    it('skips the API for blank text', async () => {
+      await expect(provider.convertTextToMarkdown('  \n')).resolves.toBe('');
+      expect(generateContent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('translateText', () => {
+    it('strips a code fence and passes the system instruction on', async () => {
+      generateContent.mockResolvedValue({ text: '```\n# Pre-work check\n```' });
+
+      await expect(provider.translateText('# 작업 전 점검', 'en-US', 'Use the glossary.')).resolves.toBe('# Pre-work check');
+      const [request] = generateContent.mock.calls[0];
+      expect(request.contents).toContain('into en-US');
+      expect(request.config.systemInstruction).toMatch(/^Use the glossary\./);
+    });
+
+    it('wraps other errors with the service name', async () => {
+      generateContent.mockRejectedValue(new Error('503 UNAVAILABLE'));
+
+      await expect(provider.translateText('안전모', 'vi-VN')).rejects.toThrow('AI translation service error: 503 UNAVAILABLE');
+    });
+  });
+
+  describe('generateQuiz', () => {
+    it('asks for JSON matching the quiz schema and drops malformed questions', async () => {
+      generateContent.mockResolvedValue({
+        text: JSON.stringify({
+          questions: [
+            { question: '안전모는 언제 착용합니까?', options: ['작업 중 항상', '점심시간에만'], answerIndex: 0, explanation: '작업 중에는 항상 착용합니다.' },
+            { question: '정답이 없는 문항', options: ['가', '나'], answerIndex: 5, explanation: '' },
+          ],
+        }),
+      });
+
+      await expect(provider.generateQuiz('# 안전모 착용', 3)).resolves.toEqual([
+        { question: '안전모는 언제 착용합니까?', options: ['작업 중 항상', '점심시간에만'], answerIndex: 0, explanation: '작업 중에는 항상 착용합니다.' },
+      ]);
+      const [request] = generateContent.mock.calls[0];
+      expect(request.contents).toContain('Write 3 multiple-choice questions');
+      expect(request.config.responseMimeType).toBe('application/json');
+      expect(request.config.responseSchema.required).toEqual(['questions']);
+    });
+
+    it('rejects an answer that is not JSON', async () => {
+      generateContent.mockResolvedValue({ text: 'Here is your quiz!' });
+
+      await expect(provider.generateQuiz('# 안전모 착용', 3)).rejects.toThrow('AI quiz service error: Quiz generation failed: The AI did not answer with valid JSON.');
+    });
+  });
+
+  describe('extractHazards', () => {
+    it('asks for JSON matching the hazard schema and normalizes the answer', async () => {
+      generateContent.mockResolvedValue({
+        text: '```json\n' + JSON.stringify({
+          tasks: [
+            { task: '거푸집 설치', hazards: [{ hazard: '추락', riskLevel: 'severe', controls: ['안전대 체결', ''] }] },
+            { task: '', hazards: [] },
+          ],
+          ppe: ['안전모'],
+        }) + '\n```',
+      });
+
+      await expect(provider.extractHazards('| 작업 | 위험요인 |')).resolves.toEqual({
+        tasks: [{ task: '거푸집 설치', hazards: [{ hazard: '추락', riskLevel: 'medium', controls: ['안전대 체결'] }] }],
+        ppe: ['안전모'],
+      });
+      const [request] = generateContent.mock.calls[0];
+      expect(request.config.responseMimeType).toBe('application/json');
+      expect(request.config.responseSchema.properties.tasks.items.properties.hazards.items.properties.riskLevel.enum)
+        .toEqual(['high', 'medium', 'low']);
+    });
+  });
+
+  describe('translateTextStream', () => {
+    it('reports the accumulated text without the opening fence', async () => {
+      generateContentStream.mockResolvedValue(streamOf('```markdown\n# Pre', undefined, '-work check\n', '```'));
+      const onPartial = vi.fn();
+
+      await expect(provider.translateTextStream('# 작업 전 점검', 'en-US', onPartial)).resolves.toBe('# Pre-work check');
+      expect(onPartial.mock.calls.map(([partial]) => partial)).toEqual([
+        '# Pre',
+        '# Pre-work check\n',
+        '# Pre-work check\n```',
+      ]);
+    });
+
+    it('rejects an empty stream', async () => {
+      generateContentStream.mockResolvedValue(streamOf('', '  '));
+
+      await expect(provider.translateTextStream('안전모', 'en-US', () => {}))
+        .rejects.toThrow('AI translation service error: Translation failed: The AI returned an empty response.');
+    });
+  });
+
+  describe('API key errors', () => {
+    it.each(['API key not valid. Please pass a valid API key.', '[400] API_KEY_INVALID', 'The API key is invalid'])(
+      'maps "%s" to the configuration message on every call',
+      async message => {
+        generateContent.mockRejectedValue(new Error(message));
+        generateContentStream.mockRejectedValue(new Error(message));
+
+        await expect(provider.extractTextFromImageData('aW1hZ2U=', 'image/png')).rejects.toThrow(INVALID_KEY_MESSAGE);
+        await expect(provider.convertTextToMarkdown('안전모')).rejects.toThrow(INVALID_KEY_MESSAGE);
+        await expect(provider.translateText('안전모', 'en-US')).rejects.toThrow(INVALID_KEY_MESSAGE);
+        await expect(provider.translateTextStream('안전모', 'en-US', () => {})).rejects.toThrow(INVALID_KEY_MESSAGE);
+      }
+    );
+
+    it('refuses to call the API without a key', async () => {
+      vi.stubEnv('GEMINI_API_KEY', '  ');
+
+      await expect(provider.translateText('안전모', 'en-US')).rejects.toThrow('API Key for Gemini is not configured');
+      expect(generateContent).not.toHaveBeenCalled();
+    });
+  });
+
+  it('rejects with the abort reason instead of a service error when cancelled', async () => {
+    const controller = new AbortController();
+    generateContent.mockImplementation(async () => {
+      controller.abort(new Error('cancelled'));
+      throw new Error('The operation was aborted.');
+    });
+
+    await expect(provider.translateText('안전모', 'en-US', undefined, controller.signal)).rejects.toThrow('cancelled');
+  });
+});
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  assessmentFor,
+  createHazardChecklist,
+  hazardFields,
+  hazardFieldsFromMarkdown,
+  hazardFieldsToMarkdown,
+  translateHazardChecklist,
+  withHazardFields,
+} from '../../services/hazardChecklistService';
+import { pseudoHazards, pseudoTranslate } from '../../services/mockAiProvider';
+import { HazardAssessment, HazardChecklist, TargetLanguage } from '../../types';
+import { useMockAiProvider } from '../fakes/mockAi';
+
+vi.mock('../../constants', async importOriginal => (await import('../fakes/fastRetries')).withFastRetries(importOriginal));
+
+const ENGLISH: TargetLanguage = { code: 'en-US', name: 'English (US)' };
+const VIETNAMESE: TargetLanguage = { code: 'vi-VN', name: 'Vietnamese' };
+
+const RISK_ASSESSMENT = `# 위험성 평가표
+
+| 작업 | 위험요인 | 위험도 | 대책 |
+| --- | --- | --- | --- |
+| 거푸집 설치 | 작업 발판에서 추락 | 상 | 안전대 체결, 안전 난간 설치 |
+| 거푸집 설치 | 자재 낙하 | 중 | 낙하물 방지망 |
+| 철근 운반 | 허리 부상 | 하 | 2인 1조 운반 |
+
+보호구: 안전모, 안전화, 안전대`;
+
+const ASSESSMENT: HazardAssessment = {
+  tasks: [
+    { task: '거푸집 설치', hazards: [{ hazard: '추락', riskLevel: 'high', controls: ['안전대 체결', '안전 난간 설치'] }] },
+    { task: '철근 운반', hazards: [{ hazard: '허리 부상', riskLevel: 'low', controls: [] }] },
+  ],
+  ppe: ['안전모'],
+};
+
+describe('createHazardChecklist', () => {
+  useMockAiProvider();
+
+  it('reads tasks, hazards, risk levels, controls and PPE out of a table', async () => {
+    const checklist = await createHazardChecklist(RISK_ASSESSMENT, undefined, 7);
+
+    expect(checklist.createdAt).toBe(7);
+    expect(checklist.assessment).toEqual({
+      tasks: [
+        {
+          task: '거푸집 설치',
+          hazards: [
+            { hazard: '작업 발판에서 추락', riskLevel: 'high', controls: ['안전대 체결', '안전 난간 설치'] },
+            { hazard: '자재 낙하', riskLevel: 'medium', controls: ['낙하물 방지망'] },
+          ],
+        },
+        { task: '철근 운반', hazards: [{ hazard: '허리 부상', riskLevel: 'low', controls: ['2인 1조 운반'] }] },
+      ],
+      ppe: ['안전모', '안전화', '안전대'],
+    });
+  });
+
+  it('rejects a document without hazards', async () => {
+    await expect(createHazardChecklist('오늘은 교육이 없습니다.')).rejects.toThrow('No hazards were found in the document.');
+  });
+});
+
+describe('hazard fields', () => {
+  it('round-trips every text field while keeping the structure and risk levels', () => {
+    const fields = hazardFields(ASSESSMENT);
+    expect(fields).toEqual(['거푸집 설치', '추락', '안전대 체결', '안전 난간 설치', '철근 운반', '허리 부상', '안전모']);
+
+    const translated = hazardFieldsFromMarkdown(pseudoTranslate(hazardFieldsToMarkdown(fields), 'en-US'), fields.length);
+    expect(withHazardFields(ASSESSMENT, translated)).toEqual({
+      tasks: [
+        { task: '[EN] 거푸집 설치', hazards: [{ hazard: '[EN] 추락', riskLevel: 'high', controls: ['[EN] 안전대 체결', '[EN] 안전 난간 설치'] }] },
+        { task: '[EN] 철근 운반', hazards: [{ hazard: '[EN] 허리 부상', riskLevel: 'low', controls: [] }] },
+      ],
+      ppe: ['[EN] 안전모'],
+    });
+  });
+
+  it('rejects a translation that merged two fields', () => {
+    expect(() => hazardFieldsFromMarkdown('1. Formwork\n2. Fall, harness', 3)).toThrow('The translated checklist has 2 fields instead of 3.');
+  });
+});
+
+describe('translateHazardChecklist', () => {
+  const checklist: HazardChecklist = { sourceText: RISK_ASSESSMENT, createdAt: 1, assessment: ASSESSMENT, translations: [] };
+  const provider = useMockAiProvider();
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('translates field by field and reports a language whose fields never line up', async () => {
+    vi.spyOn(provider(), 'translateText').mockImplementation(async (text, languageCode) =>
+      languageCode === 'en-US' ? '1. Formwork' : pseudoTranslate(text, languageCode));
+
+    const [english, vietnamese] = await translateHazardChecklist(checklist, [ENGLISH, VIETNAMESE]);
+
+    expect(english).toMatchObject({ status: 'error', error: 'The translated checklist has 1 fields instead of 7.' });
+    expect(vietnamese.status).toBe('done');
+    expect(vietnamese.assessment?.tasks[0].hazards[0]).toEqual({ hazard: '[VI] 추락', riskLevel: 'high', controls: ['[VI] 안전대 체결', '[VI] 안전 난간 설치'] });
+
+    const translated = { ...checklist, translations: [english, vietnamese] };
+    expect(assessmentFor(translated, 'vi-VN')).toBe(vietnamese.assessment);
+    expect(assessmentFor(translated, 'en-US')).toBeNull();
+    expect(assessmentFor(translated, 'ko-KR')).toBe(ASSESSMENT);
+  });
+});
+
+describe('pseudoHazards', () => {
+  it('falls back to the list items of a briefing without a table', () => {
+    expect(pseudoHazards('# 용접 작업\n\n- 화재 위험\n- **감전** 위험')).toEqual({
+      tasks: [{ task: '용접 작업', hazards: [
+        { hazard: '화재 위험', riskLevel: 'medium', controls: [] },
+        { hazard: '감전 위험', riskLevel: 'medium', controls: [] },
+      ] }],
+      ppe: [],
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { compareMarkdownStructure, describeMarkdownStructure } from '../../services/markdownStructureService';
+
+describe('number check', () => {
+  it('reads digits of any script', () => {
+    expect(describeMarkdownStructure('အမြင့် ၁.၅ မီတာ, ၁၂ ဦး').numbers).toEqual(['1.5', '12']);
+    expect(describeMarkdownStructure('ความสูง ๒ เมตร, उंचाई २० मीटर, ３０分').numbers).toEqual(['2', '20', '30']);
+  });
+
+  it('matches numbers written with another script or decimal mark', () => {
+    expect(compareMarkdownStructure('높이 2m 이상, 1.5m 간격, 1,000kg', 'အမြင့် ၂ မီတာ, 1,5 m, 1.000 kg')).toEqual([]);
+    expect(compareMarkdownStructure('1,234.56원', '1.234,56 won')).toEqual([]);
+  });
+
+  it('keeps the decimal point', () => {
+    expect(compareMarkdownStructure('간격 1.5m', 'Spacing 15 m')).toEqual([
+      { kind: 'number', detail: '번역에 없는 숫자: 1.5' },
+      { kind: 'number', detail: '원문에 없는 숫자: 15' },
+    ]);
+    expect(describeMarkdownStructure('0.125').numbers).toEqual(['0.125']);
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { processPdfPages, mergePageResults, assemblePageText } from '../../services/pdfIngestionService';
+import { overrideAiProvider } from '../../services/aiService';
+import { createMockAiProvider } from '../../services/mockAiProvider';
+import { DEFAULT_MOCK_FIXTURES } from '../../services/mockAiFixtures';
+import { loadFixturePdf } from '../fakes/pdfjs';
+import { PdfPageExtraction } from '../../types';
+
+// jsdom cannot rasterize a page, so OCR'd pages are "rendered" to fixed image data.
+vi.mock('../../services/pdfTextService', async importOriginal => ({
+  ...await importOriginal<typeof import('../../services/pdfTextService')>(),
+  renderPageToJpeg: vi.fn(async () => 'cGFnZQ=='),
+}));
+
+vi.mock('../../constants', async importOriginal => (await import('../fakes/fastRetries')).withFastRetries(importOriginal));
+
+describe('processPdfPages', () => {
+  let pdf: PDFDocumentProxy;
+
+  beforeEach(async () => {
+    pdf = await loadFixturePdf('text-and-scanned-pages.pdf');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    overrideAiProvider(null);
+    await pdf.destroy();
+  });
+
+  it('reads the text layer where there is one and OCRs the other pages', async () => {
+    const provider = createMockAiProvider();
+    const ocr = vi.spyOn(provider, 'extractTextFromImageData');
+    overrideAiProvider(provider);
+    const onProgress = vi.fn();
+
+    const pages = await processPdfPages(pdf, [1, 2], { onProgress });
+
+    expect(pages.map(({ pageNumber, method, status }) => ({ pageNumber, method, status }))).toEqual([
+      { pageNumber: 1, method: 'text-layer', status: 'done' },
+      { pageNumber: 2, method: 'ocr', status: 'done' },
+    ]);
+    expect(pages[0].text).toContain('Pre-Work Safety Checklist');
+    expect(pages[0].text).toContain('2. Check the work platform and guardrails.');
+    expect(pages[1].text).toBe(DEFAULT_MOCK_FIXTURES.defaultOcrText);
+    expect(ocr).toHaveBeenCalledTimes(1);
+    expect(ocr).toHaveBeenCalledWith('cGFnZQ==', 'image/jpeg', undefined);
+    expect(onProgress).toHaveBeenLastCalledWith({ completed: 2, total: 2 });
+  });
+
+  it('retries transient OCR failures', async () => {
+    overrideAiProvider(createMockAiProvider({ transientFailures: 2 }));
+
+    const [page] = await processPdfPages(pdf, [2]);
+
+    expect(page).toMatchObject({ status: 'done', method: 'ocr', attempts: 3 });
+  });
+
+  it('reports a page that keeps failing without failing the others', async () => {
+    const provider = createMockAiProvider();
+    vi.spyOn(provider, 'extractTextFromImageData').mockRejectedValue(new Error('Invalid API Key for Gemini.'));
+    overrideAiProvider(provider);
+
+    const pages = await processPdfPages(pdf, [1, 2]);
+
+    expect(pages[0].status).toBe('done');
+    expect(pages[1]).toMatchObject({ status: 'failed', method: 'ocr', attempts: 1, text: '', error: 'Invalid API Key for Gemini.' });
+    expect(assemblePageText(pages)).toBe(pages[0].text.trim());
+  });
+
+  it('reports a page that cannot be loaded without failing the others', async () => {
+    overrideAiProvider(createMockAiProvider());
+    const getPage = pdf.getPage.bind(pdf);
+    vi.spyOn(pdf, 'getPage').mockImplementation(pageNumber =>
+      pageNumber === 2 ? Promise.reject(new Error('Invalid page request.')) : getPage(pageNumber));
+
+    const pages = await processPdfPages(pdf, [1, 2]);
+
+    expect(pages[0].status).toBe('done');
+    expect(pages[1]).toMatchObject({ pageNumber: 2, status: 'failed', text: '', error: 'Invalid page request.' });
+  });
+
+  it('rejects with the abort reason instead of reporting failed pages', async () => {
+    const controller = new AbortController();
+    const provider = createMockAiProvider();
+    vi.spyOn(provider, 'extractTextFromImageData').mockImplementation(async () => {
+      controller.abort(new Error('cancelled'));
+      throw new Error('The operation was aborted.');
+    });
+    overrideAiProvider(provider);
+
+    await expect(processPdfPages(pdf, [1, 2], { signal: controller.signal })).rejects.toThrow('cancelled');
+  });
+});
+
+describe('mergePageResults', () => {
+  const page = (pageNumber: number, status: PdfPageExtraction['status'], text = ''): PdfPageExtraction =>
+    ({ pageNumber, method: 'ocr', status, text, charCount: text.length, attempts: 1 });
+
+  it('replaces retried pages and keeps page order', () => {
+    const merged = mergePageResults([page(1, 'done', 'a'), page(2, 'failed'), page(3, 'done', 'c')], [page(2, 'done', 'b')]);
+
+    expect(merged.map(p => p.text)).toEqual(['a', 'b', 'c']);
+    expect(assemblePageText(merged)).toBe('a\n\nb\n\nc');
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { textItemsToMarkdown } from '../../services/pdfTextService';
+
+// One line of body text per string, top to bottom, at the same font size.
+const lines = (...texts: string[]): TextItem[] => texts.map((str, index) => ({
+  str,
+  dir: 'ltr',
+  transform: [10, 0, 0, 10, 50, 700 - index * 14],
+  width: str.length * 5,
+  height: 10,
+  fontName: 'g_d0_f1',
+  hasEOL: true,
+}));
+
+describe('textItemsToMarkdown', () => {
+  it('turns bullet and numbered lines into list items', () => {
+    expect(textItemsToMarkdown(lines('• 안전모 착용', '- 안전화 착용', '1) 작업 발판 점검'))).toBe('- 안전모 착용\n- 안전화 착용\n1. 작업 발판 점검');
+  });
+
+  it('keeps decimals and negative values as they are written', () => {
+    expect(textItemsToMarkdown(lines('1.5m 이상 고소 작업 시 안전대 착용', '-10℃ 이하에서는 작업 중지'))).toBe('1.5m 이상 고소 작업 시 안전대 착용\n-10℃ 이하에서는 작업 중지');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { pictogramsByLine, pictogramsForText } from '../../services/pictogramService';
+import { buildBilingualHandoutHtml } from '../../services/handoutService';
+import { DEFAULT_GLOSSARY } from '../../constants';
+import { LanguageTranslation, LawTerm } from '../../types';
+
+const SOURCE = `# 개인보호구
+
+안전모와 안전화를 착용하고 안전벨트를 체결합니다.
+
+# 비상시
+
+소화기 위치와 대피로를 확인합니다.
+
+# 마무리
+
+질문이 있으면 말하세요.`;
+
+const TRANSLATED = `# PPE
+
+Wear a helmet and safety shoes, and fasten the harness.
+
+# Emergency
+
+Check where the extinguisher and the escape route are.
+
+# Wrap-up
+
+Ask if you have questions.`;
+
+describe('pictogramsForText', () => {
+  it('shows each sign once, whichever term matched it, ignoring spaces', () => {
+    expect(pictogramsForText('비계 위 추락방지망과 안전 난간 점검', DEFAULT_GLOSSARY)).toEqual(['fall-hazard']);
+  });
+
+  it('only uses terms that are in the glossary', () => {
+    const glossary: LawTerm[] = DEFAULT_GLOSSARY.filter(term => term.term_ko !== '지게차');
+
+    expect(pictogramsForText('지게차 통로에서 크레인 작업', glossary)).toEqual(['overhead-load']);
+  });
+});
+
+describe('pictogramsByLine', () => {
+  it('places the signs of each Korean line next to its translation', () => {
+    const { sections, lines } = pictogramsByLine(SOURCE, TRANSLATED, DEFAULT_GLOSSARY);
+
+    expect(sections).toHaveLength(3);
+    expect(lines[0]).toEqual([
+      { text: '# PPE', pictograms: [] },
+      { text: 'Wear a helmet and safety shoes, and fasten the harness.', pictograms: ['helmet', 'safety-shoes', 'harness'] },
+    ]);
+    expect(lines[1].map(line => line.pictograms)).toEqual([[], ['fire-extinguisher', 'evacuation']]);
+    expect(lines[2].map(line => line.pictograms)).toEqual([[], []]);
+  });
+
+  it('pairs list items one by one and matches whole words only', () => {
+    const { lines } = pictogramsByLine(
+      '# 고소 작업\n\n- 안전대를 체결합니다.\n- 안전대책을 확인합니다.',
+      '# Work at height\n\n- Fasten the harness.\n- Check the safety measures.',
+      DEFAULT_GLOSSARY
+    );
+
+    expect(lines[0]).toEqual([
+      { text: '# Work at height', pictograms: [] },
+      { text: '- Fasten the harness.', pictograms: ['harness'] },
+      { text: '- Check the safety measures.', pictograms: [] },
+    ]);
+  });
+
+  it('puts every sign on the first line when the sections do not pair up', () => {
+    const { sections, lines } = pictogramsByLine(SOURCE, 'Wear a helmet. Check the escape route.', DEFAULT_GLOSSARY);
+
+    expect(sections).toEqual(['Wear a helmet. Check the escape route.']);
+    expect(lines).toEqual([[{
+      text: 'Wear a helmet. Check the escape route.',
+      pictograms: ['helmet', 'safety-shoes', 'harness', 'fire-extinguisher', 'evacuation'],
+    }]]);
+  });
+});
+
+describe('handout pictograms', () => {
+  it('prints the signs in the translated column of the matching row', () => {
+    const translation: LanguageTranslation = {
+      language: { code: 'en-US', name: 'English (US)' },
+      status: 'done',
+      text: TRANSLATED,
+      sourceText: SOURCE,
+    };
+
+    const html = buildBilingualHandoutHtml(translation, { siteName: 'A현장', date: '2026-10-18' }, DEFAULT_GLOSSARY);
+    const rows = html.split('<tr>').slice(2); // Skip the column titles
+
+    expect(rows[0]).toContain('aria-label="안전모 착용 / Wear a safety helmet"');
+    expect(rows[1]).toContain('aria-label="소화기 / Fire extinguisher"');
+    expect(rows[2]).not.toContain('<svg');
+  });
+});
@@ -0,0 +1,136 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createQuiz, createQuizAttempt, questionsFor, quizFromMarkdown, quizToMarkdown, translateQuiz } from '../../services/quizService';
+import { pseudoTranslate } from '../../services/mockAiProvider';
+import { DEFAULT_MOCK_FIXTURES } from '../../services/mockAiFixtures';
+import { BriefingQuiz, QuizTranslation, TargetLanguage } from '../../types';
+import { useMockAiProvider } from '../fakes/mockAi';
+
+vi.mock('../../constants', async importOriginal => (await import('../fakes/fastRetries')).withFastRetries(importOriginal));
+
+const KOREAN: TargetLanguage = { code: 'ko-KR', name: 'Korean' };
+const ENGLISH: TargetLanguage = { code: 'en-US', name: 'English (US)' };
+const VIETNAMESE: TargetLanguage = { code: 'vi-VN', name: 'Vietnamese' };
+
+const SOURCE = `# 작업 전 점검
+
+1. 안전모 착용
+2. 안전대 고리 체결
+3. 비상 대피로 확인
+4. 작업 발판 점검`;
+
+const QUIZ: BriefingQuiz = {
+  sourceText: SOURCE,
+  createdAt: 1,
+  questions: [
+    { question: '작업 전에 착용하는 것은?', options: ['안전모', '귀걸이', '슬리퍼'], answerIndex: 0, explanation: '' },
+    { question: '고소 작업 때 체결하는 것은?', options: ['휴대폰', '안전대 고리'], answerIndex: 1, explanation: '' },
+  ],
+  translations: [],
+};
+
+describe('createQuiz', () => {
+  const provider = useMockAiProvider();
+
+  it('writes the requested number of questions from the briefing', async () => {
+    const quiz = await createQuiz(SOURCE, 3, undefined, 42);
+
+    expect(quiz.sourceText).toBe(SOURCE);
+    expect(quiz.createdAt).toBe(42);
+    expect(quiz.questions).toHaveLength(3);
+    expect(quiz.questions[0].options[quiz.questions[0].answerIndex]).toBe('안전모 착용');
+  });
+
+  it('keeps the question count within the allowed range', async () => {
+    const generate = vi.spyOn(provider(), 'generateQuiz');
+
+    await createQuiz(SOURCE, 9);
+
+    expect(generate).toHaveBeenCalledWith(SOURCE, 5, undefined);
+  });
+
+  it('rejects a briefing too short for a quiz', async () => {
+    await expect(createQuiz('- 안전모 착용', 3)).rejects.toThrow('Quiz generation returned 1 usable questions.');
+  });
+});
+
+describe('quiz Markdown', () => {
+  it('reads back a translation that kept every question and option', () => {
+    const translated = pseudoTranslate(quizToMarkdown(QUIZ.questions), 'vi-VN');
+
+    expect(quizFromMarkdown(translated, QUIZ.questions)).toEqual([
+      { question: '[VI] 작업 전에 착용하는 것은?', options: ['[VI] 안전모', '[VI] 귀걸이', '[VI] 슬리퍼'] },
+      { question: '[VI] 고소 작업 때 체결하는 것은?', options: ['[VI] 휴대폰', '[VI] 안전대 고리'] },
+    ]);
+  });
+
+  it('rejects a translation that lost an option', () => {
+    const translated = quizToMarkdown(QUIZ.questions).replace('- 귀걸이\n', '');
+
+    expect(() => quizFromMarkdown(translated, QUIZ.questions)).toThrow('Question 1 of the translated quiz does not have its question and 3 options.');
+  });
+});
+
+describe('translateQuiz', () => {
+  const provider = useMockAiProvider();
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('translates into every language and keeps Korean as written', async () => {
+    const updates: QuizTranslation[] = [];
+
+    const results = await translateQuiz(QUIZ, [KOREAN, VIETNAMESE], { onUpdate: update => updates.push(update) });
+
+    expect(results[0]).toEqual({ language: KOREAN, status: 'done', questions: [
+      { question: QUIZ.questions[0].question, options: QUIZ.questions[0].options },
+      { question: QUIZ.questions[1].question, options: QUIZ.questions[1].options },
+    ] });
+    expect(results[1].status).toBe('done');
+    expect(results[1].questions[1].options).toEqual(['[VI] 휴대폰', '[VI] 안전대 고리']);
+    expect(updates.filter(update => update.language === VIETNAMESE).map(update => update.status)).toEqual(['translating', 'done']);
+  });
+
+  it('retries a translation that dropped an option and reports a language that keeps failing', async () => {
+    const translateText = vi.spyOn(provider(), 'translateText')
+      .mockImplementation(async (text, languageCode) =>
+        languageCode === 'en-US' ? 'Sorry, I cannot translate quizzes.' : pseudoTranslate(text, languageCode));
+
+    const [english, vietnamese] = await translateQuiz(QUIZ, [ENGLISH, VIETNAMESE]);
+
+    expect(english.status).toBe('error');
+    expect(english.error).toBe('The translated quiz has 0 questions instead of 2.');
+    expect(vietnamese.status).toBe('done');
+    expect(translateText.mock.calls.filter(([, languageCode]) => languageCode === 'en-US')).toHaveLength(3);
+  });
+});
+
+describe('quiz attempts', () => {
+  const translated: BriefingQuiz = {
+    ...QUIZ,
+    translations: [
+      { language: VIETNAMESE, status: 'done', questions: [{ question: 'Câu 1', options: ['a', 'b', 'c'] }, { question: 'Câu 2', options: ['a', 'b'] }] },
+      { language: ENGLISH, status: 'error', questions: [], error: 'failed' },
+    ],
+  };
+
+  it('offers the quiz in Korean and in every finished translation', () => {
+    expect(questionsFor(translated, 'ko-KR')).toBe(QUIZ.questions);
+    expect(questionsFor(translated, 'vi-VN')?.[0].question).toBe('Câu 1');
+    expect(questionsFor(translated, 'en-US')).toBeNull();
+  });
+
+  it('scores the answers against the Korean answer key', () => {
+    const attempt = createQuizAttempt(translated, '  Nguyen Van A ', 'vi-VN', [0, 0], 1000);
+
+    expect(attempt).toMatchObject({ workerName: 'Nguyen Van A', languageCode: 'vi-VN', answers: [0, 0], score: 1, questionCount: 2, completedAt: 1000 });
+  });
+});
+
+describe('mock quiz fixtures', () => {
+  it('has an answer key that points at a real option', () => {
+    for (const questions of Object.values(DEFAULT_MOCK_FIXTURES.quizzes)) {
+      for (const question of questions) expect(question.options[question.answerIndex]).toBeDefined();
+    }
+  });
+});
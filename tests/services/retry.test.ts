@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isTransientAiError, withRetry } from '../../services/retry';
+
+describe('isTransientAiError', () => {
+  it.each([
+    '429 Too Many Requests',
+    '503 UNAVAILABLE: The model is overloaded.',
+    'RESOURCE_EXHAUSTED',
+    'Request timed out',
+    'TypeError: fetch failed',
+    'TypeError: Failed to fetch',
+  ])('retries "%s"', message => {
+    expect(isTransientAiError(new Error(message))).toBe(true);
+  });
+
+  it.each([
+    'Invalid API Key for Gemini. Please check your Gemini API key configuration.',
+    '400 API key not valid',
+    'Translation failed: Unexpected response format from AI.',
+  ])('does not retry "%s"', message => {
+    expect(isTransientAiError(new Error(message))).toBe(false);
+  });
+
+  it('does not retry values that are not errors', () => {
+    expect(isTransientAiError('503')).toBe(false);
+  });
+});
+
+describe('withRetry', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('retries transient failures with growing delays until it succeeds', async () => {
+    const operation = vi.fn()
+      .mockRejectedValueOnce(new Error('503 UNAVAILABLE'))
+      .mockRejectedValueOnce(new Error('429 rate limit'))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    const result = withRetry(operation, { maxAttempts: 3, baseDelayMs: 100, onRetry });
+    await vi.runAllTimersAsync();
+
+    await expect(result).resolves.toBe('ok');
+    expect(operation.mock.calls.map(([attempt]) => attempt)).toEqual([1, 2, 3]);
+    const delays = onRetry.mock.calls.map(([, , delayMs]) => delayMs);
+    expect(delays[0]).toBeGreaterThanOrEqual(50);
+    expect(delays[0]).toBeLessThanOrEqual(100);
+    expect(delays[1]).toBeGreaterThanOrEqual(100);
+    expect(delays[1]).toBeLessThanOrEqual(200);
+  });
+
+  it('gives up after the last attempt with the last error', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('503 UNAVAILABLE'));
+
+    const result = withRetry(operation, { maxAttempts: 2, baseDelayMs: 10 });
+    const assertion = expect(result).rejects.toThrow('503 UNAVAILABLE');
+    await vi.runAllTimersAsync();
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails at once on an error that is not transient', async () => {
+    const operation = vi.fn().mockRejectedValue(new Error('Invalid API Key for Gemini.'));
+
+    await expect(withRetry(operation, { maxAttempts: 5, baseDelayMs: 10 })).rejects.toThrow('Invalid API Key');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the next attempt when aborted', async () => {
+    const controller = new AbortController();
+    const operation = vi.fn().mockRejectedValue(new Error('503 UNAVAILABLE'));
+
+    const result = withRetry(operation, { maxAttempts: 5, baseDelayMs: 1000, signal: controller.signal });
+    const assertion = expect(result).rejects.toThrow('cancelled');
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort(new Error('cancelled'));
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { translateIntoLanguages, retranslateStructureMismatches } from '../../services/translationService';
+import { overrideAiProvider } from '../../services/aiService';
+import { createMockAiProvider, pseudoTranslate } from '../../services/mockAiProvider';
+import { rememberSegments } from '../../services/translationMemoryService';
+import { finishedTranslationPerLanguage, sortTranslations, translationKey } from '../../services/translationStyles';
+import { LanguageTranslation, TargetLanguage } from '../../types';
+
+vi.mock('../../constants', async importOriginal => (await import('../fakes/fastRetries')).withFastRetries(importOriginal));
+
+const ENGLISH: TargetLanguage = { code: 'en-US', name: 'English (US)' };
+const VIETNAMESE: TargetLanguage = { code: 'vi-VN', name: 'Vietnamese' };
+
+const SOURCE = `# 작업 전 점검
+
+1. 안전모 착용
+
+## 비상 연락
+
+- 현장 소장에게 보고`;
+
+describe('translateIntoLanguages', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    overrideAiProvider(null);
+  });
+
+  it('translates into every language and streams updates', async () => {
+    overrideAiProvider(createMockAiProvider());
+    const updates: LanguageTranslation[] = [];
+
+    const results = await translateIntoLanguages(SOURCE, [ENGLISH, VIETNAMESE], { onUpdate: update => updates.push(update) });
+
+    expect(results).toEqual([
+      { language: ENGLISH, status: 'done', text: pseudoTranslate(SOURCE, 'en-US'), sourceText: SOURCE },
+      { language: VIETNAMESE, status: 'done', text: pseudoTranslate(SOURCE, 'vi-VN'), sourceText: SOURCE },
+    ]);
+    expect(updates.filter(update => update.language === ENGLISH).map(update => update.status))
+      .toEqual(expect.arrayContaining(['translating', 'done']));
+  });
+
+  it('reports a failing language while the others complete', async () => {
+    const provider = createMockAiProvider();
+    const translateStream = provider.translateTextStream;
+    vi.spyOn(provider, 'translateTextStream').mockImplementation((text, code, ...rest) =>
+      code === 'vi-VN' ? Promise.reject(new Error('Invalid API Key for Gemini.')) : translateStream(text, code, ...rest));
+    overrideAiProvider(provider);
+
+    const [english, vietnamese] = await translateIntoLanguages(SOURCE, [ENGLISH, VIETNAMESE]);
+
+    expect(english.status).toBe('done');
+    expect(vietnamese).toMatchObject({ status: 'error', text: '', error: 'Invalid API Key for Gemini.' });
+  });
+
+  it('retries a transient failure before giving up on a language', async () => {
+    overrideAiProvider(createMockAiProvider({ transientFailures: 1 }));
+
+    const [english] = await translateIntoLanguages(SOURCE, [ENGLISH]);
+
+    expect(english.status).toBe('done');
+  });
+
+  it('stops streaming the other chunks once one fails for good', async () => {
+    const provider = createMockAiProvider();
+    const signals: AbortSignal[] = [];
+    vi.spyOn(provider, 'translateTextStream').mockImplementation((text, _code, _onChunk, _instruction, signal) => {
+      if (!text.includes('# 구간 12')) return Promise.reject(new Error('Invalid API Key for Gemini.'));
+      signals.push(signal!);
+      return new Promise(resolve => setTimeout(() => resolve('[EN] 구간 12'), 100));
+    });
+    overrideAiProvider(provider);
+    const longSource = Array.from({ length: 12 }, (_, i) => `# 구간 ${i + 1}\n\n${'안전모를 착용합니다. '.repeat(30)}`).join('\n\n');
+
+    const [english] = await translateIntoLanguages(longSource, [ENGLISH]);
+
+    expect(english).toMatchObject({ status: 'error', error: 'Invalid API Key for Gemini.' });
+    expect(signals).toHaveLength(1);
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('reuses remembered sections without calling the model for them', async () => {
+    const provider = createMockAiProvider();
+    const translateStream = vi.spyOn(provider, 'translateTextStream');
+    overrideAiProvider(provider);
+    const memory = rememberSegments([], [{
+      sourceText: '# 작업 전 점검\n\n1. 안전모 착용',
+      text: '# Pre-work check\n\n1. Wear a hard hat',
+    }], 'en-US', true);
+
+    const [english] = await translateIntoLanguages(SOURCE, [ENGLISH], { memory });
+
+    expect(english.text).toBe(`# Pre-work check\n\n1. Wear a hard hat\n\n${pseudoTranslate('## 비상 연락\n\n- 현장 소장에게 보고', 'en-US')}`);
+    expect(translateStream).toHaveBeenCalledTimes(1);
+    expect(translateStream.mock.calls[0][0]).not.toContain('작업 전 점검');
+  });
+
+  it('rejects when cancelled', async () => {
+    overrideAiProvider(createMockAiProvider({ latencyMs: 50 }));
+    const controller = new AbortController();
+
+    const result = translateIntoLanguages(SOURCE, [ENGLISH, VIETNAMESE], { signal: controller.signal });
+    controller.abort(new Error('cancelled'));
+
+    await expect(result).rejects.toThrow('cancelled');
+  });
+});
+
+describe('retranslateStructureMismatches', () => {
+  afterEach(() => {
+    overrideAiProvider(null);
+  });
+
+  it('re-translates only the sections whose structure was lost', async () => {
+    const provider = createMockAiProvider();
+    const translate = vi.spyOn(provider, 'translateText');
+    overrideAiProvider(provider);
+    const text = `${pseudoTranslate('# 작업 전 점검', 'en-US')}\n\n[EN] 안전모 착용\n\n${pseudoTranslate('## 비상 연락\n\n- 현장 소장에게 보고', 'en-US')}`;
+
+    const repaired = await retranslateStructureMismatches({ language: ENGLISH, status: 'done', text, sourceText: SOURCE });
+
+    expect(repaired).toBe(pseudoTranslate(SOURCE, 'en-US'));
+    expect(translate).toHaveBeenCalledTimes(1);
+    expect(translate.mock.calls[0][0]).toBe('# 작업 전 점검\n\n1. 안전모 착용');
+  });
+
+  it('fails instead of sending a long unaligned document in one request', async () => {
+    const provider = createMockAiProvider();
+    const translate = vi.spyOn(provider, 'translateText');
+    overrideAiProvider(provider);
+    const longSource = Array.from({ length: 12 }, (_, i) => `# 구간 ${i + 1}\n\n${'안전모를 착용합니다. '.repeat(30)}`).join('\n\n');
+
+    await expect(retranslateStructureMismatches({ language: ENGLISH, status: 'done', text: 'Wear a helmet.', sourceText: longSource }))
+      .rejects.toThrow('too long to re-translate in one request');
+    expect(translate).not.toHaveBeenCalled();
+  });
+});
+
+describe('translation styles', () => {
+  afterEach(() => {
+    overrideAiProvider(null);
+  });
+
+  it('writes easy-read section by section without reusing the standard memory', async () => {
+    const provider = createMockAiProvider();
+    const translateStream = vi.spyOn(provider, 'translateTextStream');
+    overrideAiProvider(provider);
+    const memory = rememberSegments([], [{ sourceText: '# 작업 전 점검\n\n1. 안전모 착용', text: '# Pre-work check\n\n1. Wear a hard hat' }], 'en-US', true);
+
+    const [english] = await translateIntoLanguages(SOURCE, [ENGLISH], { memory, style: 'easy-read' });
+
+    expect(english).toMatchObject({ status: 'done', style: 'easy-read', text: pseudoTranslate(SOURCE, 'en-US') });
+    expect(translateStream).toHaveBeenCalledTimes(1);
+    expect(translateStream.mock.calls[0][3]).toContain('one instruction per line');
+  });
+
+  it('summarizes the whole document in one request for key points', async () => {
+    const provider = createMockAiProvider();
+    const translateStream = vi.spyOn(provider, 'translateTextStream');
+    overrideAiProvider(provider);
+    const longSource = Array.from({ length: 12 }, (_, i) => `# 구간 ${i + 1}\n\n${'안전모를 착용합니다. '.repeat(30)}`).join('\n\n');
+
+    const [english] = await translateIntoLanguages(longSource, [ENGLISH], { style: 'key-points' });
+
+    expect(english.style).toBe('key-points');
+    expect(translateStream).toHaveBeenCalledTimes(1);
+    expect(translateStream.mock.calls[0][0]).toBe(longSource);
+    expect(translateStream.mock.calls[0][3]).toContain('exactly 5 bullet points');
+  });
+
+  it('keeps the styles of one language side by side and prefers the standard one for sharing', () => {
+    const translations: LanguageTranslation[] = [
+      { language: VIETNAMESE, status: 'done', style: 'key-points', text: 'vi key points', sourceText: SOURCE },
+      { language: ENGLISH, status: 'done', style: 'easy-read', text: 'en easy', sourceText: SOURCE },
+      { language: VIETNAMESE, status: 'done', text: 'vi standard', sourceText: SOURCE },
+    ];
+
+    expect(sortTranslations(translations).map(translationKey)).toEqual(['en-US-easy-read', 'vi-VN', 'vi-VN-key-points']);
+    expect(finishedTranslationPerLanguage(translations).map(t => t.text)).toEqual(['en easy', 'vi standard']);
+  });
+});
@@ -4,9 +4,185 @@ export interface TargetLanguage {
   name: string; // Human-readable name, e.g., 'English (US)', 'Korean', 'Vietnamese'
 }
 
-// This is a simplified representation. Real law data would be more complex.
+// A site glossary entry. Real law data would be more complex.
 export interface LawTerm {
+  id: string;
   term_ko: string;
-  term_en: string; // Or term_target_language
+  term_en: string; // Fallback rendering when the target language has no term of its own
+  targets: { [languageCode: string]: string }; // Per-language terms, keyed by BCP 47 code (e.g. 'vi-VN')
   description?: string;
-}
\ No newline at end of file
+  do_not_translate: boolean; // Brand, equipment and site names that must stay verbatim
+}
+
+// How the text of a single PDF page was obtained.
+export type PageExtractionMethod = 'text-layer' | 'ocr';
+
+export interface PdfPageExtraction {
+  pageNumber: number;
+  method: PageExtractionMethod;
+  status: 'done' | 'failed';
+  text: string;
+  charCount: number;
+  attempts: number; // OCR calls made for this page, including retries
+  error?: string;
+}
+
+export interface PageProgress {
+  completed: number;
+  total: number;
+}
+
+export type TranslationStatus = 'translating' | 'done' | 'error';
+
+// How a translation is written for the crew: the source as written, short
+// plain instructions, or a five-point must-do / must-not-do summary.
+export type TranslationStyle = 'standard' | 'easy-read' | 'key-points';
+
+// One target language's result within a multi-language translation run.
+export interface LanguageTranslation {
+  language: TargetLanguage;
+  status: TranslationStatus;
+  style?: TranslationStyle; // Unset for standard translations, including those saved before styles existed
+  text: string; // While translating: the chunks finished or streaming so far, in order
+  sourceText: string; // The Korean Markdown this translation was made from
+  chunkProgress?: PageProgress; // While translating: chunks done out of the document's total
+  error?: string;
+}
+
+// The uploaded file a briefing was extracted from. Only its metadata is kept.
+export interface BriefingSourceFile {
+  name: string;
+  type: string; // MIME type
+  size: number; // Bytes
+  pageCount?: number; // PDFs only
+}
+
+// A briefing saved in the local history (services/briefingHistoryService.ts).
+export interface BriefingRecord {
+  id: string;
+  title: string; // First heading or line of the Markdown
+  createdAt: number; // Epoch milliseconds
+  updatedAt: number;
+  sourceFile?: BriefingSourceFile;
+  extractedText: string; // The extraction/OCR result, kept as the editor's "revert" target
+  markdown: string; // The edited Korean Markdown
+  targetLanguageCodes: string[];
+  translations: LanguageTranslation[]; // Finished languages only, never ones still translating
+  attendance?: AttendanceEntry[]; // Missing in briefings saved before sign-off existed
+  quiz?: BriefingQuiz;
+  quizAttempts?: QuizAttempt[];
+  hazardChecklist?: HazardChecklist;
+}
+
+// A worker's signed acknowledgement of a briefing (services/attendanceService.ts).
+// It keeps the exact text the worker was briefed with, so a later edit or
+// re-translation does not change what they signed for.
+export interface AttendanceEntry {
+  id: string;
+  workerName: string;
+  trade: string; // e.g. 형틀목공, 철근공
+  languageCode: string; // One of supportedLanguages
+  style?: TranslationStyle; // The translation's style when not standard; unset for Korean and for entries signed before styles existed
+  signature: string; // Finger-drawn signature as a PNG data URL
+  signedAt: number; // Epoch milliseconds
+  briefedText: string; // The Markdown the worker heard: the translation, or the Korean original for ko-KR
+  briefedTextHash: string; // SHA-256 of briefedText in hex, printed as the text version
+}
+
+// A remembered section translation (services/translationMemoryService.ts),
+// unique per normalized Korean section and target language.
+export interface TranslationMemoryEntry {
+  sourceKey: string; // Normalized Korean, the lookup key
+  sourceText: string; // The Korean section as last seen
+  languageCode: string;
+  text: string; // The translated section
+  approved: boolean; // Marked by a supervisor; never replaced by a new machine translation
+  updatedAt: number; // Epoch milliseconds
+}
+
+// A multiple-choice comprehension question about a briefing, in Korean
+// (services/quizService.ts). The answer key is only shown to the supervisor.
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  answerIndex: number; // Index into options
+  explanation: string; // Why the answer is right, for the supervisor
+}
+
+// The questions and options of a quiz in one worker language, in the same order
+// as the Korean ones. Answers are checked against the Korean answer key.
+export interface QuizTranslation {
+  language: TargetLanguage;
+  status: TranslationStatus;
+  questions: { question: string; options: string[] }[];
+  error?: string;
+}
+
+export interface BriefingQuiz {
+  sourceText: string; // The Korean Markdown the questions were written from
+  createdAt: number; // Epoch milliseconds
+  questions: QuizQuestion[];
+  translations: QuizTranslation[];
+}
+
+// One worker's answers to a briefing's quiz.
+export interface QuizAttempt {
+  id: string;
+  workerName: string;
+  languageCode: string; // The language the quiz was taken in
+  answers: number[]; // Chosen option index per question
+  score: number; // Correct answers
+  questionCount: number;
+  completedAt: number; // Epoch milliseconds
+}
+
+export type RiskLevel = 'high' | 'medium' | 'low';
+
+export interface HazardItem {
+  hazard: string;
+  riskLevel: RiskLevel;
+  controls: string[]; // Control measures, in the order the document lists them
+}
+
+export interface HazardTask {
+  task: string;
+  hazards: HazardItem[];
+}
+
+// The task → hazard → control table of a work plan or risk assessment, read
+// out of whatever layout the uploaded document used.
+export interface HazardAssessment {
+  tasks: HazardTask[];
+  ppe: string[]; // Protective equipment the work requires
+}
+
+// One worker language of a hazard checklist; every text field translated, the
+// structure and risk levels unchanged.
+export interface HazardChecklistTranslation {
+  language: TargetLanguage;
+  status: TranslationStatus;
+  assessment?: HazardAssessment; // Set once done
+  error?: string;
+}
+
+export interface HazardChecklist {
+  sourceText: string; // The Korean Markdown it was extracted from
+  createdAt: number; // Epoch milliseconds
+  assessment: HazardAssessment;
+  translations: HazardChecklistTranslation[];
+}
+
+// Standard safety signs shown next to translated sections that mention the
+// matching equipment or hazard (see components/SafetyPictograms.tsx).
+export type PictogramId =
+  | 'helmet'
+  | 'safety-shoes'
+  | 'harness'
+  | 'fall-hazard'
+  | 'confined-space'
+  | 'hazardous-substance'
+  | 'forklift'
+  | 'overhead-load'
+  | 'fire-extinguisher'
+  | 'first-aid'
+  | 'evacuation';
@@ -1,16 +1,35 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
 export default defineConfig(({ mode }) => {
-    const env = loadEnv(mode, '.', '');
+    // Tests never read the developer's .env files, so they cannot reach real services.
+    const env: Record<string, string> = mode === 'test' ? {} : loadEnv(mode, '.', '');
+    // AI calls go to the local proxy (server/), which holds GEMINI_API_KEY. X-Forwarded-For
+    // tells it which device sent each request, for the per-device rate limit.
+    const aiProxy = { '/api': { target: env.AI_PROXY_URL || 'http://localhost:8790', xfwd: true } };
     return {
+      server: { proxy: aiProxy },
+      preview: { proxy: aiProxy },
       define: {
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ''),
+        'process.env.OPENAI_COMPAT_BASE_URL': JSON.stringify(env.OPENAI_COMPAT_BASE_URL || ''),
+        'process.env.OPENAI_COMPAT_MODEL': JSON.stringify(env.OPENAI_COMPAT_MODEL || ''),
+        // Only whether the proxy relays Cloud TTS; GCP_TTS_API_KEY stays with it.
+        'process.env.GCP_TTS_ENABLED': JSON.stringify(String(Boolean(env.GCP_TTS_API_KEY || env.GCP_TTS_ENDPOINT)))
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      test: {
+        environment: 'jsdom',
+        setupFiles: ['./tests/setup.ts'],
+        include: ['tests/**/*.test.{ts,tsx}'],
+        restoreMocks: true,
+        unstubGlobals: true,
+        unstubEnvs: true,
       }
     };
 });